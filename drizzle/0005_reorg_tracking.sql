@@ -0,0 +1,34 @@
+-- Migration: Track processed block hashes and block-driven proposal transitions
+-- This enables the inscription engine to detect chain reorganizations, find the
+-- fork point and undo leader/expiry transitions made on orphaned blocks
+
+CREATE TABLE IF NOT EXISTS "bitmemes_processed_block" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_processed_block_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"height" integer NOT NULL,
+	"hash" varchar(64) NOT NULL,
+	"previous_hash" varchar(64) NOT NULL,
+	"block_time" timestamp with time zone NOT NULL,
+	"consecutive_blocks_without_launches" integer DEFAULT 0 NOT NULL,
+	"last_launch_block" integer,
+	"processed_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "bitmemes_proposal_transition" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_proposal_transition_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"proposal_id" integer NOT NULL,
+	"block_height" integer NOT NULL,
+	"from_status" "proposal_status" NOT NULL,
+	"to_status" "proposal_status" NOT NULL,
+	"previous_first_time_as_leader" timestamp with time zone,
+	"previous_leader_start_block" integer,
+	"previous_expiration_block" integer,
+	"reverted_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+ALTER TABLE "bitmemes_proposal_transition" ADD CONSTRAINT "bitmemes_proposal_transition_proposal_id_bitmemes_proposal_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."bitmemes_proposal"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "processed_block_height_idx" ON "bitmemes_processed_block" USING btree ("height");
+CREATE INDEX IF NOT EXISTS "processed_block_hash_idx" ON "bitmemes_processed_block" USING btree ("hash");
+CREATE INDEX IF NOT EXISTS "proposal_transition_block_idx" ON "bitmemes_proposal_transition" USING btree ("block_height");
+CREATE INDEX IF NOT EXISTS "proposal_transition_proposal_idx" ON "bitmemes_proposal_transition" USING btree ("proposal_id");
@@ -0,0 +1,17 @@
+-- Migration: Add competition_config for admin-tunable competition rules
+-- Each row is an immutable ruleset that takes effect from effective_from_block;
+-- the row history doubles as an audit trail of rule changes
+
+CREATE TABLE IF NOT EXISTS "bitmemes_competition_config" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_competition_config_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"effective_from_block" integer NOT NULL,
+	"proposal_lifetime_blocks" integer NOT NULL,
+	"defense_blocks" integer NOT NULL,
+	"reset_after_blocks_without_launch" integer NOT NULL,
+	"min_votes" integer NOT NULL,
+	"leader_expiration_blocks" integer NOT NULL,
+	"reason" text,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "competition_config_effective_idx" ON "bitmemes_competition_config" USING btree ("effective_from_block");
@@ -0,0 +1,27 @@
+-- Migration: Add competition rounds with winner history
+-- A round opens when the engine starts a competition and closes when a winner
+-- is inscribed or the competition is reset
+
+CREATE TYPE "public"."round_status" AS ENUM('open', 'won', 'reset');
+
+CREATE TABLE IF NOT EXISTS "bitmemes_competition_round" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_competition_round_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"status" "round_status" DEFAULT 'open' NOT NULL,
+	"start_block" integer NOT NULL,
+	"end_block" integer,
+	"participants" integer[] DEFAULT '{}' NOT NULL,
+	"winner_proposal_id" integer,
+	"reset_reason" text,
+	"inscription_id" integer,
+	"pump_fun_token_id" integer,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+ALTER TABLE "bitmemes_competition_round" ADD CONSTRAINT "bitmemes_competition_round_winner_proposal_id_bitmemes_proposal_id_fk" FOREIGN KEY ("winner_proposal_id") REFERENCES "public"."bitmemes_proposal"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_competition_round" ADD CONSTRAINT "bitmemes_competition_round_inscription_id_bitmemes_inscription_id_fk" FOREIGN KEY ("inscription_id") REFERENCES "public"."bitmemes_inscription"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_competition_round" ADD CONSTRAINT "bitmemes_competition_round_pump_fun_token_id_bitmemes_pump_fun_tokens_id_fk" FOREIGN KEY ("pump_fun_token_id") REFERENCES "public"."bitmemes_pump_fun_tokens"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "competition_round_status_idx" ON "bitmemes_competition_round" USING btree ("status");
+CREATE INDEX IF NOT EXISTS "competition_round_start_idx" ON "bitmemes_competition_round" USING btree ("start_block");
+CREATE INDEX IF NOT EXISTS "competition_round_winner_idx" ON "bitmemes_competition_round" USING btree ("winner_proposal_id");
@@ -0,0 +1,13 @@
+-- Migration: Add immutable per-block leaderboard snapshots
+-- The engine writes one ranked snapshot per processed block so past leadership
+-- decisions can be audited and replayed
+
+CREATE TABLE IF NOT EXISTS "bitmemes_leaderboard_snapshot" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_leaderboard_snapshot_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"block_height" integer NOT NULL,
+	"block_hash" varchar(64) NOT NULL,
+	"entries" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "leaderboard_snapshot_block_idx" ON "bitmemes_leaderboard_snapshot" USING btree ("block_height","block_hash");
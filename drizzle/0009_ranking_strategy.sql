@@ -0,0 +1,6 @@
+-- Migration: Make the winner ranking strategy part of the competition ruleset
+-- Existing rulesets rank by net score (upvotes minus downvotes)
+
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "ranking_strategy" varchar(20) DEFAULT 'net' NOT NULL;
+
+ALTER TABLE "bitmemes_leaderboard_snapshot" ADD COLUMN IF NOT EXISTS "ranking_strategy" varchar(20) DEFAULT 'net' NOT NULL;
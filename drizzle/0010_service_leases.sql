@@ -0,0 +1,11 @@
+-- Migration: Add service_lease for leader election between app instances
+-- Background services (inscription engine, UniSat monitor) only run on the
+-- node currently holding their lease; other nodes stay on standby
+
+CREATE TABLE IF NOT EXISTS "bitmemes_service_lease" (
+	"name" varchar(50) PRIMARY KEY NOT NULL,
+	"holder_id" varchar(255) NOT NULL,
+	"acquired_at" timestamp with time zone NOT NULL,
+	"renewed_at" timestamp with time zone NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
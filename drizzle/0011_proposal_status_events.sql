@@ -0,0 +1,12 @@
+-- Migration: Turn the block-driven proposal transition journal into a full
+-- status audit log. Every status change is now recorded with the actor that
+-- made it and a reason; engine rows are still used to undo reorged blocks
+
+ALTER TABLE "bitmemes_proposal_transition" RENAME TO "bitmemes_proposal_status_event";
+ALTER SEQUENCE IF EXISTS "bitmemes_proposal_transition_id_seq" RENAME TO "bitmemes_proposal_status_event_id_seq";
+ALTER TABLE "bitmemes_proposal_status_event" RENAME CONSTRAINT "bitmemes_proposal_transition_proposal_id_bitmemes_proposal_id_fk" TO "bitmemes_proposal_status_event_proposal_id_bitmemes_proposal_id_fk";
+ALTER INDEX IF EXISTS "proposal_transition_block_idx" RENAME TO "proposal_status_event_block_idx";
+ALTER INDEX IF EXISTS "proposal_transition_proposal_idx" RENAME TO "proposal_status_event_proposal_idx";
+
+ALTER TABLE "bitmemes_proposal_status_event" ADD COLUMN IF NOT EXISTS "actor" varchar(50) DEFAULT 'engine' NOT NULL;
+ALTER TABLE "bitmemes_proposal_status_event" ADD COLUMN IF NOT EXISTS "reason" text;
@@ -0,0 +1,29 @@
+-- Migration: Add a durable job queue for inscription, payment and pump.fun work
+-- Jobs are retried with exponential backoff and dead-lettered after
+-- max_attempts; idempotency_key stops the same work from being queued twice
+
+CREATE TYPE "public"."job_status" AS ENUM('pending', 'running', 'completed', 'dead', 'cancelled');
+
+CREATE TABLE IF NOT EXISTS "bitmemes_job" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_job_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"type" varchar(50) NOT NULL,
+	"idempotency_key" varchar(200) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "job_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"block_height" integer,
+	"run_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"locked_at" timestamp with time zone,
+	"locked_by" varchar(255),
+	"last_error" text,
+	"result" jsonb,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "job_idempotency_key_idx" ON "bitmemes_job" USING btree ("idempotency_key");
+CREATE INDEX IF NOT EXISTS "job_status_run_at_idx" ON "bitmemes_job" USING btree ("status","run_at");
+
+ALTER TABLE "bitmemes_inscription" ADD COLUMN IF NOT EXISTS "payment_txid" varchar(64);
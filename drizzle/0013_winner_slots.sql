@@ -0,0 +1,14 @@
+-- Migration: Let several proposals win in the same block, one per winner slot
+-- Existing rulesets keep a single slot; past inscriptions and rounds were all slot 1
+
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "winner_slots" integer DEFAULT 1 NOT NULL;
+
+ALTER TABLE "bitmemes_proposal" ADD COLUMN IF NOT EXISTS "leader_slot" integer;
+
+ALTER TABLE "bitmemes_inscription" ADD COLUMN IF NOT EXISTS "slot" integer DEFAULT 1 NOT NULL;
+
+ALTER TABLE "bitmemes_competition_round" ADD COLUMN IF NOT EXISTS "winner_proposal_ids" integer[] DEFAULT '{}' NOT NULL;
+
+UPDATE "bitmemes_proposal" SET "leader_slot" = 1 WHERE "status" IN ('leader', 'inscribing', 'inscribed');
+
+UPDATE "bitmemes_competition_round" SET "winner_proposal_ids" = ARRAY["winner_proposal_id"] WHERE "winner_proposal_id" IS NOT NULL;
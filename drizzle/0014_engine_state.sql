@@ -0,0 +1,13 @@
+-- Migration: Persist the inscription engine mode so pauses survive restarts
+-- While paused or in maintenance no blocks are processed and votes and
+-- proposal submissions are rejected
+
+CREATE TYPE "public"."engine_mode" AS ENUM('running', 'paused', 'maintenance');
+
+CREATE TABLE IF NOT EXISTS "bitmemes_engine_state" (
+	"id" integer PRIMARY KEY NOT NULL,
+	"mode" "engine_mode" DEFAULT 'running' NOT NULL,
+	"reason" text,
+	"resume_at_block" integer,
+	"updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
@@ -0,0 +1,17 @@
+-- Migration: Require votes to be signed by the voting wallet
+-- Each vote signs a single-use server nonce; a nonce is marked used when the
+-- vote is recorded so the same signature cannot be replayed
+
+CREATE TABLE IF NOT EXISTS "bitmemes_vote_nonce" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_vote_nonce_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"nonce" varchar(64) NOT NULL,
+	"wallet_address" varchar(90) NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"used_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "vote_nonce_nonce_idx" ON "bitmemes_vote_nonce" USING btree ("nonce");
+CREATE INDEX IF NOT EXISTS "vote_nonce_expires_idx" ON "bitmemes_vote_nonce" USING btree ("expires_at");
+
+ALTER TABLE "bitmemes_vote" ADD COLUMN IF NOT EXISTS "signature" text;
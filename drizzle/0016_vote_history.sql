@@ -0,0 +1,26 @@
+-- Migration: Let users switch or retract votes and keep every change
+-- Existing votes are backfilled as "cast" events so the history is complete
+
+CREATE TYPE "public"."vote_action" AS ENUM('cast', 'change', 'retract');
+
+CREATE TABLE IF NOT EXISTS "bitmemes_vote_event" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_vote_event_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_id" integer NOT NULL,
+	"proposal_id" integer NOT NULL,
+	"action" "vote_action" NOT NULL,
+	"from_type" "vote_type",
+	"to_type" "vote_type",
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+ALTER TABLE "bitmemes_vote_event" ADD CONSTRAINT "bitmemes_vote_event_user_id_bitmemes_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."bitmemes_user"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_vote_event" ADD CONSTRAINT "bitmemes_vote_event_proposal_id_bitmemes_proposal_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."bitmemes_proposal"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "vote_event_proposal_idx" ON "bitmemes_vote_event" USING btree ("proposal_id");
+CREATE INDEX IF NOT EXISTS "vote_event_user_proposal_idx" ON "bitmemes_vote_event" USING btree ("user_id","proposal_id");
+
+ALTER TABLE "bitmemes_vote" ADD COLUMN IF NOT EXISTS "updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL;
+
+INSERT INTO "bitmemes_vote_event" ("user_id", "proposal_id", "action", "to_type", "created_at")
+SELECT "user_id", "proposal_id", 'cast', "vote_type", "created_at" FROM "bitmemes_vote"
+WHERE NOT EXISTS (SELECT 1 FROM "bitmemes_vote_event");
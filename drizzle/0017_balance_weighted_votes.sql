@@ -0,0 +1,14 @@
+-- Migration: Optionally weigh votes by the voter's BTC balance
+-- Every existing vote keeps a weight of 1, so the new weight sums start out
+-- equal to the vote counts
+
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "voting_mode" varchar(20) DEFAULT 'count' NOT NULL;
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "balance_weight_cap_sats" bigint DEFAULT 100000000 NOT NULL;
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "balance_weight_curve" varchar(20) DEFAULT 'sqrt' NOT NULL;
+
+ALTER TABLE "bitmemes_vote" ADD COLUMN IF NOT EXISTS "weight" double precision DEFAULT 1 NOT NULL;
+ALTER TABLE "bitmemes_vote_event" ADD COLUMN IF NOT EXISTS "weight" double precision DEFAULT 1 NOT NULL;
+
+ALTER TABLE "bitmemes_proposal" ADD COLUMN IF NOT EXISTS "weight_up" double precision DEFAULT 0 NOT NULL;
+ALTER TABLE "bitmemes_proposal" ADD COLUMN IF NOT EXISTS "weight_down" double precision DEFAULT 0 NOT NULL;
+UPDATE "bitmemes_proposal" SET "weight_up" = "votes_up", "weight_down" = "votes_down";
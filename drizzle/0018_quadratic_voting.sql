@@ -0,0 +1,22 @@
+-- Migration: Add quadratic voting with a per-round credit budget
+-- Holding n votes on a proposal costs n^2 credits; the ledger records every
+-- spend and refund so the remaining budget can be audited
+
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "quadratic_credits_per_round" integer DEFAULT 100 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "bitmemes_vote_credit_ledger" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_vote_credit_ledger_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_id" integer NOT NULL,
+	"round_id" integer NOT NULL,
+	"proposal_id" integer NOT NULL,
+	"votes" integer NOT NULL,
+	"credits" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+ALTER TABLE "bitmemes_vote_credit_ledger" ADD CONSTRAINT "bitmemes_vote_credit_ledger_user_id_bitmemes_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."bitmemes_user"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_vote_credit_ledger" ADD CONSTRAINT "bitmemes_vote_credit_ledger_round_id_bitmemes_competition_round_id_fk" FOREIGN KEY ("round_id") REFERENCES "public"."bitmemes_competition_round"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_vote_credit_ledger" ADD CONSTRAINT "bitmemes_vote_credit_ledger_proposal_id_bitmemes_proposal_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."bitmemes_proposal"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE INDEX IF NOT EXISTS "vote_credit_user_round_idx" ON "bitmemes_vote_credit_ledger" USING btree ("user_id","round_id");
+CREATE INDEX IF NOT EXISTS "vote_credit_user_proposal_idx" ON "bitmemes_vote_credit_ledger" USING btree ("user_id","proposal_id");
@@ -0,0 +1,20 @@
+-- Migration: Anti-sybil wallet requirements and held votes
+-- Voting wallets need some on-chain history, and bursts of votes from wallets
+-- new to BitPill are held off the counters until an admin reviews them
+
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "min_wallet_tx_count" integer DEFAULT 2 NOT NULL;
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "min_wallet_age_blocks" integer DEFAULT 144 NOT NULL;
+
+ALTER TABLE "bitmemes_user" ADD COLUMN IF NOT EXISTS "wallet_verified_at" timestamp with time zone;
+
+CREATE TYPE "public"."vote_status" AS ENUM('counted', 'held', 'rejected');
+
+ALTER TABLE "bitmemes_vote" ADD COLUMN IF NOT EXISTS "status" "vote_status" DEFAULT 'counted' NOT NULL;
+ALTER TABLE "bitmemes_vote" ADD COLUMN IF NOT EXISTS "hold_reason" text;
+ALTER TABLE "bitmemes_vote" ADD COLUMN IF NOT EXISTS "reviewed_at" timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS "vote_status_idx" ON "bitmemes_vote" USING btree ("status");
+
+ALTER TYPE "public"."vote_action" ADD VALUE IF NOT EXISTS 'hold';
+ALTER TYPE "public"."vote_action" ADD VALUE IF NOT EXISTS 'release';
+ALTER TYPE "public"."vote_action" ADD VALUE IF NOT EXISTS 'reject';
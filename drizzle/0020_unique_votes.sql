@@ -0,0 +1,12 @@
+-- Migration: Allow one vote per user and proposal at the database level
+-- Duplicates left by concurrent requests are removed, keeping the newest row;
+-- the vote integrity job corrects the affected proposal counters on its first run
+
+DELETE FROM "bitmemes_vote" AS "older"
+USING "bitmemes_vote" AS "newer"
+WHERE "older"."user_id" = "newer"."user_id"
+  AND "older"."proposal_id" = "newer"."proposal_id"
+  AND "older"."id" < "newer"."id";
+
+DROP INDEX IF EXISTS "vote_user_proposal_idx";
+CREATE UNIQUE INDEX IF NOT EXISTS "vote_user_proposal_idx" ON "bitmemes_vote" USING btree ("user_id","proposal_id");
@@ -0,0 +1,3 @@
+-- Migration: Record the vote Merkle root committed in each inscription
+
+ALTER TABLE "bitmemes_inscription" ADD COLUMN IF NOT EXISTS "vote_merkle_root" varchar(64);
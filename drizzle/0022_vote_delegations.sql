@@ -0,0 +1,26 @@
+-- Migration: Let wallets delegate their voting power to a curator
+-- Votes cast on a delegator's behalf point at the curator they follow
+
+CREATE TABLE IF NOT EXISTS "bitmemes_delegation" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_delegation_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"delegator_id" integer NOT NULL,
+	"delegate_id" integer NOT NULL,
+	"round_id" integer,
+	"signature" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"revoked_at" timestamp with time zone
+);
+
+ALTER TABLE "bitmemes_delegation" ADD CONSTRAINT "bitmemes_delegation_delegator_id_bitmemes_user_id_fk" FOREIGN KEY ("delegator_id") REFERENCES "public"."bitmemes_user"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_delegation" ADD CONSTRAINT "bitmemes_delegation_delegate_id_bitmemes_user_id_fk" FOREIGN KEY ("delegate_id") REFERENCES "public"."bitmemes_user"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_delegation" ADD CONSTRAINT "bitmemes_delegation_round_id_bitmemes_competition_round_id_fk" FOREIGN KEY ("round_id") REFERENCES "public"."bitmemes_competition_round"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "delegation_active_delegator_idx" ON "bitmemes_delegation" USING btree ("delegator_id") WHERE "bitmemes_delegation"."revoked_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "delegation_delegate_idx" ON "bitmemes_delegation" USING btree ("delegate_id");
+
+ALTER TABLE "bitmemes_vote" ADD COLUMN IF NOT EXISTS "delegate_id" integer;
+ALTER TABLE "bitmemes_vote" ADD CONSTRAINT "bitmemes_vote_delegate_id_bitmemes_user_id_fk" FOREIGN KEY ("delegate_id") REFERENCES "public"."bitmemes_user"("id") ON DELETE no action ON UPDATE no action;
+CREATE INDEX IF NOT EXISTS "vote_proposal_delegate_idx" ON "bitmemes_vote" USING btree ("proposal_id","delegate_id");
+
+ALTER TABLE "bitmemes_vote_event" ADD COLUMN IF NOT EXISTS "delegate_id" integer;
+ALTER TABLE "bitmemes_vote_event" ADD CONSTRAINT "bitmemes_vote_event_delegate_id_bitmemes_user_id_fk" FOREIGN KEY ("delegate_id") REFERENCES "public"."bitmemes_user"("id") ON DELETE no action ON UPDATE no action;
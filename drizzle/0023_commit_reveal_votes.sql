@@ -0,0 +1,27 @@
+-- Migration: Add optional commit-reveal voting
+-- Votes are committed as hashes during a commit phase and only reach the
+-- proposal counters once revealed in the reveal phase that follows
+
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "commit_phase_blocks" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "reveal_phase_blocks" integer DEFAULT 1 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "bitmemes_vote_commitment" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_vote_commitment_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_id" integer NOT NULL,
+	"proposal_id" integer NOT NULL,
+	"commitment" varchar(64) NOT NULL,
+	"signature" text NOT NULL,
+	"reveal_opens_at_block" integer NOT NULL,
+	"reveal_closes_at_block" integer NOT NULL,
+	"vote_id" integer,
+	"revealed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+ALTER TABLE "bitmemes_vote_commitment" ADD CONSTRAINT "bitmemes_vote_commitment_user_id_bitmemes_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."bitmemes_user"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_vote_commitment" ADD CONSTRAINT "bitmemes_vote_commitment_proposal_id_bitmemes_proposal_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."bitmemes_proposal"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_vote_commitment" ADD CONSTRAINT "bitmemes_vote_commitment_vote_id_bitmemes_vote_id_fk" FOREIGN KEY ("vote_id") REFERENCES "public"."bitmemes_vote"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "vote_commitment_user_proposal_phase_idx" ON "bitmemes_vote_commitment" USING btree ("user_id","proposal_id","reveal_closes_at_block");
+CREATE INDEX IF NOT EXISTS "vote_commitment_proposal_idx" ON "bitmemes_vote_commitment" USING btree ("proposal_id");
@@ -0,0 +1,32 @@
+-- Migration: Count votes broadcast as OP_RETURN transactions
+-- Each vote records where it came from; every vote found in a processed block
+-- is kept with the outcome of applying it
+
+CREATE TYPE "public"."vote_source" AS ENUM('api', 'onchain', 'delegation');
+
+ALTER TABLE "bitmemes_vote" ADD COLUMN IF NOT EXISTS "source" "vote_source" DEFAULT 'api' NOT NULL;
+ALTER TABLE "bitmemes_vote" ADD COLUMN IF NOT EXISTS "txid" varchar(64);
+UPDATE "bitmemes_vote" SET "source" = 'delegation' WHERE "delegate_id" IS NOT NULL;
+
+CREATE TYPE "public"."onchain_vote_status" AS ENUM('applied', 'ignored', 'orphaned');
+
+CREATE TABLE IF NOT EXISTS "bitmemes_onchain_vote" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_onchain_vote_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"txid" varchar(64) NOT NULL,
+	"block_height" integer NOT NULL,
+	"block_hash" varchar(64) NOT NULL,
+	"wallet_address" varchar(90),
+	"proposal_id" integer NOT NULL,
+	"vote_type" "vote_type" NOT NULL,
+	"status" "onchain_vote_status" NOT NULL,
+	"reason" text,
+	"vote_id" integer,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+ALTER TABLE "bitmemes_onchain_vote" ADD CONSTRAINT "bitmemes_onchain_vote_vote_id_bitmemes_vote_id_fk" FOREIGN KEY ("vote_id") REFERENCES "public"."bitmemes_vote"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "onchain_vote_tx_block_idx" ON "bitmemes_onchain_vote" USING btree ("txid","block_hash");
+CREATE INDEX IF NOT EXISTS "onchain_vote_height_idx" ON "bitmemes_onchain_vote" USING btree ("block_height");
+CREATE INDEX IF NOT EXISTS "onchain_vote_proposal_idx" ON "bitmemes_onchain_vote" USING btree ("proposal_id");
+CREATE INDEX IF NOT EXISTS "onchain_vote_wallet_idx" ON "bitmemes_onchain_vote" USING btree ("wallet_address");
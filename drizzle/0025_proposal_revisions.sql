@@ -0,0 +1,22 @@
+-- Migration: Let submitters edit proposals and keep every revision
+-- A proposal's non-identity fields can be corrected by its submitter until
+-- the first vote or until `proposal_edit_blocks` blocks after creation
+
+ALTER TABLE "bitmemes_competition_config" ADD COLUMN IF NOT EXISTS "proposal_edit_blocks" integer DEFAULT 6 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "bitmemes_proposal_revision" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_proposal_revision_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"proposal_id" integer NOT NULL,
+	"revision" integer NOT NULL,
+	"edited_by" integer NOT NULL,
+	"block_height" integer NOT NULL,
+	"changes" jsonb NOT NULL,
+	"previous" jsonb NOT NULL,
+	"signature" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+ALTER TABLE "bitmemes_proposal_revision" ADD CONSTRAINT "bitmemes_proposal_revision_proposal_id_bitmemes_proposal_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."bitmemes_proposal"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "bitmemes_proposal_revision" ADD CONSTRAINT "bitmemes_proposal_revision_edited_by_bitmemes_user_id_fk" FOREIGN KEY ("edited_by") REFERENCES "public"."bitmemes_user"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "proposal_revision_proposal_revision_idx" ON "bitmemes_proposal_revision" USING btree ("proposal_id","revision");
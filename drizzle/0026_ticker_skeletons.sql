@@ -0,0 +1,45 @@
+-- Migration: Detect look-alike tickers and reserve the tickers of inscribed winners
+-- Proposals store the skeleton of their ticker so Unicode look-alikes of an
+-- existing ticker can be found, and inscribed winners lock theirs for good
+
+ALTER TABLE "bitmemes_proposal" ADD COLUMN IF NOT EXISTS "ticker_skeleton" varchar(64);
+
+-- Mirrors tickerService.skeleton: NFKC, drop invisible characters, upper
+-- case, drop accents and map look-alike characters to Latin letters
+UPDATE "bitmemes_proposal"
+SET "ticker_skeleton" = translate(
+	regexp_replace(
+		normalize(
+			upper(regexp_replace(normalize("ticker", NFKC), E'[[:space:][:cntrl:]\u00AD\u034F\u061C\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]', '', 'g')),
+			NFD
+		),
+		E'[\u0300-\u036F]', '', 'g'
+	),
+	'01|АВСЕНІӀЈКМОРЅТХУҮԚԜΑΒΕΖΗΙΚΜΝΟΡΤΥΧՕՍ',
+	'OIIABCEHIIJKMOPSTXYYQWABEZHIKMNOPTYXOU'
+)
+WHERE "ticker_skeleton" IS NULL;
+
+ALTER TABLE "bitmemes_proposal" ALTER COLUMN "ticker_skeleton" SET NOT NULL;
+CREATE INDEX IF NOT EXISTS "proposal_ticker_skeleton_idx" ON "bitmemes_proposal" USING btree ("ticker_skeleton");
+
+CREATE TABLE IF NOT EXISTS "bitmemes_reserved_ticker" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "bitmemes_reserved_ticker_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"ticker" varchar(10) NOT NULL,
+	"skeleton" varchar(64) NOT NULL,
+	"proposal_id" integer NOT NULL,
+	"reserved_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+ALTER TABLE "bitmemes_reserved_ticker" ADD CONSTRAINT "bitmemes_reserved_ticker_proposal_id_bitmemes_proposal_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."bitmemes_proposal"("id") ON DELETE no action ON UPDATE no action;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "reserved_ticker_skeleton_idx" ON "bitmemes_reserved_ticker" USING btree ("skeleton");
+CREATE UNIQUE INDEX IF NOT EXISTS "reserved_ticker_proposal_idx" ON "bitmemes_reserved_ticker" USING btree ("proposal_id");
+
+-- Winners inscribed before this migration, oldest first when skeletons clash
+INSERT INTO "bitmemes_reserved_ticker" ("ticker", "skeleton", "proposal_id")
+SELECT "ticker", "ticker_skeleton", "id"
+FROM "bitmemes_proposal"
+WHERE "status" = 'inscribed'
+ORDER BY "id"
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,5 @@
+-- Migration: Record the leader slot a status change replaced
+-- Rolling back a reorg restores the slot along with the other leader fields;
+-- events recorded before this migration restore no slot
+
+ALTER TABLE "bitmemes_proposal_status_event" ADD COLUMN IF NOT EXISTS "previous_leader_slot" integer;
@@ -0,0 +1,5 @@
+-- Migration: Store the leaves each vote Merkle root was built from
+-- Proofs are served from these instead of the live votes; inscriptions made
+-- before this migration have none and serve no proofs
+
+ALTER TABLE "bitmemes_inscription" ADD COLUMN IF NOT EXISTS "vote_merkle_leaves" jsonb;
@@ -0,0 +1,5 @@
+-- Migration: Mark votes cast by revealing a commitment
+-- Their signature covers the commitment, not the vote; votes revealed before
+-- this migration keep the "api" source
+
+ALTER TYPE "public"."vote_source" ADD VALUE IF NOT EXISTS 'reveal';
@@ -0,0 +1,5 @@
+-- Migration: Link a Bitcoin address that signs proposal edits
+-- Submitters are Solana wallets, which cannot sign the Bitcoin edit message;
+-- proposals created before this migration have no editor and stay final
+
+ALTER TABLE "bitmemes_proposal" ADD COLUMN IF NOT EXISTS "editor_address" varchar(62);
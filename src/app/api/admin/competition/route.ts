@@ -1,12 +1,32 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
+import { z } from "zod";
 import { getInscriptionEngineInstance } from "~/server/jobs/inscription-engine";
-import type { ApiResponse } from "~/types";
+import { getBlockSource } from "~/server/btc/block-source";
+import {
+  competitionConfigService,
+  competitionRulesetSchema,
+} from "~/server/services/competition-config";
+import { engineStateService } from "~/server/services/engine-state";
+import { RANKING_STRATEGIES } from "~/server/services/ranking";
+import { InvalidProposalTransitionError } from "~/server/services/proposal-status";
+import type { ApiResponse, CompetitionRuleset } from "~/types";
 
 interface CompetitionAction {
-  action: "eliminate" | "reset" | "trigger" | "status";
+  action:
+    | "eliminate"
+    | "reset"
+    | "trigger"
+    | "status"
+    | "config"
+    | "pause"
+    | "maintenance"
+    | "resume";
   proposalId?: number;
   reason?: string;
+  config?: Partial<CompetitionRuleset>;
+  effectiveFromBlock?: number;
+  resumeAtBlock?: number;
 }
 
 const inscriptionEngine = getInscriptionEngineInstance();
@@ -16,7 +36,14 @@ export async function POST(
 ): Promise<NextResponse<ApiResponse<any>>> {
   try {
     const body = (await request.json()) as CompetitionAction;
-    const { action, proposalId, reason } = body;
+    const {
+      action,
+      proposalId,
+      reason,
+      config,
+      effectiveFromBlock,
+      resumeAtBlock,
+    } = body;
 
     console.log(`🔧 Admin competition action: ${action}`, {
       proposalId,
@@ -75,6 +102,88 @@ export async function POST(
           message: "Current competition status retrieved",
         });
 
+      case "config":
+        if (!config || !effectiveFromBlock) {
+          return NextResponse.json(
+            {
+              success: false,
+              error:
+                "Both config and effectiveFromBlock are required to schedule a ruleset",
+            },
+            { status: 400 },
+          );
+        }
+
+        const currentBlockHeight =
+          await getBlockSource().getCurrentBlockHeight();
+        if (effectiveFromBlock <= currentBlockHeight) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `effectiveFromBlock must be a future block (current block is ${currentBlockHeight})`,
+            },
+            { status: 400 },
+          );
+        }
+
+        const scheduledConfig = await competitionConfigService.scheduleConfig(
+          competitionRulesetSchema.partial().parse(config),
+          effectiveFromBlock,
+          reason,
+        );
+
+        return NextResponse.json({
+          success: true,
+          data: scheduledConfig,
+          message: `Competition ruleset scheduled for block ${effectiveFromBlock}`,
+        });
+
+      case "pause":
+      case "maintenance":
+        if (resumeAtBlock !== undefined) {
+          const currentHeight = await getBlockSource().getCurrentBlockHeight();
+          if (
+            !Number.isInteger(resumeAtBlock) ||
+            resumeAtBlock <= currentHeight
+          ) {
+            return NextResponse.json(
+              {
+                success: false,
+                error: `resumeAtBlock must be a future block (current block is ${currentHeight})`,
+              },
+              { status: 400 },
+            );
+          }
+        }
+
+        const pausedState = await engineStateService.setMode(
+          action === "pause" ? "paused" : "maintenance",
+          {
+            reason,
+            resumeAtBlock,
+          },
+        );
+
+        return NextResponse.json({
+          success: true,
+          data: pausedState,
+          message:
+            action === "pause"
+              ? "Competition paused"
+              : "Maintenance mode enabled",
+        });
+
+      case "resume":
+        const resumedState = await engineStateService.setMode("running", {
+          reason,
+        });
+
+        return NextResponse.json({
+          success: true,
+          data: resumedState,
+          message: "Competition resumed",
+        });
+
       default:
         return NextResponse.json(
           {
@@ -86,6 +195,25 @@ export async function POST(
     }
   } catch (error) {
     console.error("Error in competition admin action:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid competition config",
+          message: error.errors[0]?.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof InvalidProposalTransitionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 },
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -100,16 +228,24 @@ export async function POST(
 export async function GET(): Promise<NextResponse<ApiResponse<any>>> {
   try {
     const status = await inscriptionEngine.getStatus();
+    const configHistory = await competitionConfigService.getHistory();
+    const engineState = await engineStateService.getState();
 
     return NextResponse.json({
       success: true,
       data: {
         competition: status.competition,
+        config: {
+          active: status.rules,
+          history: configHistory,
+        },
         engine: {
           isRunning: status.isRunning,
+          state: engineState,
           currentBlock: status.currentBlock,
           lastProcessedBlock: status.lastProcessedBlock,
           blocksBehind: status.blocksBehind,
+          isCatchingUp: status.isCatchingUp,
         },
         help: {
           endpoints: {
@@ -121,7 +257,20 @@ export async function GET(): Promise<NextResponse<ApiResponse<any>>> {
             reset: "Reset all proposals to active status",
             trigger: "Manually trigger inscription engine",
             status: "Get detailed competition status",
+            config:
+              "Schedule a new ruleset (requires config and a future effectiveFromBlock)",
+            pause:
+              "Stop processing blocks and accepting votes and proposals (optional reason and future resumeAtBlock)",
+            maintenance:
+              "Like pause, but shown to users as scheduled maintenance",
+            resume: "Return the engine to running",
           },
+          rankingStrategies: Object.fromEntries(
+            Object.values(RANKING_STRATEGIES).map((strategy) => [
+              strategy.name,
+              strategy.description,
+            ]),
+          ),
           examples: {
             eliminate: {
               action: "eliminate",
@@ -131,6 +280,19 @@ export async function GET(): Promise<NextResponse<ApiResponse<any>>> {
             reset: { action: "reset", reason: "New competition round" },
             trigger: { action: "trigger" },
             status: { action: "status" },
+            config: {
+              action: "config",
+              config: { defenseBlocks: 2, minVotes: 3 },
+              effectiveFromBlock: 900000,
+              reason: "Longer defense window",
+            },
+            pause: {
+              action: "pause",
+              reason: "Investigating vote anomaly",
+              resumeAtBlock: 900010,
+            },
+            maintenance: { action: "maintenance", reason: "Database upgrade" },
+            resume: { action: "resume" },
           },
         },
       },
@@ -0,0 +1,30 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+
+const { POST } = await import("./route");
+
+function retry(headers: Record<string, string> = {}) {
+  return POST(
+    new NextRequest("http://localhost/api/admin/jobs", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ action: "retry" }),
+    }),
+  );
+}
+
+describe("POST /api/admin/jobs", () => {
+  it("refuses retries without the admin secret", async () => {
+    expect((await retry()).status).toBe(401);
+    expect((await retry({ authorization: "Bearer wrong-secret" })).status).toBe(
+      401,
+    );
+  });
+
+  it("accepts retries carrying the admin secret", async () => {
+    const response = await retry({ authorization: "Bearer test-secret" });
+
+    // Past the check, the request fails validation for its missing job ID
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,132 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { env } from "~/env";
+import { jobQueueService } from "~/server/services/job-queue";
+import type { ApiResponse, Job, JobStatus } from "~/types";
+
+const JOB_STATUSES: JobStatus[] = [
+  "pending",
+  "running",
+  "completed",
+  "dead",
+  "cancelled",
+];
+
+interface JobAction {
+  action: "retry";
+  jobId?: number;
+}
+
+/**
+ * Admin writes need `Authorization: Bearer <CRON_SECRET>`, and are refused
+ * outright while no secret is configured.
+ */
+function rejectUnauthorized(request: NextRequest) {
+  const cronSecret = env.CRON_SECRET;
+  const authHeader = request.headers.get("authorization");
+  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      success: false as const,
+      error: cronSecret
+        ? "Unauthorized"
+        : "Admin actions are disabled until CRON_SECRET is set",
+    },
+    { status: 401 },
+  );
+}
+
+export async function GET(request: NextRequest): Promise<
+  NextResponse<
+    ApiResponse<{
+      jobs: Job[];
+      counts: Partial<Record<JobStatus, number>>;
+    }>
+  >
+> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") ?? undefined;
+    const page = Math.max(1, parseInt(searchParams.get("page") ?? "1"));
+    const limit = Math.min(100, parseInt(searchParams.get("limit") ?? "50"));
+
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid status, expected one of: ${JOB_STATUSES.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await jobQueueService.listJobs(
+      status as JobStatus | undefined,
+      limit,
+      (page - 1) * limit,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error fetching jobs:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch jobs" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<Job>>> {
+  try {
+    const unauthorized = rejectUnauthorized(request);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const { action, jobId } = (await request.json()) as JobAction;
+
+    if (action !== "retry") {
+      return NextResponse.json(
+        { success: false, error: `Unknown action: ${String(action)}` },
+        { status: 400 },
+      );
+    }
+
+    if (!jobId) {
+      return NextResponse.json(
+        { success: false, error: "Job ID is required to retry a job" },
+        { status: 400 },
+      );
+    }
+
+    const job = await jobQueueService.retry(jobId);
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job ${jobId} not found or not dead-lettered/cancelled`,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: jobQueueService.toJob(job),
+      message: `Job ${jobId} re-queued`,
+    });
+  } catch (error) {
+    console.error("Error retrying job:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to retry job" },
+      { status: 500 },
+    );
+  }
+}
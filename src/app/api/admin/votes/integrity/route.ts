@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { voteIntegrityService } from "~/server/services/vote-integrity";
+import type { ApiResponse, VoteCounterDrift } from "~/types";
+
+/** Recomputes vote counters now and returns any drift it corrected. */
+export async function POST(): Promise<
+  NextResponse<ApiResponse<VoteCounterDrift[]>>
+> {
+  try {
+    const corrected = await voteIntegrityService.reconcile();
+
+    return NextResponse.json({
+      success: true,
+      data: corrected,
+      message:
+        corrected.length > 0
+          ? `Corrected vote counters on ${corrected.length} proposals`
+          : "Vote counters match the recorded votes",
+    });
+  } catch (error) {
+    console.error("Error reconciling vote counters:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to reconcile vote counters" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+
+const { POST } = await import("./route");
+
+function review(headers: Record<string, string> = {}) {
+  return POST(
+    new NextRequest("http://localhost/api/admin/votes", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ action: "approve" }),
+    }),
+  );
+}
+
+describe("POST /api/admin/votes", () => {
+  it("refuses reviews without the admin secret", async () => {
+    expect((await review()).status).toBe(401);
+    expect(
+      (await review({ authorization: "Bearer wrong-secret" })).status,
+    ).toBe(401);
+  });
+
+  it("accepts reviews carrying the admin secret", async () => {
+    const response = await review({ authorization: "Bearer test-secret" });
+
+    // Past the check, the request fails validation for its missing vote ID
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,105 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { env } from "~/env";
+import { VoteNotAllowedError, voteService } from "~/server/services/votes";
+import type { ApiResponse, Vote } from "~/types";
+
+interface VoteReviewAction {
+  action: "approve" | "reject";
+  voteId?: number;
+}
+
+/**
+ * Admin writes need `Authorization: Bearer <CRON_SECRET>`, and are refused
+ * outright while no secret is configured.
+ */
+function rejectUnauthorized(request: NextRequest) {
+  const cronSecret = env.CRON_SECRET;
+  const authHeader = request.headers.get("authorization");
+  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      success: false as const,
+      error: cronSecret
+        ? "Unauthorized"
+        : "Admin actions are disabled until CRON_SECRET is set",
+    },
+    { status: 401 },
+  );
+}
+
+/** Votes held for review, oldest first. */
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<Vote[]>>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const proposalId = searchParams.get("proposalId");
+
+    const held = await voteService.listHeldVotes(
+      proposalId ? parseInt(proposalId) : undefined,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: held,
+    });
+  } catch (error) {
+    console.error("Error fetching held votes:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch held votes" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Approves a held vote onto the counters, or rejects it. */
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<Vote>>> {
+  try {
+    const unauthorized = rejectUnauthorized(request);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const { action, voteId } = (await request.json()) as VoteReviewAction;
+
+    if (action !== "approve" && action !== "reject") {
+      return NextResponse.json(
+        { success: false, error: `Unknown action: ${String(action)}` },
+        { status: 400 },
+      );
+    }
+
+    if (!voteId) {
+      return NextResponse.json(
+        { success: false, error: "Vote ID is required to review a vote" },
+        { status: 400 },
+      );
+    }
+
+    const vote = await voteService.reviewVote(voteId, action);
+
+    return NextResponse.json({
+      success: true,
+      data: vote,
+      message: `Vote ${voteId} ${action === "approve" ? "approved" : "rejected"}`,
+    });
+  } catch (error) {
+    if (error instanceof VoteNotAllowedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error reviewing vote:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to review vote" },
+      { status: 500 },
+    );
+  }
+}
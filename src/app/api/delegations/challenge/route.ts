@@ -0,0 +1,67 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { delegationService } from "~/server/services/delegations";
+import { competitionRoundService } from "~/server/services/rounds";
+import type { ApiResponse, VoteChallenge } from "~/types";
+
+const challengeSchema = z.object({
+  action: z.enum(["delegate", "revoke"]),
+  delegatorAddress: z.string().min(1).max(62),
+  delegateAddress: z.string().min(1).max(62).optional(),
+  roundScoped: z.boolean().optional(),
+});
+
+/** Issues the single-use message a wallet signs to delegate or revoke. */
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<VoteChallenge>>> {
+  try {
+    const body = (await request.json()) as unknown;
+    const { action, delegatorAddress, delegateAddress, roundScoped } =
+      challengeSchema.parse(body);
+
+    if (action === "delegate" && !delegateAddress) {
+      return NextResponse.json(
+        { success: false, error: "A delegate address is required" },
+        { status: 400 },
+      );
+    }
+
+    const round = roundScoped
+      ? await competitionRoundService.getOpenRound()
+      : null;
+    if (roundScoped && !round) {
+      return NextResponse.json(
+        { success: false, error: "No competition round is open" },
+        { status: 409 },
+      );
+    }
+
+    const challenge = await delegationService.issueChallenge(
+      delegatorAddress,
+      action,
+      { delegateAddress, roundId: round?.id },
+    );
+
+    return NextResponse.json({ success: true, data: challenge });
+  } catch (error) {
+    console.error("Error issuing delegation challenge:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid delegation challenge request",
+          message: error.errors[0]?.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to issue delegation challenge" },
+      { status: 500 },
+    );
+  }
+}
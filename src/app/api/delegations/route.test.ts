@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { DELETE, POST } = await import("./route");
+const { competitionConfigService } = await import(
+  "~/server/services/competition-config"
+);
+
+function delegationRequest(method: "POST" | "DELETE", body: object) {
+  return new NextRequest("http://localhost/api/delegations", {
+    method,
+    body: JSON.stringify({
+      delegatorAddress: "tb1delegator",
+      nonce: "nonce",
+      signature: "signature",
+      ...body,
+    }),
+  });
+}
+
+describe("/api/delegations under commit-reveal voting", () => {
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    await competitionConfigService.scheduleConfig(
+      { commitPhaseBlocks: 10, revealPhaseBlocks: 10 },
+      0,
+    );
+  });
+
+  it("refuses new delegations", async () => {
+    const response = await POST(
+      delegationRequest("POST", { delegateAddress: "tb1curator" }),
+    );
+
+    expect(response.status).toBe(409);
+  });
+
+  it("refuses revocations", async () => {
+    const response = await DELETE(delegationRequest("DELETE", {}));
+
+    expect(response.status).toBe(409);
+  });
+});
@@ -0,0 +1,280 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { users } from "~/server/db/schema";
+import {
+  DelegationError,
+  delegationService,
+} from "~/server/services/delegations";
+import { engineStateService } from "~/server/services/engine-state";
+import { competitionRoundService } from "~/server/services/rounds";
+import { VoteAuthError, voteAuthService } from "~/server/services/vote-auth";
+import { voteCommitService } from "~/server/services/vote-commits";
+import { voteWeightService } from "~/server/services/vote-weight";
+import { voteService } from "~/server/services/votes";
+import {
+  WalletNotEligibleError,
+  walletEligibilityService,
+} from "~/server/services/wallet-eligibility";
+import type { ApiResponse, Delegation } from "~/types";
+
+const delegateSchema = z.object({
+  delegatorAddress: z.string().min(1).max(62),
+  delegateAddress: z.string().min(1).max(62),
+  // The round the challenge was issued for; omit for an open-ended delegation
+  roundId: z.number().int().positive().optional(),
+  nonce: z.string().min(1).max(64),
+  signature: z.string().min(1).max(2000),
+});
+
+const revokeSchema = delegateSchema.omit({
+  delegateAddress: true,
+  roundId: true,
+});
+
+async function rejectWhilePaused() {
+  const engineState = await engineStateService.getState();
+  if (engineState.mode === "running") {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      success: false as const,
+      error: engineStateService.getUnavailableMessage(engineState),
+    },
+    { status: 503 },
+  );
+}
+
+/**
+ * Delegating and revoking move the public counters at once, so they are
+ * refused while votes are committed and revealed like every other vote.
+ */
+async function rejectOutsideOpenPhase() {
+  const { phase } = await voteCommitService.getVotingState();
+  if (phase.phase === "open") {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      success: false as const,
+      error:
+        "Votes are committed and revealed in this competition, so delegations cannot change",
+    },
+    { status: 409 },
+  );
+}
+
+function delegationErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        success: false as const,
+        error: "Invalid delegation data",
+        message: error.errors[0]?.message,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (error instanceof VoteAuthError) {
+    return NextResponse.json(
+      { success: false as const, error: error.message },
+      { status: 401 },
+    );
+  }
+
+  if (error instanceof WalletNotEligibleError) {
+    return NextResponse.json(
+      { success: false as const, error: error.message },
+      { status: 403 },
+    );
+  }
+
+  if (error instanceof DelegationError) {
+    return NextResponse.json(
+      { success: false as const, error: error.message },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json(
+    { success: false as const, error: fallback },
+    { status: 500 },
+  );
+}
+
+/** The delegation a wallet has given and the ones it curates. */
+export async function GET(
+  request: NextRequest,
+): Promise<
+  NextResponse<
+    ApiResponse<{ given: Delegation | null; received: Delegation[] }>
+  >
+> {
+  try {
+    const walletAddress = new URL(request.url).searchParams.get(
+      "walletAddress",
+    );
+    if (!walletAddress) {
+      return NextResponse.json(
+        { success: false, error: "Wallet address is required" },
+        { status: 400 },
+      );
+    }
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.walletAddress, walletAddress))
+      .limit(1);
+
+    return NextResponse.json({
+      success: true,
+      data: user
+        ? await delegationService.getDelegations(user.id)
+        : { given: null, received: [] },
+    });
+  } catch (error) {
+    console.error("Error fetching delegations:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch delegations" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Delegates a wallet's voting power to a curator, replacing any earlier delegation. */
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<Delegation>>> {
+  try {
+    const paused = await rejectWhilePaused();
+    if (paused) {
+      return paused;
+    }
+
+    const body = (await request.json()) as unknown;
+    const data = delegateSchema.parse(body);
+
+    const closed = await rejectOutsideOpenPhase();
+    if (closed) {
+      return closed;
+    }
+
+    if (data.roundId !== undefined) {
+      const round = await competitionRoundService.getOpenRound();
+      if (round?.id !== data.roundId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Round ${data.roundId} is not the open round`,
+          },
+          { status: 409 },
+        );
+      }
+    }
+
+    await voteAuthService.verifySignedMessage(
+      data.delegatorAddress,
+      delegationService.buildMessage(
+        data.delegatorAddress,
+        "delegate",
+        data.nonce,
+        { delegateAddress: data.delegateAddress, roundId: data.roundId },
+      ),
+      data.nonce,
+      data.signature,
+    );
+
+    // Delegators lend votes, so they must pass the same checks as voters
+    const rules = await voteWeightService.getVotingRules();
+    const [user] = await db
+      .select({ walletVerifiedAt: users.walletVerifiedAt })
+      .from(users)
+      .where(eq(users.walletAddress, data.delegatorAddress))
+      .limit(1);
+    if (!user?.walletVerifiedAt) {
+      await walletEligibilityService.assertEligible(
+        data.delegatorAddress,
+        rules,
+      );
+    }
+    const delegatorId = await voteService.getOrCreateVoter(
+      data.delegatorAddress,
+    );
+
+    const delegation = await delegationService.delegate(
+      { id: delegatorId, walletAddress: data.delegatorAddress },
+      data.delegateAddress,
+      data.roundId ?? null,
+      data.signature,
+      rules,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: delegation,
+      message: `Voting power delegated to ${data.delegateAddress}`,
+    });
+  } catch (error) {
+    console.error("Error creating delegation:", error);
+    return delegationErrorResponse(error, "Failed to create delegation");
+  }
+}
+
+/** Revokes a wallet's delegation and withdraws votes cast under it. */
+export async function DELETE(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<null>>> {
+  try {
+    const paused = await rejectWhilePaused();
+    if (paused) {
+      return paused;
+    }
+
+    const body = (await request.json()) as unknown;
+    const data = revokeSchema.parse(body);
+
+    const closed = await rejectOutsideOpenPhase();
+    if (closed) {
+      return closed;
+    }
+
+    await voteAuthService.verifySignedMessage(
+      data.delegatorAddress,
+      delegationService.buildMessage(
+        data.delegatorAddress,
+        "revoke",
+        data.nonce,
+      ),
+      data.nonce,
+      data.signature,
+    );
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.walletAddress, data.delegatorAddress))
+      .limit(1);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "This wallet has no delegation to revoke" },
+        { status: 404 },
+      );
+    }
+
+    await delegationService.revoke(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: null,
+      message: "Delegation revoked",
+    });
+  } catch (error) {
+    console.error("Error revoking delegation:", error);
+    return delegationErrorResponse(error, "Failed to revoke delegation");
+  }
+}
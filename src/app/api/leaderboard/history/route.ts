@@ -0,0 +1,76 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { leaderboardSnapshotService } from "~/server/services/leaderboard-snapshots";
+import type { ApiResponse, LeaderboardSnapshot } from "~/types";
+
+const MAX_HISTORY_RANGE = 144;
+const DEFAULT_HISTORY_RANGE = 10;
+
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<LeaderboardSnapshot[]>>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get("fromBlock");
+    const toParam = searchParams.get("toBlock");
+
+    let toBlock = toParam ? parseInt(toParam) : null;
+    let fromBlock = fromParam ? parseInt(fromParam) : null;
+
+    if (
+      (toBlock !== null && (isNaN(toBlock) || toBlock < 0)) ||
+      (fromBlock !== null && (isNaN(fromBlock) || fromBlock < 0))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "fromBlock and toBlock must be non-negative block heights",
+        },
+        { status: 400 },
+      );
+    }
+
+    // Without an explicit range, return the most recent snapshots
+    toBlock ??=
+      fromBlock !== null
+        ? fromBlock + DEFAULT_HISTORY_RANGE - 1
+        : await leaderboardSnapshotService.getLatestBlockHeight();
+    if (toBlock === null) {
+      return NextResponse.json({ success: true, data: [] });
+    }
+    fromBlock ??= Math.max(0, toBlock - DEFAULT_HISTORY_RANGE + 1);
+
+    if (fromBlock > toBlock) {
+      return NextResponse.json(
+        { success: false, error: "fromBlock must not be greater than toBlock" },
+        { status: 400 },
+      );
+    }
+
+    if (toBlock - fromBlock + 1 > MAX_HISTORY_RANGE) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Block range cannot exceed ${MAX_HISTORY_RANGE} blocks`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const history = await leaderboardSnapshotService.getHistory(
+      fromBlock,
+      toBlock,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    console.error("Error fetching leaderboard history:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch leaderboard history" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { GET } = await import("./route");
+const { proposals } = await import("~/server/db/schema");
+const { competitionConfigService } = await import(
+  "~/server/services/competition-config"
+);
+
+describe("GET /api/leaderboard", () => {
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  });
+
+  it("assigns winner slots to contenders, not to proposals being inscribed", async () => {
+    await competitionConfigService.scheduleConfig({ winnerSlots: 2 }, 0);
+    const rows = [
+      { ticker: "INSC", weightUp: 50, status: "inscribing" as const },
+      { ticker: "LEAD", weightUp: 30, status: "leader" as const },
+      { ticker: "NEXT", weightUp: 20, status: "active" as const },
+      { ticker: "THIRD", weightUp: 10, status: "active" as const },
+    ];
+    for (const row of rows) {
+      await testDb.insert(proposals).values({
+        ...row,
+        name: row.ticker,
+        tickerSkeleton: row.ticker,
+        votesUp: row.weightUp,
+        totalVotes: row.weightUp,
+        description: row.ticker,
+        imageUrl: `https://example.com/${row.ticker}.png`,
+      });
+    }
+
+    const response = await GET(
+      new NextRequest("http://localhost/api/leaderboard"),
+    );
+    const body = (await response.json()) as {
+      data: Array<{ ticker: string; rank: number; isWinner: boolean }>;
+    };
+
+    expect(
+      body.data.map(({ ticker, rank, isWinner }) => ({
+        ticker,
+        rank,
+        isWinner,
+      })),
+    ).toEqual([
+      { ticker: "INSC", rank: 1, isWinner: false },
+      { ticker: "LEAD", rank: 2, isWinner: true },
+      { ticker: "NEXT", rank: 3, isWinner: true },
+      { ticker: "THIRD", rank: 4, isWinner: false },
+    ]);
+  });
+});
@@ -2,7 +2,10 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { db } from "~/server/db";
 import { proposals, users } from "~/server/db/schema";
-import { desc, eq, inArray } from "drizzle-orm";
+import { eq, inArray } from "drizzle-orm";
+import { competitionConfigService } from "~/server/services/competition-config";
+import { rankingService } from "~/server/services/ranking";
+import { voteService } from "~/server/services/votes";
 import type { ApiResponse, LeaderboardEntry } from "~/types";
 
 export async function GET(
@@ -12,6 +15,11 @@ export async function GET(
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get("limit") ?? "10");
     const status = searchParams.get("status") ?? "active";
+    const { strategy, context } = await rankingService.getActiveRanking();
+    const ranking = rankingService.orderBy(strategy, context);
+    const rules = await competitionConfigService.getEffectiveConfig(
+      context.blockHeight,
+    );
 
     const baseQuery = db
       .select({
@@ -28,8 +36,11 @@ export async function GET(
         votesUp: proposals.votesUp,
         votesDown: proposals.votesDown,
         totalVotes: proposals.totalVotes,
+        weightUp: proposals.weightUp,
+        weightDown: proposals.weightDown,
         status: proposals.status,
         firstTimeAsLeader: proposals.firstTimeAsLeader,
+        leaderSlot: proposals.leaderSlot,
         leaderboardMinBlocks: proposals.leaderboardMinBlocks,
         expirationBlock: proposals.expirationBlock,
         createdAt: proposals.createdAt,
@@ -38,6 +49,7 @@ export async function GET(
         submitterUsername: users.username,
         submitterCreatedAt: users.createdAt,
         submitterUpdatedAt: users.updatedAt,
+        score: rankingService.scoreColumn(strategy, context),
       })
       .from(proposals)
       .leftJoin(users, eq(proposals.submittedBy, users.id));
@@ -48,55 +60,70 @@ export async function GET(
             .where(
               inArray(proposals.status, ["active", "leader", "inscribing"]),
             )
-            .orderBy(desc(proposals.totalVotes))
+            .orderBy(...ranking)
             .limit(limit)
         : status !== "all"
           ? await baseQuery
               .where(eq(proposals.status, status as "inscribed" | "rejected"))
-              .orderBy(desc(proposals.totalVotes))
+              .orderBy(...ranking)
               .limit(limit)
-          : await baseQuery.orderBy(desc(proposals.totalVotes)).limit(limit);
+          : await baseQuery.orderBy(...ranking).limit(limit);
 
-    const leaderboard: LeaderboardEntry[] = results.map((row, index) => {
-      const score = row.votesUp - row.votesDown * 0.5;
-      return {
-        id: row.id,
-        name: row.name,
-        ticker: row.ticker,
-        description: row.description,
-        website: row.website ?? undefined,
-        twitter: row.twitter ?? undefined,
-        telegram: row.telegram ?? undefined,
-        imageUrl: row.imageUrl,
-        bannerUrl: row.bannerUrl ?? undefined,
-        submittedBy: row.submittedBy ?? undefined,
-        votesUp: row.votesUp,
-        votesDown: row.votesDown,
-        totalVotes: row.totalVotes,
-        status: row.status,
-        firstTimeAsLeader: row.firstTimeAsLeader?.toISOString(),
-        leaderboardMinBlocks: row.leaderboardMinBlocks,
-        expirationBlock: row.expirationBlock ?? undefined,
-        createdAt: row.createdAt.toISOString(),
-        updatedAt: row.updatedAt.toISOString(),
-        submitter:
-          row.submitterWallet &&
-          row.submittedBy &&
-          row.submitterCreatedAt &&
-          row.submitterUpdatedAt
-            ? {
-                id: row.submittedBy,
-                walletAddress: row.submitterWallet,
-                username: row.submitterUsername ?? undefined,
-                createdAt: row.submitterCreatedAt.toISOString(),
-                updatedAt: row.submitterUpdatedAt.toISOString(),
-              }
-            : undefined,
-        rank: index + 1,
-        score: score,
-        isWinner: index === 0 && status === "active",
-      };
-    });
+    const breakdowns = await voteService.getBreakdowns(
+      results.map((row) => row.id),
+    );
+
+    // Inscribing proposals have already won, so slots go to the best contenders
+    const slotHolders = new Set(
+      status === "active"
+        ? results
+            .filter((row) => row.status === "active" || row.status === "leader")
+            .slice(0, rules.winnerSlots)
+            .map((row) => row.id)
+        : [],
+    );
+
+    const leaderboard: LeaderboardEntry[] = results.map((row, index) => ({
+      id: row.id,
+      name: row.name,
+      ticker: row.ticker,
+      description: row.description,
+      website: row.website ?? undefined,
+      twitter: row.twitter ?? undefined,
+      telegram: row.telegram ?? undefined,
+      imageUrl: row.imageUrl,
+      bannerUrl: row.bannerUrl ?? undefined,
+      submittedBy: row.submittedBy ?? undefined,
+      votesUp: row.votesUp,
+      votesDown: row.votesDown,
+      totalVotes: row.totalVotes,
+      weightUp: row.weightUp,
+      weightDown: row.weightDown,
+      status: row.status,
+      firstTimeAsLeader: row.firstTimeAsLeader?.toISOString(),
+      leaderSlot: row.leaderSlot ?? undefined,
+      leaderboardMinBlocks: row.leaderboardMinBlocks,
+      expirationBlock: row.expirationBlock ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+      submitter:
+        row.submitterWallet &&
+        row.submittedBy &&
+        row.submitterCreatedAt &&
+        row.submitterUpdatedAt
+          ? {
+              id: row.submittedBy,
+              walletAddress: row.submitterWallet,
+              username: row.submitterUsername ?? undefined,
+              createdAt: row.submitterCreatedAt.toISOString(),
+              updatedAt: row.submitterUpdatedAt.toISOString(),
+            }
+          : undefined,
+      rank: index + 1,
+      score: row.score,
+      isWinner: slotHolders.has(row.id),
+      breakdown: breakdowns.get(row.id),
+    }));
 
     return NextResponse.json({
       success: true,
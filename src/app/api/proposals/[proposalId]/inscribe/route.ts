@@ -1,12 +1,13 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { db } from "~/server/db";
-import { proposals } from "~/server/db/schema";
-import { eq } from "drizzle-orm";
+import {
+  InvalidProposalTransitionError,
+  proposalStatusService,
+} from "~/server/services/proposal-status";
 import type { ApiResponse } from "~/types";
 
 /**
- * WARNING: This endpoint directly marks a proposal as "inscribed" without validation.
+ * WARNING: This endpoint marks an inscribing proposal as "inscribed" without checking the chain.
  * It should ONLY be used when an inscription has been CONFIRMED on the Bitcoin blockchain.
  * Using this endpoint prematurely will cause proposals to appear in the "Launched Champions"
  * section before they are actually inscribed, leading to inconsistent platform behavior.
@@ -28,13 +29,10 @@ export async function PATCH(
       );
     }
 
-    await db
-      .update(proposals)
-      .set({
-        status: "inscribed",
-        updatedAt: new Date(),
-      })
-      .where(eq(proposals.id, proposalIdNum));
+    await proposalStatusService.transition(proposalIdNum, "inscribed", {
+      actor: "api",
+      reason: "Inscription confirmed manually",
+    });
 
     return NextResponse.json({
       success: true,
@@ -42,6 +40,14 @@ export async function PATCH(
     });
   } catch (error) {
     console.error("Error updating proposal status:", error);
+
+    if (error instanceof InvalidProposalTransitionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 },
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,58 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  proposalEditSchema,
+  proposalRevisionService,
+} from "~/server/services/proposal-revisions";
+import type { ApiResponse, VoteChallenge } from "~/types";
+
+const challengeSchema = z.object({
+  walletAddress: z.string().min(1).max(62),
+  changes: proposalEditSchema,
+});
+
+/** Issues the single-use message a submitter signs to edit their proposal. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> },
+): Promise<NextResponse<ApiResponse<VoteChallenge>>> {
+  try {
+    const proposalId = parseInt((await params).proposalId);
+    if (isNaN(proposalId)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid proposal ID" },
+        { status: 400 },
+      );
+    }
+
+    const body = (await request.json()) as unknown;
+    const { walletAddress, changes } = challengeSchema.parse(body);
+
+    const challenge = await proposalRevisionService.issueChallenge(
+      walletAddress,
+      proposalId,
+      changes,
+    );
+
+    return NextResponse.json({ success: true, data: challenge });
+  } catch (error) {
+    console.error("Error issuing proposal edit challenge:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid proposal edit",
+          message: error.errors[0]?.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to issue proposal edit challenge" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  ProposalEditError,
+  proposalEditSchema,
+  proposalRevisionService,
+} from "~/server/services/proposal-revisions";
+import { VoteAuthError } from "~/server/services/vote-auth";
+import type { ApiResponse, ProposalRevision } from "~/types";
+
+const editSchema = z.object({
+  walletAddress: z.string().min(1).max(62),
+  changes: proposalEditSchema,
+  nonce: z.string().min(1).max(64),
+  signature: z.string().min(1).max(2000),
+});
+
+const editErrorStatus: Record<ProposalEditError["code"], number> = {
+  "not-found": 404,
+  "not-submitter": 403,
+  "window-closed": 409,
+  "no-changes": 409,
+};
+
+/** Edits made to a proposal, oldest first. */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> },
+): Promise<NextResponse<ApiResponse<ProposalRevision[]>>> {
+  try {
+    const proposalId = parseInt((await params).proposalId);
+    if (isNaN(proposalId)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid proposal ID" },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await proposalRevisionService.getHistory(proposalId),
+    });
+  } catch (error) {
+    console.error("Error fetching proposal revisions:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch proposal revisions" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Applies a signed edit from the proposal's submitter. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> },
+): Promise<NextResponse<ApiResponse<ProposalRevision>>> {
+  try {
+    const proposalId = parseInt((await params).proposalId);
+    if (isNaN(proposalId)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid proposal ID" },
+        { status: 400 },
+      );
+    }
+
+    const body = (await request.json()) as unknown;
+    const revision = await proposalRevisionService.edit(
+      proposalId,
+      editSchema.parse(body),
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: revision,
+      message: `Proposal updated (revision ${revision.revision})`,
+    });
+  } catch (error) {
+    console.error("Error editing proposal:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid proposal edit",
+          message: error.errors[0]?.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof VoteAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof ProposalEditError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: editErrorStatus[error.code] },
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to edit proposal" },
+      { status: 500 },
+    );
+  }
+}
@@ -7,7 +7,11 @@ import {
   inscriptions,
   pumpFunTokens,
 } from "~/server/db/schema";
-import { eq, sql, desc } from "drizzle-orm";
+import { eq, desc } from "drizzle-orm";
+import { rankingService } from "~/server/services/ranking";
+import { proposalRevisionService } from "~/server/services/proposal-revisions";
+import { proposalStatusService } from "~/server/services/proposal-status";
+import { voteCommitService } from "~/server/services/vote-commits";
 
 export async function GET(
   request: NextRequest,
@@ -24,6 +28,8 @@ export async function GET(
       );
     }
 
+    const { strategy, context } = await rankingService.getActiveRanking();
+
     // Fetch the proposal with detailed information
     const result = await db
       .select({
@@ -39,13 +45,19 @@ export async function GET(
         votesUp: proposals.votesUp,
         votesDown: proposals.votesDown,
         totalVotes: proposals.totalVotes,
+        weightUp: proposals.weightUp,
+        weightDown: proposals.weightDown,
         status: proposals.status,
         firstTimeAsLeader: proposals.firstTimeAsLeader,
         leaderStartBlock: proposals.leaderStartBlock,
+        leaderSlot: proposals.leaderSlot,
         leaderboardMinBlocks: proposals.leaderboardMinBlocks,
         expirationBlock: proposals.expirationBlock,
+        creationBlock: proposals.creationBlock,
+        editorAddress: proposals.editorAddress,
         createdAt: proposals.createdAt,
         updatedAt: proposals.updatedAt,
+        score: rankingService.scoreColumn(strategy, context),
         submitter: {
           id: users.id,
           username: users.username,
@@ -75,13 +87,8 @@ export async function GET(
       );
     }
 
-    // Calculate rank (simplified - just using total votes for now)
-    const rankResult = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(proposals)
-      .where(sql`${proposals.totalVotes} > ${proposal.totalVotes}`);
-
-    const rank = (rankResult[0]?.count ?? 0) + 1;
+    const rank =
+      (await rankingService.getRank(proposalId, strategy, context)) ?? 1;
 
     // Fetch latest inscription (if any)
     const inscriptionResult = await db
@@ -98,13 +105,28 @@ export async function GET(
       .orderBy(desc(pumpFunTokens.id))
       .limit(1);
 
+    const statusHistory = await proposalStatusService.getHistory(proposalId);
+    const revisions = await proposalRevisionService.getHistory(proposalId);
+    const editableUntilBlock =
+      proposal.status === "active" &&
+      proposal.totalVotes === 0 &&
+      proposal.editorAddress
+        ? await proposalRevisionService.getEditableUntilBlock(
+            proposal.creationBlock,
+          )
+        : null;
+
     const proposalWithRank = {
       ...proposal,
       rank,
-      score: proposal.totalVotes, // Simple scoring for now
+      rankingStrategy: strategy.name,
       isWinner: rank === 1 && proposal.status === "inscribed",
       inscription: inscriptionResult[0] ?? null,
       pumpFunToken: pumpFunTokenResult[0] ?? null,
+      statusHistory,
+      revisions,
+      editableUntilBlock: editableUntilBlock ?? undefined,
+      votingPhase: await voteCommitService.getPhase(),
     };
 
     return NextResponse.json({
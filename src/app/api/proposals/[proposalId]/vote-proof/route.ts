@@ -0,0 +1,121 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { and, desc, eq, isNotNull, isNull, ne, or } from "drizzle-orm";
+import { db } from "~/server/db";
+import { inscriptions } from "~/server/db/schema";
+import { voteMerkleService } from "~/server/services/vote-merkle";
+import type { ApiResponse, VoteMerkleProof } from "~/types";
+
+interface VoteProofResponse extends VoteMerkleProof {
+  inscriptionId?: string;
+  txid: string;
+  blockHeight: number;
+}
+
+/**
+ * Merkle inclusion proof of a wallet's vote against the root inscribed for
+ * the proposal, built from the leaves stored when it was inscribed. The leaf
+ * is sha256(0x00 || address, proposal, vote, weight, source and proof joined
+ * by newlines) and each parent is sha256(0x01 || left || right).
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ proposalId: string }> },
+): Promise<NextResponse<ApiResponse<VoteProofResponse>>> {
+  try {
+    const { proposalId } = await context.params;
+    const proposalIdNum = parseInt(proposalId);
+    const wallet = new URL(request.url).searchParams.get("wallet");
+
+    if (isNaN(proposalIdNum)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid proposal ID" },
+        { status: 400 },
+      );
+    }
+    if (!wallet) {
+      return NextResponse.json(
+        { success: false, error: "Wallet address is required" },
+        { status: 400 },
+      );
+    }
+
+    const [inscription] = await db
+      .select()
+      .from(inscriptions)
+      .where(
+        and(
+          eq(inscriptions.proposalId, proposalIdNum),
+          isNotNull(inscriptions.voteMerkleRoot),
+          or(
+            isNull(inscriptions.orderStatus),
+            ne(inscriptions.orderStatus, "reorg_orphaned"),
+          ),
+        ),
+      )
+      .orderBy(desc(inscriptions.id))
+      .limit(1);
+
+    if (!inscription) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "No vote commitment has been inscribed for this proposal",
+        },
+        { status: 404 },
+      );
+    }
+
+    if (!inscription.voteMerkleLeaves) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "This proposal was inscribed before vote leaves were stored, so no proof can be built",
+        },
+        { status: 404 },
+      );
+    }
+
+    const leaves = inscription.voteMerkleLeaves;
+    if (voteMerkleService.getRoot(leaves) !== inscription.voteMerkleRoot) {
+      console.error(
+        `❌ Stored vote leaves of proposal ${proposalIdNum} do not match inscribed root ${inscription.voteMerkleRoot}`,
+      );
+      return NextResponse.json(
+        {
+          success: false,
+          error: "The stored votes do not match the inscribed root",
+        },
+        { status: 500 },
+      );
+    }
+
+    const proof = voteMerkleService.getProof(leaves, wallet);
+    if (!proof) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `No counted vote from ${wallet} is committed for this proposal`,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...proof,
+        inscriptionId: inscription.inscriptionId ?? undefined,
+        txid: inscription.txid,
+        blockHeight: inscription.blockHeight,
+      },
+    });
+  } catch (error) {
+    console.error("Error building vote proof:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to build vote proof" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,14 +2,27 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { db } from "~/server/db";
 import { proposals, users, inscriptions } from "~/server/db/schema";
-import { desc, eq, sql } from "drizzle-orm";
+import { asc, desc, eq, sql } from "drizzle-orm";
 import { z } from "zod";
-import type { ApiResponse, Proposal } from "~/types";
-import { esploraService } from "~/server/btc/esplora";
+import type { ApiResponse, Proposal, VotingPhase } from "~/types";
+import { getBlockSource } from "~/server/btc/block-source";
+import { isBitcoinAddress } from "~/server/btc/message-signature";
+import { rankingService } from "~/server/services/ranking";
+import {
+  InvalidProposalTransitionError,
+  proposalStatusService,
+} from "~/server/services/proposal-status";
+import { engineStateService } from "~/server/services/engine-state";
+import { TickerConflictError, tickerService } from "~/server/services/tickers";
+import { voteCommitService } from "~/server/services/vote-commits";
 
 const proposalSchema = z.object({
   name: z.string().min(1).max(50),
-  ticker: z.string().min(1).max(10).toUpperCase(),
+  ticker: z
+    .string()
+    .max(64)
+    .transform((ticker) => tickerService.normalize(ticker))
+    .pipe(z.string().min(1, "Ticker is required").max(10)),
   description: z.string().min(1).max(280),
   website: z.string().url().optional().or(z.literal("")),
   twitter: z.string().url().optional().or(z.literal("")),
@@ -17,21 +30,31 @@ const proposalSchema = z.object({
   imageUrl: z.string().url(),
   bannerUrl: z.string().url().optional().or(z.literal("")),
   walletAddress: z.string().optional(),
+  editorAddress: z
+    .string()
+    .max(62)
+    .refine(isBitcoinAddress, "Editor address is not a valid Bitcoin address")
+    .optional(),
 });
 
-export async function GET(
-  request: NextRequest,
-): Promise<
-  NextResponse<ApiResponse<{ proposals: Proposal[]; total: number }>>
+export async function GET(request: NextRequest): Promise<
+  NextResponse<
+    ApiResponse<{
+      proposals: Proposal[];
+      total: number;
+      votingPhase: VotingPhase;
+    }>
+  >
 > {
   try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get("page") ?? "1");
     const limit = parseInt(searchParams.get("limit") ?? "20");
-    const sortBy = searchParams.get("sortBy") ?? "totalVotes";
+    const sortBy = searchParams.get("sortBy") ?? "rank";
     const order = searchParams.get("order") ?? "desc";
     const status = searchParams.get("status") ?? "active";
     const offset = (page - 1) * limit;
+    const { strategy, context } = await rankingService.getActiveRanking();
     const baseQuery = db
       .select({
         id: proposals.id,
@@ -47,9 +70,12 @@ export async function GET(
         votesUp: proposals.votesUp,
         votesDown: proposals.votesDown,
         totalVotes: proposals.totalVotes,
+        weightUp: proposals.weightUp,
+        weightDown: proposals.weightDown,
         status: proposals.status,
         firstTimeAsLeader: proposals.firstTimeAsLeader,
         leaderStartBlock: proposals.leaderStartBlock,
+        leaderSlot: proposals.leaderSlot,
         leaderboardMinBlocks: proposals.leaderboardMinBlocks,
         expirationBlock: proposals.expirationBlock,
         createdAt: proposals.createdAt,
@@ -60,108 +86,39 @@ export async function GET(
       .from(proposals)
       .leftJoin(users, eq(proposals.submittedBy, users.id));
 
-    let results;
-
-    if (status !== "all") {
-      const statusCondition =
-        status === "active"
+    const statusCondition =
+      status === "all"
+        ? undefined
+        : status === "active"
           ? sql`${proposals.status} IN ('active', 'leader')`
           : eq(
               proposals.status,
               status as "inscribed" | "rejected" | "expired",
             );
 
-      if (sortBy === "totalVotes") {
-        results =
-          order === "desc"
-            ? await baseQuery
-                .where(statusCondition)
-                .orderBy(desc(proposals.totalVotes))
-                .limit(limit)
-                .offset(offset)
-            : await baseQuery
-                .where(statusCondition)
-                .orderBy(proposals.totalVotes)
-                .limit(limit)
-                .offset(offset);
-      } else if (sortBy === "createdAt") {
-        results =
-          order === "desc"
-            ? await baseQuery
-                .where(statusCondition)
-                .orderBy(desc(proposals.createdAt))
-                .limit(limit)
-                .offset(offset)
-            : await baseQuery
-                .where(statusCondition)
-                .orderBy(proposals.createdAt)
-                .limit(limit)
-                .offset(offset);
-      } else {
-        results =
-          order === "desc"
-            ? await baseQuery
-                .where(statusCondition)
-                .orderBy(desc(proposals.name))
-                .limit(limit)
-                .offset(offset)
-            : await baseQuery
-                .where(statusCondition)
-                .orderBy(proposals.name)
-                .limit(limit)
-                .offset(offset);
-      }
-    } else {
-      if (sortBy === "totalVotes") {
-        results =
-          order === "desc"
-            ? await baseQuery
-                .orderBy(desc(proposals.totalVotes))
-                .limit(limit)
-                .offset(offset)
-            : await baseQuery
-                .orderBy(proposals.totalVotes)
-                .limit(limit)
-                .offset(offset);
-      } else if (sortBy === "createdAt") {
-        results =
-          order === "desc"
-            ? await baseQuery
-                .orderBy(desc(proposals.createdAt))
-                .limit(limit)
-                .offset(offset)
-            : await baseQuery
-                .orderBy(proposals.createdAt)
-                .limit(limit)
-                .offset(offset);
-      } else {
-        results =
-          order === "desc"
-            ? await baseQuery
-                .orderBy(desc(proposals.name))
-                .limit(limit)
-                .offset(offset)
-            : await baseQuery
-                .orderBy(proposals.name)
-                .limit(limit)
-                .offset(offset);
-      }
-    }
+    const sortColumn =
+      sortBy === "totalVotes"
+        ? proposals.totalVotes
+        : sortBy === "createdAt"
+          ? proposals.createdAt
+          : proposals.name;
+
+    // "rank" follows the configured ranking strategy, best proposal first
+    const ordering =
+      sortBy === "rank"
+        ? rankingService.orderBy(strategy, context)
+        : [order === "desc" ? desc(sortColumn) : asc(sortColumn)];
+
+    const results = await baseQuery
+      .where(statusCondition)
+      .orderBy(...ordering)
+      .limit(limit)
+      .offset(offset);
 
-    const totalResult =
-      status !== "all"
-        ? await db
-            .select({ count: sql<number>`count(*)` })
-            .from(proposals)
-            .where(
-              status === "active"
-                ? sql`${proposals.status} IN ('active', 'leader')`
-                : eq(
-                    proposals.status,
-                    status as "inscribed" | "rejected" | "expired",
-                  ),
-            )
-        : await db.select({ count: sql<number>`count(*)` }).from(proposals);
+    const totalResult = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(proposals)
+      .where(statusCondition);
 
     const total = totalResult[0]?.count ?? 0;
 
@@ -179,9 +136,12 @@ export async function GET(
       votesUp: row.votesUp,
       votesDown: row.votesDown,
       totalVotes: row.totalVotes,
+      weightUp: row.weightUp,
+      weightDown: row.weightDown,
       status: row.status,
       firstTimeAsLeader: row.firstTimeAsLeader?.toISOString(),
       leaderStartBlock: row.leaderStartBlock ?? undefined,
+      leaderSlot: row.leaderSlot ?? undefined,
       leaderboardMinBlocks: row.leaderboardMinBlocks,
       expirationBlock: row.expirationBlock ?? undefined,
       createdAt: row.createdAt.toISOString(),
@@ -202,6 +162,7 @@ export async function GET(
       data: {
         proposals: transformedProposals,
         total,
+        votingPhase: await voteCommitService.getPhase(),
       },
     });
   } catch (error) {
@@ -217,22 +178,22 @@ export async function POST(
   request: NextRequest,
 ): Promise<NextResponse<ApiResponse<Proposal>>> {
   try {
-    const body = (await request.json()) as unknown;
-    const validatedData = proposalSchema.parse(body);
-
-    const existingProposal = await db
-      .select()
-      .from(proposals)
-      .where(eq(proposals.ticker, validatedData.ticker))
-      .limit(1);
-
-    if (existingProposal.length > 0) {
+    const engineState = await engineStateService.getState();
+    if (engineState.mode !== "running") {
       return NextResponse.json(
-        { success: false, error: "Ticker already exists" },
-        { status: 400 },
+        {
+          success: false,
+          error: engineStateService.getUnavailableMessage(engineState),
+        },
+        { status: 503 },
       );
     }
 
+    const body = (await request.json()) as unknown;
+    const validatedData = proposalSchema.parse(body);
+
+    await tickerService.assertAvailable(validatedData.ticker);
+
     let userId: number | undefined;
     if (validatedData.walletAddress) {
       const existingUser = await db
@@ -255,13 +216,14 @@ export async function POST(
       }
     }
 
-    const currentBlockHeight = await esploraService.getCurrentBlockHeight();
+    const currentBlockHeight = await getBlockSource().getCurrentBlockHeight();
 
     const newProposal = await db
       .insert(proposals)
       .values({
         name: validatedData.name,
         ticker: validatedData.ticker,
+        tickerSkeleton: tickerService.skeleton(validatedData.ticker),
         description: validatedData.description,
         website: validatedData.website,
         twitter: validatedData.twitter,
@@ -269,6 +231,7 @@ export async function POST(
         imageUrl: validatedData.imageUrl,
         bannerUrl: validatedData.bannerUrl,
         submittedBy: userId,
+        editorAddress: validatedData.editorAddress,
         creationBlock: currentBlockHeight,
       })
       .returning();
@@ -316,12 +279,14 @@ export async function POST(
       bannerUrl: returnedProposal.bannerUrl ?? undefined,
       submittedBy: returnedProposal.submittedBy ?? undefined,
       submitter: submitterDetails,
+      editorAddress: returnedProposal.editorAddress ?? undefined,
       votesUp: returnedProposal.votesUp,
       votesDown: returnedProposal.votesDown,
       totalVotes: returnedProposal.totalVotes,
       status: returnedProposal.status,
       firstTimeAsLeader: returnedProposal.firstTimeAsLeader?.toISOString(),
       leaderStartBlock: returnedProposal.leaderStartBlock ?? undefined,
+      leaderSlot: returnedProposal.leaderSlot ?? undefined,
       leaderboardMinBlocks: returnedProposal.leaderboardMinBlocks,
       expirationBlock: returnedProposal.expirationBlock ?? undefined,
       createdAt: returnedProposal.createdAt.toISOString(),
@@ -347,6 +312,13 @@ export async function POST(
       );
     }
 
+    if (error instanceof TickerConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 },
+      );
+    }
+
     return NextResponse.json(
       { success: false, error: "Failed to create proposal" },
       { status: 500 },
@@ -379,13 +351,10 @@ export async function PATCH(
 
       const proposalId = inscription[0]!.proposalId;
 
-      await db
-        .update(proposals)
-        .set({
-          status: "inscribed",
-          updatedAt: new Date(),
-        })
-        .where(eq(proposals.id, proposalId));
+      await proposalStatusService.transition(proposalId, "inscribed", {
+        actor: "api",
+        reason: `Marked inscribed for order ${body.orderId}`,
+      });
 
       console.log(`✅ Proposal ${proposalId} marked as inscribed via API`);
 
@@ -402,6 +371,14 @@ export async function PATCH(
     );
   } catch (error) {
     console.error("Error updating proposal:", error);
+
+    if (error instanceof InvalidProposalTransitionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 },
+      );
+    }
+
     return NextResponse.json(
       { success: false, error: "Failed to update proposal" },
       { status: 500 },
@@ -0,0 +1,40 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { competitionRoundService } from "~/server/services/rounds";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roundId: string }> },
+) {
+  try {
+    const resolvedParams = await params;
+    const roundId = parseInt(resolvedParams.roundId);
+
+    if (isNaN(roundId)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid round ID" },
+        { status: 400 },
+      );
+    }
+
+    const round = await competitionRoundService.getRoundDetails(roundId);
+
+    if (!round) {
+      return NextResponse.json(
+        { success: false, error: "Round not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: round,
+    });
+  } catch (error) {
+    console.error("Error fetching competition round:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { competitionRoundService } from "~/server/services/rounds";
+import type { ApiResponse, CompetitionRound } from "~/types";
+
+interface RoundListEntry extends CompetitionRound {
+  winner?: { ticker: string; name: string };
+}
+
+export async function GET(
+  request: NextRequest,
+): Promise<
+  NextResponse<ApiResponse<{ rounds: RoundListEntry[]; total: number }>>
+> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") ?? "1"));
+    const limit = Math.min(100, parseInt(searchParams.get("limit") ?? "20"));
+    const offset = (page - 1) * limit;
+
+    const result = await competitionRoundService.listRounds(limit, offset);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error fetching competition rounds:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch competition rounds" },
+      { status: 500 },
+    );
+  }
+}
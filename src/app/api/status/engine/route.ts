@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { engineStateService } from "~/server/services/engine-state";
+import type { ApiResponse, EngineState } from "~/types";
+
+export async function GET(): Promise<
+  NextResponse<ApiResponse<EngineState & { message?: string }>>
+> {
+  try {
+    const state = await engineStateService.getState();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...state,
+        message:
+          state.mode === "running"
+            ? undefined
+            : engineStateService.getUnavailableMessage(state),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching engine state:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch engine state" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,22 +2,37 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { getInscriptionEngineInstance } from "~/server/jobs/inscription-engine";
 import { getUnisatMonitorInstance } from "~/server/jobs/unisat-monitor";
-import { esploraService } from "~/server/btc/esplora";
+import { getJobWorkerInstance } from "~/server/jobs/job-worker";
+import { getVoteAnomalyMonitorInstance } from "~/server/jobs/vote-anomaly-monitor";
+import { getVoteIntegrityMonitorInstance } from "~/server/jobs/vote-integrity-monitor";
+import { jobQueueService } from "~/server/services/job-queue";
+import { getBlockSource } from "~/server/btc/block-source";
 import { db } from "~/server/db";
 import { proposals, inscriptions } from "~/server/db/schema";
 import { sql } from "drizzle-orm";
 import { env } from "~/env";
-import type { ApiResponse } from "~/types";
+import type {
+  ApiResponse,
+  CompetitionConfig,
+  JobStatus,
+  ServiceLease,
+  VoteCounterDrift,
+} from "~/types";
 
 interface SystemStatus {
   timestamp: string;
   inscriptionEngine: {
     isRunning: boolean;
+    isLeader: boolean;
+    nodeId: string;
+    lease?: ServiceLease | null;
     currentBlock: number;
     lastProcessedBlock: number;
     lastProcessedHash?: string;
     lastChecked?: string;
     blocksBehind: number;
+    isCatchingUp: boolean;
+    catchUpTarget?: number;
     competition: {
       totalActive: number;
       currentLeaders: number;
@@ -31,12 +46,39 @@ interface SystemStatus {
         blocksAsLeader: number;
       } | null;
     };
+    rules?: CompetitionConfig;
     error?: string;
   };
   unisatMonitor: {
     isRunning: boolean;
+    isLeader: boolean;
+    nodeId: string;
+    lease: ServiceLease | null;
     lastChecked: string;
   };
+  jobWorker: {
+    isRunning: boolean;
+    isLeader: boolean;
+    nodeId: string;
+    lease: ServiceLease | null;
+    lastRun?: string;
+    jobs: Partial<Record<JobStatus, number>>;
+  };
+  voteAnomalyMonitor: {
+    isRunning: boolean;
+    isLeader: boolean;
+    nodeId: string;
+    lease: ServiceLease | null;
+    lastChecked?: string;
+  };
+  voteIntegrityMonitor: {
+    isRunning: boolean;
+    isLeader: boolean;
+    nodeId: string;
+    lease: ServiceLease | null;
+    lastChecked?: string;
+    lastCorrections: VoteCounterDrift[];
+  };
   database: {
     connected: boolean;
     totalProposals: number;
@@ -46,6 +88,7 @@ interface SystemStatus {
   };
   bitcoin: {
     network: string;
+    blockSource: string;
     esploraConnected: boolean;
     currentBlockHeight?: number;
   };
@@ -53,16 +96,23 @@ interface SystemStatus {
 
 const inscriptionEngine = getInscriptionEngineInstance();
 const unisatMonitor = getUnisatMonitorInstance();
+const jobWorker = getJobWorkerInstance();
+const voteAnomalyMonitor = getVoteAnomalyMonitorInstance();
+const voteIntegrityMonitor = getVoteIntegrityMonitorInstance();
 
 export async function GET(): Promise<NextResponse<ApiResponse<SystemStatus>>> {
   try {
     const engineStatus = await inscriptionEngine.getStatus();
-    const unisatStatus = unisatMonitor.getStatus();
+    const unisatStatus = await unisatMonitor.getStatus();
+    const jobWorkerStatus = await jobWorker.getStatus();
+    const voteAnomalyStatus = await voteAnomalyMonitor.getStatus();
+    const voteIntegrityStatus = await voteIntegrityMonitor.getStatus();
     let dbConnected = true;
     let totalProposals = 0;
     let activeProposals = 0;
     let totalInscriptions = 0;
     let pendingUnisatOrders = 0;
+    let jobCounts: Partial<Record<JobStatus, number>> = {};
 
     try {
       const [proposalStats, inscriptionStats, pendingOrders] =
@@ -84,18 +134,20 @@ export async function GET(): Promise<NextResponse<ApiResponse<SystemStatus>>> {
       activeProposals = proposalStats[0]?.active ?? 0;
       totalInscriptions = inscriptionStats[0]?.count ?? 0;
       pendingUnisatOrders = pendingOrders[0]?.count ?? 0;
+      jobCounts = await jobQueueService.getCounts();
     } catch (error) {
       console.error("Database connection test failed:", error);
       dbConnected = false;
     }
 
+    const blockSource = getBlockSource();
     let esploraConnected = true;
     let currentBlockHeight: number | undefined;
 
     try {
-      currentBlockHeight = await esploraService.getCurrentBlockHeight();
+      currentBlockHeight = await blockSource.getCurrentBlockHeight();
     } catch (error) {
-      console.error("Esplora connection test failed:", error);
+      console.error(`${blockSource.name} connection test failed:`, error);
       esploraConnected = false;
     }
 
@@ -103,6 +155,9 @@ export async function GET(): Promise<NextResponse<ApiResponse<SystemStatus>>> {
       timestamp: new Date().toISOString(),
       inscriptionEngine: engineStatus as SystemStatus["inscriptionEngine"],
       unisatMonitor: unisatStatus,
+      jobWorker: { ...jobWorkerStatus, jobs: jobCounts },
+      voteAnomalyMonitor: voteAnomalyStatus,
+      voteIntegrityMonitor: voteIntegrityStatus,
       database: {
         connected: dbConnected,
         totalProposals,
@@ -112,6 +167,7 @@ export async function GET(): Promise<NextResponse<ApiResponse<SystemStatus>>> {
       },
       bitcoin: {
         network: env.BITCOIN_NETWORK,
+        blockSource: blockSource.name,
         esploraConnected,
         currentBlockHeight,
       },
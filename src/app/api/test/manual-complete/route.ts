@@ -1,6 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "~/server/db";
-import { inscriptions, proposals } from "~/server/db/schema";
+import { inscriptions } from "~/server/db/schema";
+import { proposalStatusService } from "~/server/services/proposal-status";
 import { eq } from "drizzle-orm";
 
 export async function POST(request: NextRequest) {
@@ -39,13 +40,14 @@ export async function POST(request: NextRequest) {
       })
       .where(eq(inscriptions.id, inscriptionRecord.id));
 
-    await db
-      .update(proposals)
-      .set({
-        status: "inscribed",
-        updatedAt: new Date(),
-      })
-      .where(eq(proposals.id, inscriptionRecord.proposalId));
+    await proposalStatusService.transition(
+      inscriptionRecord.proposalId,
+      "inscribed",
+      {
+        actor: "test",
+        reason: `Inscription ${inscriptionId} completed manually`,
+      },
+    );
 
     console.log(
       `✅ Manually completed inscription ${inscriptionId} for proposal ${inscriptionRecord.proposalId}`,
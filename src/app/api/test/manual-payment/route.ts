@@ -1,7 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { bitcoinWallet } from "~/server/services/bitcoin-wallet";
 import { db } from "~/server/db";
-import { inscriptions, proposals } from "~/server/db/schema";
+import { inscriptions } from "~/server/db/schema";
+import { proposalStatusService } from "~/server/services/proposal-status";
 import { eq } from "drizzle-orm";
 
 export async function POST(request: NextRequest) {
@@ -38,10 +39,14 @@ export async function POST(request: NextRequest) {
         })
         .where(eq(inscriptions.id, inscriptionRecord.id));
 
-      await db
-        .update(proposals)
-        .set({ status: "inscribed" })
-        .where(eq(proposals.id, inscriptionRecord.proposalId));
+      await proposalStatusService.transition(
+        inscriptionRecord.proposalId,
+        "inscribed",
+        {
+          actor: "test",
+          reason: `Inscription ${inscriptionId} completed manually`,
+        },
+      );
 
       return NextResponse.json({
         success: true,
@@ -59,10 +64,14 @@ export async function POST(request: NextRequest) {
         })
         .where(eq(inscriptions.id, inscriptionRecord.id));
 
-      await db
-        .update(proposals)
-        .set({ status: "active" })
-        .where(eq(proposals.id, inscriptionRecord.proposalId));
+      await proposalStatusService.transition(
+        inscriptionRecord.proposalId,
+        "active",
+        {
+          actor: "test",
+          reason: "Inscription force-completed without an inscription",
+        },
+      );
 
       return NextResponse.json({
         success: true,
@@ -0,0 +1,271 @@
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestDb, resetTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { POST } = await import("./route");
+const { simulatedBlockSource } = await import("~/server/btc/simulated");
+const { getInscriptionEngineInstance } = await import(
+  "~/server/jobs/inscription-engine"
+);
+const { getJobWorkerInstance } = await import("~/server/jobs/job-worker");
+const { competitionConfigService } = await import(
+  "~/server/services/competition-config"
+);
+const { inscriptionService } = await import("~/server/services/inscription");
+const {
+  inscriptions,
+  jobs,
+  leaderboardSnapshots,
+  processedBlocks,
+  proposals,
+  proposalStatusEvents,
+} = await import("~/server/db/schema");
+
+async function simulate(body: Record<string, unknown>) {
+  const response = await POST(
+    new NextRequest("http://localhost/api/test/simulation", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+async function insertProposal(
+  ticker: string,
+  values: Partial<typeof proposals.$inferInsert>,
+) {
+  const [row] = await testDb
+    .insert(proposals)
+    .values({
+      name: ticker,
+      ticker,
+      tickerSkeleton: ticker,
+      description: `${ticker} proposal`,
+      imageUrl: `https://example.com/${ticker}.png`,
+      creationBlock: simulatedBlockSource.getTip().height,
+      ...values,
+    })
+    .returning();
+  return row!;
+}
+
+async function getProposal(id: number) {
+  const [row] = await testDb
+    .select()
+    .from(proposals)
+    .where(eq(proposals.id, id));
+  return row!;
+}
+
+describe("simulated chain scenarios", () => {
+  beforeAll(async () => {
+    // Their first tick runs before the database exists and fails harmlessly;
+    // the scenarios then drive both by hand through the simulation route
+    getInscriptionEngineInstance().stop();
+    getJobWorkerInstance().stop();
+    testDb = await createTestDb();
+  });
+
+  beforeEach(async () => {
+    await resetTestDb(testDb);
+    simulatedBlockSource.reset();
+    // The engine starts following the chain at its tip
+    await simulate({ action: "mine" });
+  });
+
+  it("never uses a real inscription provider", () => {
+    expect(inscriptionService.provider).toBe("mock");
+  });
+
+  it("inscribes a winner that defended its slot", async () => {
+    const proposal = await insertProposal("PEPE", {
+      votesUp: 3,
+      totalVotes: 3,
+      weightUp: 3,
+    });
+
+    await simulate({ action: "mine" });
+    expect(await getProposal(proposal.id)).toMatchObject({
+      status: "leader",
+      leaderSlot: 1,
+    });
+
+    const { body } = await simulate({ action: "mine" });
+    expect(body.data.lastProcessedBlock).toBe(body.data.tip.height);
+    expect((await getProposal(proposal.id)).status).toBe("inscribed");
+
+    const [inscription] = await testDb
+      .select()
+      .from(inscriptions)
+      .where(eq(inscriptions.proposalId, proposal.id));
+    expect(inscription!.inscriptionId).toMatch(/i0$/);
+
+    const queued = await testDb.select({ type: jobs.type }).from(jobs);
+    expect(queued.map((job) => job.type)).toEqual(["inscription.create"]);
+
+    // Every processed block has its leaderboard snapshot
+    const blocks = await testDb.select().from(processedBlocks);
+    const snapshots = await testDb.select().from(leaderboardSnapshots);
+    expect(snapshots.map((snapshot) => snapshot.blockHash).sort()).toEqual(
+      blocks.map((block) => block.hash).sort(),
+    );
+  });
+
+  it("does not let downvotes carry a proposal into the lead", async () => {
+    const proposal = await insertProposal("DOWN", {
+      votesDown: 5,
+      totalVotes: 5,
+      weightDown: 5,
+    });
+
+    await simulate({ action: "mine" });
+
+    expect((await getProposal(proposal.id)).status).toBe("active");
+  });
+
+  it("promotes only qualifying proposals into a slot freed by an inscription", async () => {
+    const winner = await insertProposal("PEPE", {
+      votesUp: 3,
+      totalVotes: 3,
+      weightUp: 3,
+    });
+    const downvoted = await insertProposal("DOWN", {
+      votesDown: 5,
+      totalVotes: 5,
+      weightDown: 5,
+    });
+    const unvoted = await insertProposal("NONE", {});
+
+    await simulate({ action: "mine", count: 2 });
+
+    expect((await getProposal(winner.id)).status).toBe("inscribed");
+    expect((await getProposal(downvoted.id)).status).toBe("active");
+    expect((await getProposal(unvoted.id)).status).toBe("active");
+  });
+
+  it("rejects a reorg branch shorter than the blocks it replaces", async () => {
+    await simulate({ action: "mine", count: 3 });
+
+    const { status } = await simulate({
+      action: "reorg",
+      depth: 2,
+      length: 1,
+    });
+
+    expect(status).toBe(400);
+  });
+
+  it("rolls a leader crowned on an orphaned block back to its pre-fork state", async () => {
+    await competitionConfigService.scheduleConfig({ defenseBlocks: 3 }, 0);
+    const proposal = await insertProposal("PEPE", {
+      votesUp: 3,
+      totalVotes: 3,
+      weightUp: 3,
+    });
+    await simulate({ action: "mine" });
+    expect(await getProposal(proposal.id)).toMatchObject({
+      status: "leader",
+      leaderSlot: 1,
+    });
+
+    // One engine run detects the reorg and rolls back without reprocessing
+    simulatedBlockSource.reorg(1);
+    await getInscriptionEngineInstance().triggerManually();
+
+    expect(await getProposal(proposal.id)).toMatchObject({
+      status: "active",
+      leaderSlot: null,
+      leaderStartBlock: null,
+      firstTimeAsLeader: null,
+      expirationBlock: null,
+    });
+    const processed = await testDb.select().from(processedBlocks);
+    expect(Math.max(...processed.map((block) => block.height))).toBe(
+      simulatedBlockSource.getTip().height - 2,
+    );
+  });
+
+  it("notices a reorg to a branch of the same length", async () => {
+    await competitionConfigService.scheduleConfig({ defenseBlocks: 3 }, 0);
+    const proposal = await insertProposal("PEPE", {
+      votesUp: 3,
+      totalVotes: 3,
+      weightUp: 3,
+    });
+    await simulate({ action: "mine" });
+    const crownedAt = simulatedBlockSource.getTip();
+
+    const { body } = await simulate({ action: "reorg", depth: 1, length: 1 });
+
+    expect(body.data.tip.height).toBe(crownedAt.height);
+    expect(body.data.tip.id).not.toBe(crownedAt.id);
+    const [processed] = await testDb
+      .select()
+      .from(processedBlocks)
+      .where(eq(processedBlocks.height, crownedAt.height));
+    expect(processed!.hash).toBe(body.data.tip.id);
+
+    // Crowned on the orphaned block, then again on its replacement
+    const reverted = await testDb
+      .select()
+      .from(proposalStatusEvents)
+      .where(
+        and(
+          eq(proposalStatusEvents.proposalId, proposal.id),
+          isNotNull(proposalStatusEvents.revertedAt),
+        ),
+      );
+    const current = await testDb
+      .select()
+      .from(proposalStatusEvents)
+      .where(
+        and(
+          eq(proposalStatusEvents.proposalId, proposal.id),
+          isNull(proposalStatusEvents.revertedAt),
+        ),
+      );
+    expect(reverted.map((event) => event.toStatus)).toEqual(["leader"]);
+    expect(current.map((event) => event.toStatus)).toEqual(["leader"]);
+    expect((await getProposal(proposal.id)).status).toBe("leader");
+  });
+
+  it("waits out a backend whose tip lags behind the processed chain", async () => {
+    await competitionConfigService.scheduleConfig({ defenseBlocks: 3 }, 0);
+    const proposal = await insertProposal("PEPE", {
+      votesUp: 3,
+      totalVotes: 3,
+      weightUp: 3,
+    });
+    await simulate({ action: "mine" });
+    const tip = simulatedBlockSource.getTip();
+
+    const lagging = vi
+      .spyOn(simulatedBlockSource, "getCurrentBlockHeight")
+      .mockResolvedValue(tip.height - 1);
+    try {
+      await getInscriptionEngineInstance().triggerManually();
+    } finally {
+      lagging.mockRestore();
+    }
+
+    const reverted = await testDb
+      .select()
+      .from(proposalStatusEvents)
+      .where(isNotNull(proposalStatusEvents.revertedAt));
+    expect(reverted).toEqual([]);
+    const processed = await testDb.select().from(processedBlocks);
+    expect(Math.max(...processed.map((block) => block.height))).toBe(
+      tip.height,
+    );
+    expect((await getProposal(proposal.id)).status).toBe("leader");
+  });
+});
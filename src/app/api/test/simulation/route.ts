@@ -0,0 +1,151 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { desc } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { blockTracker } from "~/server/db/schema";
+import { getBlockSource } from "~/server/btc/block-source";
+import { simulatedBlockSource } from "~/server/btc/simulated";
+import { getInscriptionEngineInstance } from "~/server/jobs/inscription-engine";
+import { getJobWorkerInstance } from "~/server/jobs/job-worker";
+import type { ApiResponse, BlockInfo } from "~/types";
+
+const MAX_ENGINE_RUNS = 50; // engine ticks per request before giving up on reaching the tip
+
+const simulationActionSchema = z
+  .discriminatedUnion("action", [
+    z.object({
+      action: z.literal("mine"),
+      count: z.number().int().min(1).max(144).default(1),
+    }),
+    z.object({
+      action: z.literal("reorg"),
+      depth: z.number().int().min(1).max(20),
+      length: z.number().int().min(1).max(144).optional(),
+    }),
+  ])
+  .refine(
+    (body) =>
+      body.action !== "reorg" ||
+      body.length === undefined ||
+      body.length >= body.depth,
+    {
+      message:
+        "A reorg branch must be at least as long as the blocks it replaces",
+      path: ["length"],
+    },
+  );
+
+interface SimulationState {
+  tip: BlockInfo;
+  lastProcessedBlock: number;
+  mined?: BlockInfo[];
+}
+
+async function getLastProcessed(): Promise<{ height: number; hash: string }> {
+  const [tracker] = await db
+    .select({
+      height: blockTracker.lastProcessedBlock,
+      hash: blockTracker.lastProcessedHash,
+    })
+    .from(blockTracker)
+    .orderBy(desc(blockTracker.lastProcessedBlock))
+    .limit(1);
+  return { height: tracker?.height ?? 0, hash: tracker?.hash ?? "" };
+}
+
+function simulationDisabled() {
+  return NextResponse.json(
+    {
+      success: false as const,
+      error: 'Simulation is only available with BLOCK_SOURCE="simulated"',
+    },
+    { status: 409 },
+  );
+}
+
+export async function GET(): Promise<
+  NextResponse<ApiResponse<SimulationState>>
+> {
+  if (getBlockSource().name !== "simulated") {
+    return simulationDisabled();
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      tip: simulatedBlockSource.getTip(),
+      lastProcessedBlock: (await getLastProcessed()).height,
+    },
+  });
+}
+
+/**
+ * Advances the simulated chain, then runs the engine and the job worker until
+ * the engine has processed the new tip, so a scenario can assert on the
+ * resulting state as soon as the request returns.
+ */
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<SimulationState>>> {
+  if (getBlockSource().name !== "simulated") {
+    return simulationDisabled();
+  }
+
+  try {
+    const body = simulationActionSchema.parse(await request.json());
+    const mined =
+      body.action === "mine"
+        ? simulatedBlockSource.mineBlocks(body.count)
+        : simulatedBlockSource.reorg(body.depth, body.length);
+
+    const inscriptionEngine = getInscriptionEngineInstance();
+    const jobWorker = getJobWorkerInstance();
+    const tip = simulatedBlockSource.getTip();
+    let lastProcessed = await getLastProcessed();
+
+    // A same-length reorg keeps the height, so wait for the tip's hash
+    for (
+      let run = 0;
+      run < MAX_ENGINE_RUNS && lastProcessed.hash !== tip.id;
+      run++
+    ) {
+      await inscriptionEngine.triggerManually();
+      await jobWorker.runDueJobs();
+      lastProcessed = await getLastProcessed();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { tip, lastProcessedBlock: lastProcessed.height, mined },
+      message:
+        body.action === "mine"
+          ? `Mined ${mined.length} block(s) up to ${tip.height}`
+          : `Replaced the top ${body.depth} block(s) with ${mined.length} new block(s)`,
+    });
+  } catch (error) {
+    console.error("Error advancing simulated chain:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid simulation action",
+          message: error.errors[0]?.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to advance simulated chain",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { unisatService } from "~/server/services/unisat";
+import { proposalStatusService } from "~/server/services/proposal-status";
 import { db } from "~/server/db";
 import { inscriptions, proposals } from "~/server/db/schema";
 import { eq } from "drizzle-orm";
@@ -107,13 +108,14 @@ export async function POST(request: NextRequest) {
         updateData.inscriptionUrl = `https://ordinals.com/inscription/${file.inscriptionId}`;
       }
 
-      await db
-        .update(proposals)
-        .set({
-          status: "inscribed",
-          updatedAt: new Date(),
-        })
-        .where(eq(proposals.id, inscriptionRecord.proposalId));
+      await proposalStatusService.transition(
+        inscriptionRecord.proposalId,
+        "inscribed",
+        {
+          actor: "test",
+          reason: `UniSat order ${orderId} checked with status ${orderStatus.status}`,
+        },
+      );
 
       console.log(
         `✅ Proposal ${inscriptionRecord.proposalId} marked as inscribed (status: ${orderStatus.status})`,
@@ -128,13 +130,14 @@ export async function POST(request: NextRequest) {
         updateData.inscriptionUrl = `https://ordinals.com/inscription/${file.inscriptionId}`;
       }
 
-      await db
-        .update(proposals)
-        .set({
-          status: "inscribing",
-          updatedAt: new Date(),
-        })
-        .where(eq(proposals.id, inscriptionRecord.proposalId));
+      await proposalStatusService.transition(
+        inscriptionRecord.proposalId,
+        "inscribing",
+        {
+          actor: "test",
+          reason: `UniSat order ${orderId} minted but not confirmed`,
+        },
+      );
 
       console.log(
         `⏳ Proposal ${inscriptionRecord.proposalId} kept as inscribing (minted but not confirmed)`,
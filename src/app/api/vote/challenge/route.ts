@@ -0,0 +1,50 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { voteAuthService } from "~/server/services/vote-auth";
+import type { ApiResponse, VoteChallenge } from "~/types";
+
+const challengeSchema = z.object({
+  proposalId: z.number().int().positive(),
+  voteType: z.enum(["up", "down", "retract"]),
+  votes: z.number().int().min(1).max(1000).optional(),
+  walletAddress: z.string().min(1).max(62),
+});
+
+/** Issues the single-use message a wallet signs to cast a vote. */
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<VoteChallenge>>> {
+  try {
+    const body = (await request.json()) as unknown;
+    const { walletAddress, proposalId, voteType, votes } =
+      challengeSchema.parse(body);
+
+    const challenge = await voteAuthService.issueChallenge(
+      walletAddress,
+      proposalId,
+      voteType,
+      votes,
+    );
+
+    return NextResponse.json({ success: true, data: challenge });
+  } catch (error) {
+    console.error("Error issuing vote challenge:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid vote challenge request",
+          message: error.errors[0]?.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to issue vote challenge" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { voteCommitService } from "~/server/services/vote-commits";
+import type { ApiResponse, VoteChallenge } from "~/types";
+
+const challengeSchema = z.object({
+  proposalId: z.number().int().positive(),
+  walletAddress: z.string().min(1).max(62),
+  commitment: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/, "Commitment must be a sha256 hex digest"),
+});
+
+/** Issues the single-use message a wallet signs to commit to a hidden vote. */
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<VoteChallenge>>> {
+  try {
+    const body = (await request.json()) as unknown;
+    const { walletAddress, proposalId, commitment } =
+      challengeSchema.parse(body);
+
+    const challenge = await voteCommitService.issueChallenge(
+      walletAddress,
+      proposalId,
+      commitment,
+    );
+
+    return NextResponse.json({ success: true, data: challenge });
+  } catch (error) {
+    console.error("Error issuing vote commitment challenge:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid vote commitment challenge request",
+          message: error.errors[0]?.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to issue vote commitment challenge" },
+      { status: 500 },
+    );
+  }
+}
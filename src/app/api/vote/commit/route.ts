@@ -0,0 +1,132 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { users } from "~/server/db/schema";
+import { engineStateService } from "~/server/services/engine-state";
+import { VoteAuthError } from "~/server/services/vote-auth";
+import {
+  VoteCommitError,
+  voteCommitService,
+} from "~/server/services/vote-commits";
+import { VoteNotAllowedError } from "~/server/services/votes";
+import { WalletNotEligibleError } from "~/server/services/wallet-eligibility";
+import type { ApiResponse, VoteCommitment } from "~/types";
+
+const commitSchema = z.object({
+  proposalId: z.number().int().positive(),
+  walletAddress: z.string().min(1).max(62),
+  commitment: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/, "Commitment must be a sha256 hex digest"),
+  nonce: z.string().min(1).max(64),
+  signature: z.string().min(1).max(2000),
+});
+
+/** Commitments a wallet has made, newest first. */
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<VoteCommitment[]>>> {
+  try {
+    const walletAddress = new URL(request.url).searchParams.get(
+      "walletAddress",
+    );
+    if (!walletAddress) {
+      return NextResponse.json(
+        { success: false, error: "Wallet address is required" },
+        { status: 400 },
+      );
+    }
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.walletAddress, walletAddress))
+      .limit(1);
+
+    return NextResponse.json({
+      success: true,
+      data: user ? await voteCommitService.listCommitments(user.id) : [],
+    });
+  } catch (error) {
+    console.error("Error fetching vote commitments:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch vote commitments" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Commits to a hidden vote during the commit phase. */
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<VoteCommitment>>> {
+  try {
+    const engineState = await engineStateService.getState();
+    if (engineState.mode !== "running") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: engineStateService.getUnavailableMessage(engineState),
+        },
+        { status: 503 },
+      );
+    }
+
+    const body = (await request.json()) as unknown;
+    const commitment = await voteCommitService.commit(commitSchema.parse(body));
+
+    return NextResponse.json({
+      success: true,
+      data: commitment,
+      message: `Vote committed; reveal it between blocks ${commitment.revealOpensAtBlock} and ${commitment.revealClosesAtBlock - 1}`,
+    });
+  } catch (error) {
+    console.error("Error committing vote:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid vote commitment",
+          message: error.errors[0]?.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof VoteAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof WalletNotEligibleError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 },
+      );
+    }
+
+    if (error instanceof VoteCommitError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 },
+      );
+    }
+
+    if (error instanceof VoteNotAllowedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to commit vote" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "~/server/db";
+import { users } from "~/server/db/schema";
+import { voteCreditService } from "~/server/services/vote-credits";
+import { voteWeightService } from "~/server/services/vote-weight";
+import { VoteNotAllowedError } from "~/server/services/votes";
+import type { ApiResponse, VoteCredits } from "~/types";
+
+/**
+ * A wallet's quadratic voting budget for the open round. Credits are spent
+ * and reallocated through `POST /api/vote` with a `votes` count, and refunded
+ * by `DELETE /api/vote`.
+ */
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<VoteCredits>>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const walletAddress = searchParams.get("walletAddress");
+
+    if (!walletAddress) {
+      return NextResponse.json(
+        { success: false, error: "Wallet address is required" },
+        { status: 400 },
+      );
+    }
+
+    const rules = await voteWeightService.getVotingRules();
+    if (rules.votingMode !== "quadratic") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Vote credits only apply in quadratic mode (current mode: ${rules.votingMode})`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const round = await voteCreditService.getCreditRound(rules);
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.walletAddress, walletAddress))
+      .limit(1);
+
+    const credits = user
+      ? await voteCreditService.getCredits(user.id, round)
+      : {
+          roundId: round.roundId,
+          budget: round.budget,
+          spent: 0,
+          remaining: round.budget,
+          allocations: [],
+        };
+
+    return NextResponse.json({ success: true, data: credits });
+  } catch (error) {
+    console.error("Error fetching vote credits:", error);
+
+    if (error instanceof VoteNotAllowedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch vote credits" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "~/server/db";
+import { users } from "~/server/db/schema";
+import { voteService } from "~/server/services/votes";
+import type { ApiResponse, VoteEvent } from "~/types";
+
+/** Every cast, switch and retraction a wallet made, oldest first. */
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<VoteEvent[]>>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const walletAddress = searchParams.get("walletAddress");
+    const proposalId = searchParams.get("proposalId");
+
+    if (!walletAddress) {
+      return NextResponse.json(
+        { success: false, error: "Wallet address is required" },
+        { status: 400 },
+      );
+    }
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.walletAddress, walletAddress))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ success: true, data: [] });
+    }
+
+    const history = await voteService.getHistory(
+      user.id,
+      proposalId ? parseInt(proposalId) : undefined,
+    );
+
+    return NextResponse.json({ success: true, data: history });
+  } catch (error) {
+    console.error("Error fetching vote history:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch vote history" },
+      { status: 500 },
+    );
+  }
+}
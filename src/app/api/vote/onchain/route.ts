@@ -0,0 +1,31 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { onchainVoteService } from "~/server/services/onchain-votes";
+import type { ApiResponse, OnchainVote } from "~/types";
+
+/**
+ * OP_RETURN votes read from processed blocks, newest first, with whether
+ * each was applied and why not.
+ */
+export async function GET(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<OnchainVote[]>>> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const walletAddress = searchParams.get("walletAddress");
+    const proposalId = searchParams.get("proposalId");
+
+    const onchainVotes = await onchainVoteService.list({
+      walletAddress: walletAddress ?? undefined,
+      proposalId: proposalId ? parseInt(proposalId) : undefined,
+    });
+
+    return NextResponse.json({ success: true, data: onchainVotes });
+  } catch (error) {
+    console.error("Error fetching on-chain votes:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch on-chain votes" },
+      { status: 500 },
+    );
+  }
+}
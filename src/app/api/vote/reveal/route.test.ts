@@ -0,0 +1,160 @@
+import { randomBytes } from "crypto";
+import { eq } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestWallet } from "~/test/bitcoin";
+import { createTestDb, resetTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { POST: reveal } = await import("./route");
+const { POST: commit } = await import("../commit/route");
+const { POST: simulate } = await import("~/app/api/test/simulation/route");
+const { simulatedBlockSource } = await import("~/server/btc/simulated");
+const { getInscriptionEngineInstance } = await import(
+  "~/server/jobs/inscription-engine"
+);
+const { getJobWorkerInstance } = await import("~/server/jobs/job-worker");
+const { competitionConfigService } = await import(
+  "~/server/services/competition-config"
+);
+const { voteCommitService } = await import("~/server/services/vote-commits");
+const { proposals, users, votes } = await import("~/server/db/schema");
+
+const voter = createTestWallet(9);
+
+function post(
+  handler: (request: NextRequest) => Promise<Response>,
+  body: object,
+) {
+  return handler(
+    new NextRequest("http://localhost/api", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+async function mine(count = 1) {
+  await post(simulate, { action: "mine", count });
+}
+
+async function getProposal(id: number) {
+  const [row] = await testDb
+    .select()
+    .from(proposals)
+    .where(eq(proposals.id, id));
+  return row!;
+}
+
+/** Commits to an upvote through the API and returns what reveals it. */
+async function commitUpvote(proposalId: number) {
+  const vote = {
+    walletAddress: voter.address,
+    proposalId,
+    voteType: "up" as const,
+    salt: randomBytes(16).toString("hex"),
+  };
+  const commitment = voteCommitService.computeCommitment(vote);
+  const challenge = await voteCommitService.issueChallenge(
+    voter.address,
+    proposalId,
+    commitment,
+  );
+  const signature = voter.sign(challenge.message);
+
+  const response = await post(commit, {
+    walletAddress: voter.address,
+    proposalId,
+    commitment,
+    nonce: challenge.nonce,
+    signature,
+  });
+  expect(response.status).toBe(200);
+  return { vote, signature };
+}
+
+describe("commit-reveal voting", () => {
+  let proposalId: number;
+
+  beforeAll(async () => {
+    // Driven by hand through the simulation route, as in its own tests
+    getInscriptionEngineInstance().stop();
+    getJobWorkerInstance().stop();
+    testDb = await createTestDb();
+  });
+
+  beforeEach(async () => {
+    await resetTestDb(testDb);
+    simulatedBlockSource.reset();
+    await mine();
+
+    // Two blocks of commits, then two of reveals, from the processed tip
+    await competitionConfigService.scheduleConfig(
+      { commitPhaseBlocks: 2, revealPhaseBlocks: 2 },
+      simulatedBlockSource.getTip().height,
+    );
+    await testDb
+      .insert(users)
+      .values({ walletAddress: voter.address, walletVerifiedAt: new Date() });
+    const [proposal] = await testDb
+      .insert(proposals)
+      .values({
+        name: "Pepe",
+        ticker: "PEPE",
+        tickerSkeleton: "PEPE",
+        description: "Pepe proposal",
+        imageUrl: "https://example.com/pepe.png",
+        creationBlock: simulatedBlockSource.getTip().height,
+      })
+      .returning();
+    proposalId = proposal!.id;
+  });
+
+  it("counts a committed vote only once it is revealed", async () => {
+    const { vote, signature } = await commitUpvote(proposalId);
+
+    // Still hidden, so the engine has nothing to crown
+    await mine();
+    expect(await getProposal(proposalId)).toMatchObject({
+      status: "active",
+      votesUp: 0,
+    });
+
+    await mine();
+    const response = await post(reveal, vote);
+    expect(response.status).toBe(200);
+
+    const [revealed] = await testDb
+      .select()
+      .from(votes)
+      .where(eq(votes.proposalId, proposalId));
+    expect(revealed).toMatchObject({
+      voteType: "up",
+      source: "reveal",
+      signature,
+    });
+    expect((await getProposal(proposalId)).votesUp).toBe(1);
+
+    await mine();
+    expect((await getProposal(proposalId)).status).toBe("leader");
+  });
+
+  it("refuses a reveal after its window closed", async () => {
+    const { vote } = await commitUpvote(proposalId);
+
+    await mine(4);
+    const response = await post(reveal, vote);
+
+    expect(response.status).toBe(409);
+    expect(await getProposal(proposalId)).toMatchObject({
+      status: "active",
+      votesUp: 0,
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { engineStateService } from "~/server/services/engine-state";
+import { VoteAuthError } from "~/server/services/vote-auth";
+import {
+  VoteCommitError,
+  voteCommitService,
+} from "~/server/services/vote-commits";
+import { VoteNotAllowedError } from "~/server/services/votes";
+import { WalletNotEligibleError } from "~/server/services/wallet-eligibility";
+import type { ApiResponse, Vote } from "~/types";
+
+const revealSchema = z.object({
+  proposalId: z.number().int().positive(),
+  walletAddress: z.string().min(1).max(62),
+  voteType: z.enum(["up", "down"]),
+  votes: z.number().int().min(1).max(1000).optional(),
+  salt: z.string().min(1).max(256),
+});
+
+/**
+ * Reveals a committed vote during the reveal phase. Only revealed votes
+ * reach the proposal counters, so only they count towards leadership.
+ */
+export async function POST(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<Vote>>> {
+  try {
+    const engineState = await engineStateService.getState();
+    if (engineState.mode !== "running") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: engineStateService.getUnavailableMessage(engineState),
+        },
+        { status: 503 },
+      );
+    }
+
+    const body = (await request.json()) as unknown;
+    const { vote, action } = await voteCommitService.reveal(
+      revealSchema.parse(body),
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: vote,
+      message:
+        vote.status === "held"
+          ? "Vote revealed and held for admin review"
+          : action === "change"
+            ? `Vote revealed and changed to ${vote.voteType}`
+            : "Vote revealed",
+    });
+  } catch (error) {
+    console.error("Error revealing vote:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid vote reveal",
+          message: error.errors[0]?.message,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof VoteAuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 401 },
+      );
+    }
+
+    if (error instanceof WalletNotEligibleError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 },
+      );
+    }
+
+    if (error instanceof VoteCommitError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 },
+      );
+    }
+
+    if (error instanceof VoteNotAllowedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to reveal vote" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { DELETE } = await import("./route");
+const { competitionConfigService } = await import(
+  "~/server/services/competition-config"
+);
+
+describe("DELETE /api/vote", () => {
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  });
+
+  it("refuses retractions while votes are committed and revealed", async () => {
+    await competitionConfigService.scheduleConfig(
+      { commitPhaseBlocks: 10, revealPhaseBlocks: 10 },
+      0,
+    );
+
+    const response = await DELETE(
+      new NextRequest("http://localhost/api/vote", {
+        method: "DELETE",
+        body: JSON.stringify({
+          proposalId: 1,
+          walletAddress: "tb1voter",
+          nonce: "nonce",
+          signature: "signature",
+        }),
+      }),
+    );
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ success: false });
+  });
+});
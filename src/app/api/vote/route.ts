@@ -2,20 +2,92 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 import { db } from "~/server/db";
 import { votes, proposals, users } from "~/server/db/schema";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and } from "drizzle-orm";
 import { z } from "zod";
 import type { ApiResponse, Vote } from "~/types";
+import { engineStateService } from "~/server/services/engine-state";
+import { VoteAuthError, voteAuthService } from "~/server/services/vote-auth";
+import { VoteNotAllowedError, voteService } from "~/server/services/votes";
+import { voteCommitService } from "~/server/services/vote-commits";
+import { voteCreditService } from "~/server/services/vote-credits";
+import { voteSubmissionService } from "~/server/services/vote-submission";
+import { voteWeightService } from "~/server/services/vote-weight";
+import { WalletNotEligibleError } from "~/server/services/wallet-eligibility";
 
 const voteSchema = z.object({
   proposalId: z.number().int().positive(),
   voteType: z.enum(["up", "down"]),
-  walletAddress: z.string().min(1),
+  votes: z.number().int().min(1).max(1000).optional(),
+  walletAddress: z.string().min(1).max(62),
+  nonce: z.string().min(1).max(64),
+  signature: z.string().min(1).max(2000),
 });
 
+const retractSchema = voteSchema.omit({ voteType: true, votes: true });
+
+async function rejectWhilePaused() {
+  const engineState = await engineStateService.getState();
+  if (engineState.mode === "running") {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      success: false as const,
+      error: engineStateService.getUnavailableMessage(engineState),
+    },
+    { status: 503 },
+  );
+}
+
+function voteErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        success: false as const,
+        error: "Invalid vote data",
+        message: error.errors[0]?.message,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (error instanceof VoteAuthError) {
+    return NextResponse.json(
+      { success: false as const, error: error.message },
+      { status: 401 },
+    );
+  }
+
+  if (error instanceof WalletNotEligibleError) {
+    return NextResponse.json(
+      { success: false as const, error: error.message },
+      { status: 403 },
+    );
+  }
+
+  if (error instanceof VoteNotAllowedError) {
+    return NextResponse.json(
+      { success: false as const, error: error.message },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json(
+    { success: false as const, error: fallback },
+    { status: 500 },
+  );
+}
+
+/** Casts a vote, or switches an existing vote between up and down. */
 export async function POST(
   request: NextRequest,
 ): Promise<NextResponse<ApiResponse<Vote>>> {
   try {
+    const paused = await rejectWhilePaused();
+    if (paused) {
+      return paused;
+    }
+
     const body = (await request.json()) as unknown;
     const validatedData = voteSchema.parse(body);
     const proposal = await db
@@ -31,105 +103,117 @@ export async function POST(
       );
     }
 
-    if (proposal[0]?.status !== "active") {
+    const { rules, phase } = await voteCommitService.getVotingState();
+    if (phase.phase !== "open") {
       return NextResponse.json(
-        { success: false, error: "Proposal is not active for voting" },
-        { status: 400 },
+        {
+          success: false,
+          error:
+            "Votes are committed and revealed in this competition; commit with POST /api/vote/commit",
+        },
+        { status: 409 },
       );
     }
 
-    const user = await db
-      .select()
-      .from(users)
-      .where(eq(users.walletAddress, validatedData.walletAddress))
-      .limit(1);
+    await voteAuthService.verifyVote(validatedData);
 
-    let userId: number;
-    if (user.length === 0) {
-      const newUser = await db
-        .insert(users)
-        .values({
-          walletAddress: validatedData.walletAddress,
-        })
-        .returning();
-      userId = newUser[0]!.id;
-    } else {
-      userId = user[0]!.id;
-    }
-
-    const existingVote = await db
-      .select()
-      .from(votes)
-      .where(
-        and(
-          eq(votes.userId, userId),
-          eq(votes.proposalId, validatedData.proposalId),
-        ),
-      )
-      .limit(1);
-
-    if (existingVote.length > 0) {
-      return NextResponse.json(
-        { success: false, error: "You have already voted on this proposal" },
-        { status: 400 },
-      );
-    }
-
-    const newVote = await db
-      .insert(votes)
-      .values({
-        userId,
-        proposalId: validatedData.proposalId,
-        voteType: validatedData.voteType,
-      })
-      .returning();
-
-    const vote = newVote[0]!;
-
-    const voteIncrement = validatedData.voteType === "up" ? 1 : 0;
-    const downVoteIncrement = validatedData.voteType === "down" ? 1 : 0;
-
-    await db
-      .update(proposals)
-      .set({
-        votesUp: sql`${proposals.votesUp} + ${voteIncrement}`,
-        votesDown: sql`${proposals.votesDown} + ${downVoteIncrement}`,
-        totalVotes: sql`${proposals.totalVotes} + 1`,
-        updatedAt: sql`CURRENT_TIMESTAMP`,
-      })
-      .where(eq(proposals.id, validatedData.proposalId));
-
-    const transformedVote: Vote = {
-      id: vote.id,
-      userId: vote.userId,
-      proposalId: vote.proposalId,
-      voteType: vote.voteType,
-      createdAt: vote.createdAt.toISOString(),
-    };
+    const { vote, action } = await voteSubmissionService.submit(
+      validatedData,
+      rules,
+    );
 
     return NextResponse.json({
       success: true,
-      data: transformedVote,
-      message: "Vote submitted successfully",
+      data: vote,
+      message:
+        vote.status === "held"
+          ? "Vote recorded and held for admin review"
+          : action === "change"
+            ? `Vote changed to ${vote.voteType}`
+            : "Vote submitted successfully",
     });
   } catch (error) {
     console.error("Error submitting vote:", error);
+    return voteErrorResponse(error, "Failed to submit vote");
+  }
+}
 
-    if (error instanceof z.ZodError) {
+/** Retracts a vote while the proposal is still active, outside commit-reveal voting. */
+export async function DELETE(
+  request: NextRequest,
+): Promise<NextResponse<ApiResponse<Vote>>> {
+  try {
+    const paused = await rejectWhilePaused();
+    if (paused) {
+      return paused;
+    }
+
+    const body = (await request.json()) as unknown;
+    const validatedData = retractSchema.parse(body);
+
+    // A retraction would change the tally outside the reveal it has to pass
+    const { phase } = await voteCommitService.getVotingState();
+    if (phase.phase !== "open") {
       return NextResponse.json(
         {
           success: false,
-          error: "Invalid vote data",
-          message: error.errors[0]?.message,
+          error:
+            "Votes are committed and revealed in this competition and cannot be retracted",
         },
-        { status: 400 },
+        { status: 409 },
       );
     }
 
-    return NextResponse.json(
-      { success: false, error: "Failed to submit vote" },
-      { status: 500 },
+    await voteAuthService.verifyVote({
+      ...validatedData,
+      voteType: "retract",
+    });
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.walletAddress, validatedData.walletAddress))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "You have not voted on this proposal" },
+        { status: 404 },
+      );
+    }
+
+    const rules = await voteWeightService.getVotingRules();
+    const round =
+      rules.votingMode === "quadratic"
+        ? await voteCreditService.getCreditRound(rules)
+        : null;
+
+    const vote = await voteService.retractVote(
+      user.id,
+      validatedData.proposalId,
+      {
+        // Retracting refunds credits spent on the proposal this round
+        charge: round
+          ? (tx) =>
+              voteCreditService.reallocate(
+                tx,
+                round,
+                user.id,
+                validatedData.proposalId,
+                0,
+              )
+          : undefined,
+      },
     );
+
+    return NextResponse.json({
+      success: true,
+      data: vote,
+      message: "Vote retracted",
+    });
+  } catch (error) {
+    console.error("Error retracting vote:", error);
+    return voteErrorResponse(error, "Failed to retract vote");
   }
 }
 
@@ -179,13 +263,9 @@ export async function GET(
           .where(eq(votes.userId, userId))
           .orderBy(votes.createdAt);
 
-    const transformedVotes: Vote[] = userVotes.map((vote) => ({
-      id: vote.id,
-      userId: vote.userId,
-      proposalId: vote.proposalId,
-      voteType: vote.voteType,
-      createdAt: vote.createdAt.toISOString(),
-    }));
+    const transformedVotes: Vote[] = userVotes.map((vote) =>
+      voteService.toVote(vote),
+    );
 
     return NextResponse.json({
       success: true,
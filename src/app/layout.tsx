@@ -7,6 +7,7 @@ const inter = Inter({ subsets: ["latin"] });
 import { type Metadata } from "next";
 import { WalletProvider } from "~/components/providers";
 import { Header } from "~/components/Header";
+import { MaintenanceBanner } from "~/components/MaintenanceBanner";
 import "~/server/init";
 
 export const metadata: Metadata = {
@@ -24,6 +25,7 @@ export default function RootLayout({
       <body className="no-scrollbar-x bg-black">
         <WalletProvider>
           <Header />
+          <MaintenanceBanner />
           {children}
         </WalletProvider>
       </body>
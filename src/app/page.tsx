@@ -20,7 +20,13 @@ import { UserProfileModal } from "~/components/UserProfileModal";
 import { InscriptionModal } from "~/components/InscriptionModal";
 import HowItWorksModal from "~/components/HowItWorksModal";
 
-import { getLeaderboard, submitVote, createProposal } from "~/lib/api";
+import {
+  getLeaderboard,
+  getVoteChallenge,
+  submitVote,
+  createProposal,
+} from "~/lib/api";
+import { getBitcoinAddress, signBitcoinMessage } from "~/lib/bitcoin-signer";
 import { useWallet } from "~/components/providers";
 
 import type {
@@ -128,14 +134,30 @@ export default function HomePage() {
       return;
     }
 
-    const promise = submitVote({
-      proposalId,
-      walletAddress,
-      voteType,
-    });
+    // Votes are cast by a Bitcoin address that signs a fresh server challenge
+    const promise = (async () => {
+      const bitcoinAddress = await getBitcoinAddress();
+      const challenge = await getVoteChallenge({
+        proposalId,
+        walletAddress: bitcoinAddress,
+        voteType,
+      });
+      if (!challenge.data) {
+        throw new Error(challenge.error ?? "Failed to get vote challenge");
+      }
+      const signature = await signBitcoinMessage(challenge.data.message);
+
+      return submitVote({
+        proposalId,
+        walletAddress: bitcoinAddress,
+        voteType,
+        nonce: challenge.data.nonce,
+        signature,
+      });
+    })();
 
     toast.promise(promise, {
-      loading: "Submitting your vote...",
+      loading: "Sign the vote in your wallet...",
       success: (res: ApiResponse<Vote>) => {
         if (res.success) {
           fetchData(); // Refresh data after successful vote
@@ -160,10 +182,16 @@ export default function HomePage() {
       toast.error("Wallet not connected");
       return;
     }
-    const promise = createProposal({
-      ...proposal,
-      walletAddress: walletAddress,
-    });
+    const promise = (async () => {
+      // Edits are signed with Bitcoin, so link the UniSat account if there is
+      // one; without it the proposal simply cannot be edited
+      const editorAddress = await getBitcoinAddress().catch(() => undefined);
+      return createProposal({
+        ...proposal,
+        walletAddress: walletAddress,
+        editorAddress,
+      });
+    })();
     toast.promise(promise, {
       loading: "Submitting your proposal...",
       success: (res) => {
@@ -324,6 +352,7 @@ export default function HomePage() {
                         status={proposal.status}
                         inscription={proposal.inscription}
                         leaderStartBlock={proposal.leaderStartBlock}
+                        leaderSlot={proposal.leaderSlot}
                         leaderboardMinBlocks={proposal.leaderboardMinBlocks}
                         currentBlockHeight={latestBlock?.height}
                         onVote={handleVote}
@@ -13,15 +13,36 @@ import {
   Twitter,
   Send,
   ShieldCheck,
+  History,
+  Pencil,
 } from "lucide-react";
 import { toast } from "sonner";
 import { useWallet } from "~/components/providers";
-import type { Proposal, Inscription } from "~/types";
+import {
+  editProposal,
+  getProposalEditChallenge,
+  getVoteChallenge,
+} from "~/lib/api";
+import { getBitcoinAddress, signBitcoinMessage } from "~/lib/bitcoin-signer";
+import type {
+  Proposal,
+  Inscription,
+  ProposalEdit,
+  ProposalEditableField,
+} from "~/types";
 
 interface ProposalPageProps {
   params: Promise<{ proposalId: string }>;
 }
 
+const EDITABLE_FIELD_LABELS: Record<ProposalEditableField, string> = {
+  description: "Description",
+  website: "Website",
+  twitter: "Twitter",
+  telegram: "Telegram",
+  bannerUrl: "Banner",
+};
+
 interface PumpFunToken {
   mintAddress: string;
   transactionSignature: string;
@@ -33,7 +54,9 @@ export default function ProposalPage({ params }: ProposalPageProps) {
   const [inscription, setInscription] = useState<Inscription | null>(null);
   const [pumpToken, setPumpToken] = useState<PumpFunToken | null>(null);
   const [loading, setLoading] = useState(true);
-  const [voting, setVoting] = useState<"up" | "down" | null>(null);
+  const [voting, setVoting] = useState<"up" | "down" | "retract" | null>(null);
+  const [editForm, setEditForm] = useState<ProposalEdit | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
   const [resolvedParams, setResolvedParams] = useState<{
     proposalId: string;
   } | null>(null);
@@ -77,7 +100,7 @@ export default function ProposalPage({ params }: ProposalPageProps) {
     fetchProposal();
   }, [resolvedParams]);
 
-  const handleVote = async (voteType: "up" | "down") => {
+  const handleVote = async (voteType: "up" | "down" | "retract") => {
     if (!walletAddress) {
       toast.error("Please connect your wallet to vote");
       return;
@@ -87,13 +110,26 @@ export default function ProposalPage({ params }: ProposalPageProps) {
 
     setVoting(voteType);
     try {
+      const bitcoinAddress = await getBitcoinAddress();
+      const challenge = await getVoteChallenge({
+        proposalId: proposal.id,
+        voteType,
+        walletAddress: bitcoinAddress,
+      });
+      if (!challenge.data) {
+        throw new Error(challenge.error ?? "Failed to get vote challenge");
+      }
+      const signature = await signBitcoinMessage(challenge.data.message);
+
       const response = await fetch("/api/vote", {
-        method: "POST",
+        method: voteType === "retract" ? "DELETE" : "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           proposalId: proposal.id,
-          voteType,
-          walletAddress,
+          voteType: voteType === "retract" ? undefined : voteType,
+          walletAddress: bitcoinAddress,
+          nonce: challenge.data.nonce,
+          signature,
         }),
       });
 
@@ -105,18 +141,84 @@ export default function ProposalPage({ params }: ProposalPageProps) {
         if (updatedData.success) {
           setProposal(updatedData.data);
         }
-        toast.success("Vote submitted successfully!");
+        toast.success(data.message || "Vote submitted successfully!");
       } else {
         toast.error(data.error || "Failed to submit vote");
       }
     } catch (error) {
       console.error("Vote error:", error);
-      toast.error("An error occurred while voting");
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "An error occurred while voting",
+      );
     } finally {
       setVoting(null);
     }
   };
 
+  const handleEdit = async () => {
+    if (!proposal || !editForm) return;
+
+    // Only send the fields that actually changed
+    const changes: ProposalEdit = {};
+    for (const field of Object.keys(
+      EDITABLE_FIELD_LABELS,
+    ) as ProposalEditableField[]) {
+      const value = editForm[field]?.trim() ?? "";
+      if (value !== (proposal[field] ?? "")) changes[field] = value;
+    }
+    if (Object.keys(changes).length === 0) {
+      toast.info("Nothing has changed");
+      return;
+    }
+
+    setSavingEdit(true);
+    try {
+      const bitcoinAddress = await getBitcoinAddress();
+      if (bitcoinAddress !== proposal.editorAddress) {
+        throw new Error(
+          `Switch UniSat to ${proposal.editorAddress}, the address linked to this proposal`,
+        );
+      }
+      const challenge = await getProposalEditChallenge(proposal.id, {
+        walletAddress: bitcoinAddress,
+        changes,
+      });
+      if (!challenge.data) {
+        throw new Error(challenge.error ?? "Failed to get edit challenge");
+      }
+      const signature = await signBitcoinMessage(challenge.data.message);
+
+      const result = await editProposal(proposal.id, {
+        walletAddress: bitcoinAddress,
+        changes,
+        nonce: challenge.data.nonce,
+        signature,
+      });
+      if (!result.success) {
+        throw new Error(result.error ?? "Failed to edit proposal");
+      }
+
+      const updatedResponse = await fetch(`/api/proposals/${proposal.id}`);
+      const updatedData = await updatedResponse.json();
+      if (updatedData.success) {
+        setProposal(updatedData.data);
+      }
+      setEditForm(null);
+      toast.success("Proposal updated");
+    } catch (error) {
+      console.error("Edit error:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "An error occurred while editing",
+      );
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
   const getStatusBadge = () => {
     if (!proposal) return null;
 
@@ -322,8 +424,13 @@ export default function ProposalPage({ params }: ProposalPageProps) {
 
               {/* Description */}
               <div className="rounded-2xl border border-amber-600/20 bg-white/5 p-4 backdrop-blur-xl sm:p-6 lg:p-8">
-                <h2 className="mb-3 text-xl font-bold text-white sm:mb-4 sm:text-2xl">
+                <h2 className="mb-3 flex items-center gap-3 text-xl font-bold text-white sm:mb-4 sm:text-2xl">
                   About This Meme
+                  {proposal.revisions && proposal.revisions.length > 0 && (
+                    <span className="rounded-full border border-amber-600/30 bg-amber-600/10 px-2 py-0.5 text-xs font-medium text-amber-300">
+                      Edited
+                    </span>
+                  )}
                 </h2>
                 <p className="text-sm leading-relaxed text-white/80 sm:text-base lg:text-lg">
                   {proposal.description}
@@ -481,6 +588,16 @@ export default function ProposalPage({ params }: ProposalPageProps) {
                       )}
                       <span>Downvote</span>
                     </motion.button>
+
+                    <button
+                      onClick={() => handleVote("retract")}
+                      disabled={voting === "retract" || !walletAddress}
+                      className="w-full text-center text-xs text-white/60 transition-colors hover:text-white disabled:opacity-50 sm:text-sm"
+                    >
+                      {voting === "retract"
+                        ? "Retracting..."
+                        : "Retract my vote"}
+                    </button>
                   </div>
 
                   {!walletAddress && (
@@ -546,6 +663,14 @@ export default function ProposalPage({ params }: ProposalPageProps) {
                       </span>
                     </div>
                   )}
+                  {proposal.leaderSlot && (
+                    <div className="flex justify-between">
+                      <span className="text-white/70">Winner Slot:</span>
+                      <span className="text-white">
+                        #{proposal.leaderSlot}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-white/70">
                       Min. Blocks as Leader:
@@ -599,8 +724,144 @@ export default function ProposalPage({ params }: ProposalPageProps) {
                       </span>
                     </div>
                   )}
+
+                  {proposal.editableUntilBlock && (
+                    <div className="flex justify-between">
+                      <span className="text-white/70">Editable Until:</span>
+                      <span className="text-white">
+                        Block {proposal.editableUntilBlock.toLocaleString()}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
+
+              {/* Edit Proposal */}
+              {proposal.editableUntilBlock && proposal.editorAddress && (
+                <div className="rounded-2xl border border-amber-600/20 bg-white/5 p-4 backdrop-blur-xl sm:p-6">
+                  <h3 className="mb-4 flex items-center gap-2 text-lg font-bold text-white sm:text-xl">
+                    <Pencil className="h-5 w-5 text-orange-400" />
+                    Edit Proposal
+                  </h3>
+
+                  {editForm ? (
+                    <div className="space-y-3 text-sm">
+                      {(
+                        Object.entries(EDITABLE_FIELD_LABELS) as Array<
+                          [ProposalEditableField, string]
+                        >
+                      ).map(([field, label]) => (
+                        <div key={field}>
+                          <label className="mb-1.5 block text-white/70">
+                            {label}
+                          </label>
+                          {field === "description" ? (
+                            <textarea
+                              value={editForm[field] ?? ""}
+                              onChange={(e) =>
+                                setEditForm({
+                                  ...editForm,
+                                  [field]: e.target.value,
+                                })
+                              }
+                              maxLength={280}
+                              rows={3}
+                              className="w-full rounded-xl border border-orange-500/20 bg-white/5 px-3 py-2 text-white placeholder-white/40 focus:border-orange-500/50 focus:outline-none"
+                            />
+                          ) : (
+                            <input
+                              type="text"
+                              value={editForm[field] ?? ""}
+                              onChange={(e) =>
+                                setEditForm({
+                                  ...editForm,
+                                  [field]: e.target.value,
+                                })
+                              }
+                              placeholder="https://"
+                              className="w-full rounded-xl border border-orange-500/20 bg-white/5 px-3 py-2 text-white placeholder-white/40 focus:border-orange-500/50 focus:outline-none"
+                            />
+                          )}
+                        </div>
+                      ))}
+                      <div className="flex gap-2 pt-1">
+                        <button
+                          onClick={handleEdit}
+                          disabled={savingEdit}
+                          className="flex-1 rounded-xl bg-gradient-to-r from-orange-500 to-amber-600 px-4 py-2 font-medium text-white disabled:opacity-50"
+                        >
+                          {savingEdit ? "Signing..." : "Sign and Save"}
+                        </button>
+                        <button
+                          onClick={() => setEditForm(null)}
+                          disabled={savingEdit}
+                          className="rounded-xl border border-white/20 px-4 py-2 text-white/70 hover:text-white disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-3 text-sm">
+                      <p className="text-white/70">
+                        Until the first vote or block{" "}
+                        {proposal.editableUntilBlock.toLocaleString()},
+                        whichever comes first, {proposal.editorAddress} can
+                        correct the description and links.
+                      </p>
+                      <button
+                        onClick={() =>
+                          setEditForm({
+                            description: proposal.description,
+                            website: proposal.website ?? "",
+                            twitter: proposal.twitter ?? "",
+                            telegram: proposal.telegram ?? "",
+                            bannerUrl: proposal.bannerUrl ?? "",
+                          })
+                        }
+                        className="w-full rounded-xl border border-orange-500/30 px-4 py-2 font-medium text-orange-300 hover:bg-orange-500/10"
+                      >
+                        Edit
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Edit History */}
+              {proposal.revisions && proposal.revisions.length > 0 && (
+                <div className="rounded-2xl border border-amber-600/20 bg-white/5 p-4 backdrop-blur-xl sm:p-6">
+                  <h3 className="mb-4 flex items-center gap-2 text-lg font-bold text-white sm:text-xl">
+                    <History className="h-5 w-5 text-orange-400" />
+                    Edit History
+                  </h3>
+
+                  <div className="space-y-3 text-sm">
+                    {proposal.revisions.map((revision) => (
+                      <div key={revision.id}>
+                        <div className="flex justify-between">
+                          <span className="text-white/70">
+                            Revision {revision.revision}:
+                          </span>
+                          <span className="text-white">
+                            Block {revision.blockHeight.toLocaleString()}
+                          </span>
+                        </div>
+                        <p className="text-white/50">
+                          {(
+                            Object.keys(
+                              revision.changes,
+                            ) as ProposalEditableField[]
+                          )
+                            .map((field) => EDITABLE_FIELD_LABELS[field])
+                            .join(", ")}{" "}
+                          · {new Date(revision.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </motion.div>
         </div>
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { getEngineState } from "~/lib/api";
+import type { EngineState } from "~/types";
+
+const POLL_INTERVAL = 30000;
+
+export function MaintenanceBanner() {
+  const [state, setState] = useState<
+    (EngineState & { message?: string }) | null
+  >(null);
+
+  useEffect(() => {
+    const fetchState = async () => {
+      try {
+        const response = await getEngineState();
+        if (response.success && response.data) {
+          setState(response.data);
+        }
+      } catch (error) {
+        console.error("Failed to fetch engine state:", error);
+      }
+    };
+
+    void fetchState();
+    const interval = setInterval(() => void fetchState(), POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const isDown = state !== null && state.mode !== "running";
+
+  return (
+    <AnimatePresence>
+      {isDown && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: "auto" }}
+          exit={{ opacity: 0, height: 0 }}
+          transition={{ duration: 0.3, ease: "easeInOut" }}
+          className="overflow-hidden border-b border-amber-500/20 bg-amber-500/10"
+        >
+          <div className="container mx-auto flex items-center justify-center gap-2 px-4 py-3 text-center text-sm font-semibold text-amber-400">
+            <span>{state.mode === "maintenance" ? "🛠️" : "⏸️"}</span>
+            <span>{state.message}</span>
+            <span className="hidden font-normal text-amber-400/70 sm:inline">
+              Voting and new proposals are disabled until then.
+            </span>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -29,6 +29,7 @@ interface ProposalCardProps {
     | "expired";
   inscription: Inscription | null;
   leaderStartBlock?: number;
+  leaderSlot?: number;
   leaderboardMinBlocks: number;
   currentBlockHeight?: number;
   onVote: (proposalId: number, voteType: "up" | "down") => void;
@@ -48,6 +49,7 @@ export function ProposalCard({
   totalVotes,
   status,
   leaderStartBlock,
+  leaderSlot,
   leaderboardMinBlocks,
   currentBlockHeight,
   onVote,
@@ -188,6 +190,14 @@ export function ProposalCard({
               </span>
             </div>
           </motion.div>
+          {leaderSlot &&
+            (status === "leader" ||
+              status === "inscribing" ||
+              status === "inscribed") && (
+              <div className="mt-1 rounded-full bg-black/50 px-2 py-0.5 text-center text-[10px] font-semibold text-white backdrop-blur-sm sm:text-xs">
+                Slot {leaderSlot}
+              </div>
+            )}
         </div>
 
         {/* Banner Image */}
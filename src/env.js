@@ -7,7 +7,9 @@ export const env = createEnv({
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
-    BITCOIN_NETWORK: z.enum(["mainnet", "testnet"]).default("testnet"),
+    BITCOIN_NETWORK: z
+      .enum(["mainnet", "testnet", "regtest"])
+      .default("testnet"),
     ESPLORA_API_URL: z
       .string()
       .url()
@@ -25,11 +27,18 @@ export const env = createEnv({
     ESPLORA_CLIENT_SECRET: z.string().optional(),
     HELIUS_RPC_URL: z.string().url(),
     SOLANA_PLATFORM_WALLET_PRIVATE_KEY: z.string(),
+    NODE_ID: z.string().optional(),
+    BLOCK_SOURCE: z.enum(["esplora", "simulated"]).default("esplora"),
+    SIMULATION_START_HEIGHT: z.string().default("800000"),
+    SIMULATION_SEED: z.string().default("bitmemes"),
+    INSCRIPTION_PROVIDER: z
+      .enum(["auto", "unisat", "ordinalsbot", "ord", "mock"])
+      .default("auto"),
   },
 
   client: {
     NEXT_PUBLIC_BITCOIN_NETWORK: z
-      .enum(["mainnet", "testnet"])
+      .enum(["mainnet", "testnet", "regtest"])
       .default("testnet"),
     NEXT_PUBLIC_ESPLORA_API_URL: z
       .string()
@@ -60,6 +69,11 @@ export const env = createEnv({
     HELIUS_RPC_URL: process.env.HELIUS_RPC_URL,
     SOLANA_PLATFORM_WALLET_PRIVATE_KEY:
       process.env.SOLANA_PLATFORM_WALLET_PRIVATE_KEY,
+    NODE_ID: process.env.NODE_ID,
+    BLOCK_SOURCE: process.env.BLOCK_SOURCE,
+    SIMULATION_START_HEIGHT: process.env.SIMULATION_START_HEIGHT,
+    SIMULATION_SEED: process.env.SIMULATION_SEED,
+    INSCRIPTION_PROVIDER: process.env.INSCRIPTION_PROVIDER,
   },
 
   skipValidation: !!process.env.SKIP_ENV_VALIDATION,
@@ -1,11 +1,19 @@
 import type {
   ApiResponse,
   Proposal,
+  ProposalEdit,
+  ProposalRevision,
   ProposalSubmission,
   Vote,
   VoteSubmission,
+  VoteChallenge,
+  VoteCommitment,
+  VoteCredits,
+  VoteMerkleProof,
+  VotingPhase,
   LeaderboardEntry,
   BlockInfo,
+  EngineState,
 } from "~/types";
 
 const API_BASE = process.env.NODE_ENV === "production" ? "" : "";
@@ -40,10 +48,16 @@ async function apiRequest<T>(
 export async function getProposals(
   page = 1,
   limit = 20,
-  sortBy = "totalVotes",
+  sortBy = "rank",
   order = "desc",
   status = "active",
-): Promise<ApiResponse<{ proposals: Proposal[]; total: number }>> {
+): Promise<
+  ApiResponse<{
+    proposals: Proposal[];
+    total: number;
+    votingPhase: VotingPhase;
+  }>
+> {
   const params = new URLSearchParams({
     page: page.toString(),
     limit: limit.toString(),
@@ -64,6 +78,42 @@ export async function createProposal(
   });
 }
 
+export async function getProposalEditChallenge(
+  proposalId: number,
+  challenge: { walletAddress: string; changes: ProposalEdit },
+): Promise<ApiResponse<VoteChallenge>> {
+  return apiRequest(`/proposals/${proposalId}/revisions/challenge`, {
+    method: "POST",
+    body: JSON.stringify(challenge),
+  });
+}
+
+export async function editProposal(
+  proposalId: number,
+  edit: {
+    walletAddress: string;
+    changes: ProposalEdit;
+    nonce: string;
+    signature: string;
+  },
+): Promise<ApiResponse<ProposalRevision>> {
+  return apiRequest(`/proposals/${proposalId}/revisions`, {
+    method: "POST",
+    body: JSON.stringify(edit),
+  });
+}
+
+export async function getVoteChallenge(
+  challenge: Pick<VoteSubmission, "proposalId" | "voteType" | "votes"> & {
+    walletAddress: string;
+  },
+): Promise<ApiResponse<VoteChallenge>> {
+  return apiRequest("/vote/challenge", {
+    method: "POST",
+    body: JSON.stringify(challenge),
+  });
+}
+
 export async function submitVote(
   vote: VoteSubmission,
 ): Promise<ApiResponse<Vote>> {
@@ -73,6 +123,67 @@ export async function submitVote(
   });
 }
 
+export async function retractVote(
+  retraction: Omit<VoteSubmission, "voteType">,
+): Promise<ApiResponse<Vote>> {
+  return apiRequest("/vote", {
+    method: "DELETE",
+    body: JSON.stringify(retraction),
+  });
+}
+
+export async function getVoteCommitChallenge(challenge: {
+  proposalId: number;
+  walletAddress: string;
+  commitment: string;
+}): Promise<ApiResponse<VoteChallenge>> {
+  return apiRequest("/vote/commit/challenge", {
+    method: "POST",
+    body: JSON.stringify(challenge),
+  });
+}
+
+export async function commitVote(commitment: {
+  proposalId: number;
+  walletAddress: string;
+  commitment: string;
+  nonce: string;
+  signature: string;
+}): Promise<ApiResponse<VoteCommitment>> {
+  return apiRequest("/vote/commit", {
+    method: "POST",
+    body: JSON.stringify(commitment),
+  });
+}
+
+export async function revealVote(reveal: {
+  proposalId: number;
+  walletAddress: string;
+  voteType: "up" | "down";
+  votes?: number;
+  salt: string;
+}): Promise<ApiResponse<Vote>> {
+  return apiRequest("/vote/reveal", {
+    method: "POST",
+    body: JSON.stringify(reveal),
+  });
+}
+
+export async function getVoteCredits(
+  walletAddress: string,
+): Promise<ApiResponse<VoteCredits>> {
+  const params = new URLSearchParams({ walletAddress });
+  return apiRequest(`/vote/credits?${params}`);
+}
+
+export async function getVoteProof(
+  proposalId: number,
+  wallet: string,
+): Promise<ApiResponse<VoteMerkleProof & { txid: string }>> {
+  const params = new URLSearchParams({ wallet });
+  return apiRequest(`/proposals/${proposalId}/vote-proof?${params}`);
+}
+
 export async function getUserVotes(
   walletAddress: string,
   proposalId?: number,
@@ -100,3 +211,9 @@ export async function getLeaderboard(
 export async function getLatestBlock(): Promise<ApiResponse<BlockInfo>> {
   return apiRequest("/blocks/latest");
 }
+
+export async function getEngineState(): Promise<
+  ApiResponse<EngineState & { message?: string }>
+> {
+  return apiRequest("/status/engine");
+}
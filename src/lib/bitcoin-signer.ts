@@ -0,0 +1,36 @@
+/**
+ * Signs vote challenges with the UniSat browser extension, which produces
+ * BIP-322 signatures for segwit and taproot accounts.
+ */
+interface UnisatProvider {
+  requestAccounts(): Promise<string[]>;
+  signMessage(
+    message: string,
+    type?: "ecdsa" | "bip322-simple",
+  ): Promise<string>;
+}
+
+declare global {
+  interface Window {
+    unisat?: UnisatProvider;
+  }
+}
+
+function getProvider(): UnisatProvider {
+  if (typeof window === "undefined" || !window.unisat) {
+    throw new Error("Install the UniSat wallet to sign votes with Bitcoin");
+  }
+  return window.unisat;
+}
+
+export async function getBitcoinAddress(): Promise<string> {
+  const [address] = await getProvider().requestAccounts();
+  if (!address) {
+    throw new Error("No Bitcoin account selected in UniSat");
+  }
+  return address;
+}
+
+export async function signBitcoinMessage(message: string): Promise<string> {
+  return getProvider().signMessage(message, "bip322-simple");
+}
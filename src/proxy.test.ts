@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { proxy } from "./proxy";
+
+function voteRequest(forwardedFor: string, walletAddress: string) {
+  return new NextRequest("http://localhost/api/vote", {
+    method: "POST",
+    headers: { "x-forwarded-for": forwardedFor },
+    body: JSON.stringify({ walletAddress }),
+  });
+}
+
+describe("proxy", () => {
+  it("counts requests under the address the proxy appended", async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 31; i++) {
+      // Spoofed entries and wallets change on every request
+      const response = await proxy(
+        voteRequest(`10.0.0.${i}, 203.0.113.7`, `wallet-${i}`),
+      );
+      statuses.push(response.status);
+    }
+
+    expect(statuses.slice(0, 30).every((status) => status === 200)).toBe(true);
+    expect(statuses[30]).toBe(429);
+
+    const other = await proxy(voteRequest("203.0.113.8", "wallet-other"));
+    expect(other.status).toBe(200);
+  });
+
+  it("limits a single wallet across addresses", async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 11; i++) {
+      const response = await proxy(
+        voteRequest(`198.51.100.${i}`, "bc1qsamewallet"),
+      );
+      statuses.push(response.status);
+    }
+
+    expect(statuses.at(-1)).toBe(429);
+  });
+});
@@ -0,0 +1,104 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+const WINDOW_MS = 60000; // 1 minute
+const MAX_REQUESTS_PER_IP = 30;
+const MAX_REQUESTS_PER_WALLET = 10;
+const MAX_TRACKED_KEYS = 10000;
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Counters live in this server process, so each node enforces its own limit
+const windows = new Map<string, RateWindow>();
+
+/**
+ * Counts a request against `key` in the current fixed window. Returns the
+ * seconds until the window resets if the limit is exceeded.
+ */
+function hit(key: string, limit: number, now: number): number | null {
+  if (windows.size > MAX_TRACKED_KEYS) {
+    for (const [trackedKey, window] of windows) {
+      if (window.resetAt <= now) windows.delete(trackedKey);
+    }
+  }
+
+  let window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + WINDOW_MS };
+    windows.set(key, window);
+  }
+
+  window.count++;
+  return window.count > limit ? Math.ceil((window.resetAt - now) / 1000) : null;
+}
+
+/**
+ * The address our reverse proxy saw the request come from. Clients can send
+ * their own X-Forwarded-For, so only the right-most entry, appended by the
+ * proxy, is trusted.
+ */
+function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwardedFor?.at(-1) ?? request.headers.get("x-real-ip") ?? "unknown";
+}
+
+async function getWalletAddress(
+  request: NextRequest,
+): Promise<string | undefined> {
+  try {
+    const body = (await request.clone().json()) as {
+      walletAddress?: unknown;
+      delegatorAddress?: unknown;
+    };
+    const wallet = body.walletAddress ?? body.delegatorAddress;
+    return typeof wallet === "string" ? wallet : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rate limits writes to the vote, proposal, proposal edit and delegation
+ * routes per IP and per wallet. The wallet comes from the unverified body, so
+ * the IP limit is the one a client cannot sidestep.
+ */
+export async function proxy(request: NextRequest) {
+  if (request.method === "GET" || request.method === "HEAD") {
+    return NextResponse.next();
+  }
+
+  const now = Date.now();
+  const walletAddress = await getWalletAddress(request);
+  const retryAfter =
+    hit(`ip:${getClientIp(request)}`, MAX_REQUESTS_PER_IP, now) ??
+    (walletAddress
+      ? hit(`wallet:${walletAddress}`, MAX_REQUESTS_PER_WALLET, now)
+      : null);
+
+  if (retryAfter === null) {
+    return NextResponse.next();
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Too many requests, try again in ${retryAfter} seconds`,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } },
+  );
+}
+
+export const config = {
+  matcher: [
+    "/api/vote/:path*",
+    "/api/proposals",
+    "/api/proposals/:proposalId/revisions/:path*",
+    "/api/delegations/:path*",
+  ],
+};
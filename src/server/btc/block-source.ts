@@ -0,0 +1,35 @@
+import { env } from "~/env";
+import type { BlockInfo } from "~/types";
+import { esploraService } from "./esplora";
+import { simulatedBlockSource } from "./simulated";
+
+/**
+ * The chain the inscription engine follows. Production reads Esplora; the
+ * simulated source serves a scripted chain so the competition can be run end
+ * to end without a live node.
+ */
+export interface BlockSource {
+  readonly name: "esplora" | "simulated";
+  getCurrentBlockHeight(): Promise<number>;
+  getBlockByHeight(height: number): Promise<BlockInfo>;
+  getBlocksBatch(heights: number[]): Promise<BlockInfo[]>;
+  /** The serialized block, or null if the source has no transactions */
+  getRawBlock(hash: string): Promise<Buffer | null>;
+  getInputAddresses(txid: string): Promise<Array<string | null>>;
+}
+
+const esploraBlockSource: BlockSource = {
+  name: "esplora",
+  getCurrentBlockHeight: () => esploraService.getCurrentBlockHeight(),
+  getBlockByHeight: (height) => esploraService.getBlockByHeight(height),
+  getBlocksBatch: (heights) => esploraService.getBlocksBatch(heights),
+  getRawBlock: (hash) => esploraService.getRawBlock(hash),
+  getInputAddresses: (txid) => esploraService.getInputAddresses(txid),
+};
+
+/** Returns the block source selected by `BLOCK_SOURCE`. */
+export function getBlockSource(): BlockSource {
+  return env.BLOCK_SOURCE === "simulated"
+    ? simulatedBlockSource
+    : esploraBlockSource;
+}
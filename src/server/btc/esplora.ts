@@ -39,8 +39,17 @@ interface EsploraTransaction {
   fee: number;
 }
 
+interface EsploraTransactionInputs {
+  txid: string;
+  vin: Array<{
+    is_coinbase: boolean;
+    prevout: { scriptpubkey_address?: string } | null;
+  }>;
+}
+
 interface EsploraAddressStats {
   chain_stats: {
+    tx_count: number;
     funded_txo_sum: number;
     spent_txo_sum: number;
   };
@@ -50,6 +59,22 @@ interface EsploraAddressStats {
   };
 }
 
+interface EsploraAddressTransaction {
+  txid: string;
+  vin: Array<{
+    prevout: { scriptpubkey_address?: string; value: number } | null;
+  }>;
+  vout: Array<{ scriptpubkey_address?: string; value: number }>;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+  };
+}
+
+// Esplora pages confirmed address history 25 transactions at a time
+const ADDRESS_TXS_PAGE_SIZE = 25;
+const MAX_ADDRESS_TXS_PAGES = 40;
+
 interface TokenResponse {
   access_token: string;
   expires_in: number;
@@ -61,7 +86,9 @@ interface TokenResponse {
 }
 
 export class EsploraService {
-  private readonly enterpriseApiUrl: string;
+  private readonly apiUrl: string;
+  // Regtest nodes are reached through a local Esplora without authentication
+  private readonly authenticated: boolean;
   private readonly tokenUrl =
     "https://login.blockstream.com/realms/blockstream-public/protocol/openid-connect/token";
   private readonly clientId: string;
@@ -72,16 +99,19 @@ export class EsploraService {
   private tokenExpiresAt: number = 0;
 
   constructor() {
-    this.enterpriseApiUrl =
-      env.BITCOIN_NETWORK === "mainnet"
-        ? "https://enterprise.blockstream.info/api"
-        : "https://enterprise.blockstream.info/testnet/api";
+    this.authenticated = env.BITCOIN_NETWORK !== "regtest";
+    this.apiUrl =
+      env.BITCOIN_NETWORK === "regtest"
+        ? env.ESPLORA_API_URL
+        : env.BITCOIN_NETWORK === "mainnet"
+          ? "https://enterprise.blockstream.info/api"
+          : "https://enterprise.blockstream.info/testnet/api";
 
     this.clientId = env.ESPLORA_CLIENT_ID ?? "";
     this.clientSecret = env.ESPLORA_CLIENT_SECRET ?? "";
 
     this.axiosInstance = axios.create({
-      baseURL: this.enterpriseApiUrl,
+      baseURL: this.apiUrl,
       timeout: 10000,
       headers: {
         "Content-Type": "application/json",
@@ -89,6 +119,9 @@ export class EsploraService {
     });
 
     this.axiosInstance.interceptors.request.use(async (config) => {
+      if (!this.authenticated) {
+        return config;
+      }
       await this.ensureValidToken();
       if (this.accessToken) {
         config.headers.Authorization = `Bearer ${this.accessToken}`;
@@ -297,6 +330,40 @@ export class EsploraService {
     }
   }
 
+  /**
+   * Address each input of a transaction spends from, in input order; null
+   * for coinbase inputs and scripts without an address.
+   */
+  async getInputAddresses(txid: string): Promise<Array<string | null>> {
+    try {
+      const response = await this.axiosInstance.get<EsploraTransactionInputs>(
+        `/tx/${txid}`,
+      );
+      return response.data.vin.map((input) =>
+        input.is_coinbase
+          ? null
+          : (input.prevout?.scriptpubkey_address ?? null),
+      );
+    } catch (error) {
+      console.error(`Error fetching inputs of transaction ${txid}:`, error);
+      throw new Error(`Failed to fetch inputs of transaction ${txid}`);
+    }
+  }
+
+  /** The serialized block, so its transactions can be read in one request. */
+  async getRawBlock(hash: string): Promise<Buffer> {
+    try {
+      const response = await this.axiosInstance.get<ArrayBuffer>(
+        `/block/${hash}/raw`,
+        { responseType: "arraybuffer" },
+      );
+      return Buffer.from(response.data);
+    } catch (error) {
+      console.error(`Error fetching raw block ${hash}:`, error);
+      throw new Error(`Failed to fetch raw block ${hash}`);
+    }
+  }
+
   async isTransactionConfirmed(txid: string): Promise<boolean> {
     try {
       const tx = await this.getTransaction(txid);
@@ -328,8 +395,14 @@ export class EsploraService {
     }
   }
 
+  /**
+   * Balance of an address in sats. With `atHeight`, `confirmed` is the
+   * balance as of that block: the current confirmed balance with the effect
+   * of every later transaction undone, walking history newest first.
+   */
   async getAddressBalance(
     address: string,
+    atHeight?: number,
   ): Promise<{ confirmed: number; unconfirmed: number }> {
     try {
       const response = await this.axiosInstance.get<EsploraAddressStats>(
@@ -337,16 +410,108 @@ export class EsploraService {
       );
       const data = response.data;
 
-      return {
+      const balance = {
         confirmed:
           data.chain_stats.funded_txo_sum - data.chain_stats.spent_txo_sum,
         unconfirmed:
           data.mempool_stats.funded_txo_sum - data.mempool_stats.spent_txo_sum,
       };
+
+      if (atHeight !== undefined) {
+        balance.confirmed -= await this.getNetFlowAfter(address, atHeight);
+      }
+
+      return balance;
     } catch (error) {
       console.error(`Error fetching balance for address ${address}:`, error);
       throw new Error(`Failed to fetch balance for address ${address}`);
     }
   }
+
+  async getAddressTxCount(address: string): Promise<number> {
+    try {
+      const response = await this.axiosInstance.get<EsploraAddressStats>(
+        `/address/${address}`,
+      );
+      return response.data.chain_stats.tx_count;
+    } catch (error) {
+      console.error(`Error fetching stats for address ${address}:`, error);
+      throw new Error(`Failed to fetch stats for address ${address}`);
+    }
+  }
+
+  /**
+   * Height of the oldest confirmed transaction touching an address, or null
+   * if it has none. Walks the whole history, so only use it for addresses
+   * known to have few transactions.
+   */
+  async getFirstSeenHeight(address: string): Promise<number | null> {
+    let lastSeenTxid: string | undefined;
+    let oldestHeight: number | null = null;
+
+    for (let page = 0; page < MAX_ADDRESS_TXS_PAGES; page++) {
+      const response = await this.axiosInstance.get<
+        EsploraAddressTransaction[]
+      >(
+        `/address/${address}/txs/chain${lastSeenTxid ? `/${lastSeenTxid}` : ""}`,
+      );
+      const transactions = response.data;
+      const oldest = transactions[transactions.length - 1];
+      if (oldest?.status.block_height !== undefined) {
+        oldestHeight = oldest.status.block_height;
+      }
+
+      if (transactions.length < ADDRESS_TXS_PAGE_SIZE) {
+        return oldestHeight;
+      }
+      lastSeenTxid = oldest!.txid;
+    }
+
+    throw new Error(
+      `${address} has more than ${MAX_ADDRESS_TXS_PAGES * ADDRESS_TXS_PAGE_SIZE} transactions`,
+    );
+  }
+
+  /** Net sats received by an address in transactions confirmed after `height`. */
+  private async getNetFlowAfter(
+    address: string,
+    height: number,
+  ): Promise<number> {
+    let netFlow = 0;
+    let lastSeenTxid: string | undefined;
+
+    for (let page = 0; page < MAX_ADDRESS_TXS_PAGES; page++) {
+      const response = await this.axiosInstance.get<
+        EsploraAddressTransaction[]
+      >(
+        `/address/${address}/txs/chain${lastSeenTxid ? `/${lastSeenTxid}` : ""}`,
+      );
+      const transactions = response.data;
+
+      for (const tx of transactions) {
+        if ((tx.status.block_height ?? 0) <= height) {
+          return netFlow;
+        }
+
+        for (const output of tx.vout) {
+          if (output.scriptpubkey_address === address) netFlow += output.value;
+        }
+        for (const input of tx.vin) {
+          if (input.prevout?.scriptpubkey_address === address) {
+            netFlow -= input.prevout.value;
+          }
+        }
+      }
+
+      if (transactions.length < ADDRESS_TXS_PAGE_SIZE) {
+        return netFlow;
+      }
+      lastSeenTxid = transactions[transactions.length - 1]!.txid;
+    }
+
+    throw new Error(
+      `${address} has more than ${MAX_ADDRESS_TXS_PAGES * ADDRESS_TXS_PAGE_SIZE} transactions since block ${height}`,
+    );
+  }
 }
 export const esploraService = new EsploraService();
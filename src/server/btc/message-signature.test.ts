@@ -0,0 +1,119 @@
+import { createHash } from "crypto";
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "tiny-secp256k1";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("~/env", () => ({ env: { BITCOIN_NETWORK: "mainnet" } }));
+
+const { InvalidSignatureError, verifyMessageSignature } = await import(
+  "./message-signature"
+);
+
+// Test vectors from BIP-322
+const P2WPKH_ADDRESS = "bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l";
+const P2TR_ADDRESS =
+  "bc1ppv609nr0vr25u07u95waq5lucwfm6tde4nydujnu8npg4q75mr5sxq8lt3";
+const P2WPKH_EMPTY =
+  "AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=";
+const P2WPKH_HELLO =
+  "AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=";
+const P2TR_HELLO =
+  "AUHd69PrJQEv+oKTfZ8l+WROBHuy9HKrbFCJu7U1iK2iiEy1vMU5EfMtjc+VSHM7aU0SDbak5IUZRVno2P5mjSafAQ==";
+
+/** Signs like Bitcoin Core's signmessage, with a BIP-137 segwit header. */
+function signLegacy(privateKey: Buffer, message: string): string {
+  const body = Buffer.from(message, "utf8");
+  const sha256 = (data: Buffer) => createHash("sha256").update(data).digest();
+  const hash = sha256(
+    sha256(
+      Buffer.concat([
+        Buffer.from("\x18Bitcoin Signed Message:\n", "utf8"),
+        Buffer.from([body.length]),
+        body,
+      ]),
+    ),
+  );
+  const { signature, recoveryId } = ecc.signRecoverable(hash, privateKey);
+  return Buffer.concat([
+    Buffer.from([39 + recoveryId]),
+    Buffer.from(signature),
+  ]).toString("base64");
+}
+
+describe("verifyMessageSignature", () => {
+  it("accepts BIP-322 signatures from P2WPKH addresses", () => {
+    expect(verifyMessageSignature(P2WPKH_ADDRESS, "", P2WPKH_EMPTY)).toEqual({
+      addressType: "p2wpkh",
+      format: "bip322",
+    });
+    expect(
+      verifyMessageSignature(P2WPKH_ADDRESS, "Hello World", P2WPKH_HELLO),
+    ).toEqual({ addressType: "p2wpkh", format: "bip322" });
+  });
+
+  it("accepts BIP-322 signatures from taproot addresses", () => {
+    expect(
+      verifyMessageSignature(P2TR_ADDRESS, "Hello World", P2TR_HELLO),
+    ).toEqual({ addressType: "p2tr", format: "bip322" });
+  });
+
+  it("accepts legacy signmessage signatures from segwit addresses", () => {
+    const privateKey = Buffer.alloc(32, 1);
+    const pubkey = Buffer.from(ecc.pointFromScalar(privateKey, true)!);
+    const { address } = bitcoin.payments.p2wpkh({ pubkey });
+    const signature = signLegacy(privateKey, "Vote up 42");
+
+    expect(verifyMessageSignature(address!, "Vote up 42", signature)).toEqual({
+      addressType: "p2wpkh",
+      format: "legacy",
+    });
+    expect(() =>
+      verifyMessageSignature(address!, "Vote down 42", signature),
+    ).toThrow(InvalidSignatureError);
+  });
+
+  it("requires BIP-322 for taproot addresses", () => {
+    const signature = signLegacy(Buffer.alloc(32, 1), "Hello World");
+    expect(() =>
+      verifyMessageSignature(P2TR_ADDRESS, "Hello World", signature),
+    ).toThrow("Taproot addresses must sign with BIP-322");
+  });
+
+  it("rejects a signature over a different message", () => {
+    expect(() =>
+      verifyMessageSignature(P2WPKH_ADDRESS, "Hello World", P2WPKH_EMPTY),
+    ).toThrow(InvalidSignatureError);
+    expect(() =>
+      verifyMessageSignature(P2TR_ADDRESS, "Goodbye World", P2TR_HELLO),
+    ).toThrow("Signature does not match the address");
+  });
+
+  it("rejects a signature made by another address", () => {
+    expect(() =>
+      verifyMessageSignature(
+        "bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq",
+        "Hello World",
+        P2WPKH_HELLO,
+      ),
+    ).toThrow("Public key does not match the address");
+  });
+
+  it("rejects malformed signatures", () => {
+    expect(() =>
+      verifyMessageSignature(P2WPKH_ADDRESS, "Hello World", "AwE="),
+    ).toThrow(/Malformed BIP-322 signature/);
+    expect(() => verifyMessageSignature(P2WPKH_ADDRESS, "", "")).toThrow(
+      "Signature is not valid base64",
+    );
+  });
+
+  it("rejects addresses from another network", () => {
+    expect(() =>
+      verifyMessageSignature(
+        "tb1q9vza2e8x573nczrlzms0wvx3gsqjx7vayq3vkj",
+        "Hello World",
+        P2WPKH_HELLO,
+      ),
+    ).toThrow(InvalidSignatureError);
+  });
+});
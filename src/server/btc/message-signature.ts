@@ -0,0 +1,299 @@
+import { createHash } from "crypto";
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "tiny-secp256k1";
+import { env } from "~/env";
+
+bitcoin.initEccLib(ecc);
+
+export type SignedAddressType = "p2wpkh" | "p2tr" | "p2sh-p2wpkh";
+export type SignatureFormat = "bip322" | "legacy";
+
+export interface VerifiedSignature {
+  addressType: SignedAddressType;
+  format: SignatureFormat;
+}
+
+export class InvalidSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSignatureError";
+  }
+}
+
+const BIP322_TAG = "BIP0322-signed-message";
+const LEGACY_MESSAGE_PREFIX = "\x18Bitcoin Signed Message:\n";
+const { OP_0, OP_1, OP_HASH160, OP_RETURN } = bitcoin.opcodes as Record<
+  "OP_0" | "OP_1" | "OP_HASH160" | "OP_RETURN",
+  number
+>;
+
+export function getBitcoinNetwork(): bitcoin.Network {
+  if (env.BITCOIN_NETWORK === "regtest") {
+    return bitcoin.networks.regtest;
+  }
+  return env.BITCOIN_NETWORK === "mainnet"
+    ? bitcoin.networks.bitcoin
+    : bitcoin.networks.testnet;
+}
+
+/** Whether `address` is a valid address on the configured network. */
+export function isBitcoinAddress(address: string): boolean {
+  try {
+    bitcoin.address.toOutputScript(address, getBitcoinNetwork());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function sha256(data: Buffer): Buffer {
+  return createHash("sha256").update(data).digest();
+}
+
+function encodeVarInt(value: number): Buffer {
+  if (value < 0xfd) return Buffer.from([value]);
+  const buffer = Buffer.alloc(3);
+  buffer[0] = 0xfd;
+  buffer.writeUInt16LE(value, 1);
+  return buffer;
+}
+
+function bip322MessageHash(message: string): Buffer {
+  const tagHash = sha256(Buffer.from(BIP322_TAG, "utf8"));
+  return sha256(
+    Buffer.concat([tagHash, tagHash, Buffer.from(message, "utf8")]),
+  );
+}
+
+function legacyMessageHash(message: string): Buffer {
+  const body = Buffer.from(message, "utf8");
+  return sha256(
+    sha256(
+      Buffer.concat([
+        Buffer.from(LEGACY_MESSAGE_PREFIX, "utf8"),
+        encodeVarInt(body.length),
+        body,
+      ]),
+    ),
+  );
+}
+
+/** Reads a BIP-322 "simple" signature, which is a serialized witness stack. */
+function decodeWitness(data: Buffer): Buffer[] {
+  let offset = 0;
+  const readVarInt = () => {
+    const first = data[offset++];
+    if (first === undefined) throw new Error("Truncated witness");
+    if (first < 0xfd) return first;
+    if (first === 0xfd) {
+      const value = data.readUInt16LE(offset);
+      offset += 2;
+      return value;
+    }
+    throw new Error("Witness item too large");
+  };
+
+  const count = readVarInt();
+  const items: Buffer[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = readVarInt();
+    if (offset + length > data.length) throw new Error("Truncated witness");
+    items.push(data.subarray(offset, offset + length));
+    offset += length;
+  }
+  if (offset !== data.length) throw new Error("Trailing witness bytes");
+  return items;
+}
+
+function getAddressType(
+  address: string,
+  network: bitcoin.Network,
+): { type: SignedAddressType; outputScript: Buffer } {
+  let outputScript: Buffer;
+  try {
+    outputScript = bitcoin.address.toOutputScript(address, network);
+  } catch {
+    throw new InvalidSignatureError(
+      `${address} is not a valid ${env.BITCOIN_NETWORK} address`,
+    );
+  }
+
+  if (outputScript.length === 22 && outputScript[0] === OP_0) {
+    return { type: "p2wpkh", outputScript };
+  }
+  if (outputScript.length === 34 && outputScript[0] === OP_1) {
+    return { type: "p2tr", outputScript };
+  }
+  if (outputScript.length === 23 && outputScript[0] === OP_HASH160) {
+    // A P2SH address can wrap any script; the signature shows whether it is P2WPKH
+    return { type: "p2sh-p2wpkh", outputScript };
+  }
+  throw new InvalidSignatureError(
+    "Only P2WPKH, P2TR and P2SH-P2WPKH addresses can sign votes",
+  );
+}
+
+function nestedSegwitAddress(
+  pubkey: Buffer,
+  network: bitcoin.Network,
+): string | undefined {
+  return bitcoin.payments.p2sh({
+    redeem: bitcoin.payments.p2wpkh({ pubkey, network }),
+    network,
+  }).address;
+}
+
+/**
+ * Builds the BIP-322 to_sign transaction for a message and the spent output
+ * script, following the reference construction.
+ */
+function buildToSign(message: string, outputScript: Buffer) {
+  const toSpend = new bitcoin.Transaction();
+  toSpend.version = 0;
+  toSpend.addInput(
+    Buffer.alloc(32),
+    0xffffffff,
+    0,
+    bitcoin.script.compile([OP_0, bip322MessageHash(message)]),
+  );
+  toSpend.addOutput(outputScript, 0);
+
+  const toSign = new bitcoin.Transaction();
+  toSign.version = 0;
+  toSign.addInput(toSpend.getHash(), 0, 0);
+  toSign.addOutput(bitcoin.script.compile([OP_RETURN]), 0);
+  return toSign;
+}
+
+function verifyBip322(
+  address: string,
+  message: string,
+  witness: Buffer[],
+  network: bitcoin.Network,
+): VerifiedSignature {
+  const { type, outputScript } = getAddressType(address, network);
+  const toSign = buildToSign(message, outputScript);
+
+  if (type === "p2tr") {
+    const [signature] = witness;
+    if (witness.length !== 1 || !signature) {
+      throw new InvalidSignatureError(
+        "Taproot signatures must be a single key-path witness",
+      );
+    }
+    if (signature.length !== 64 && signature.length !== 65) {
+      throw new InvalidSignatureError("Invalid Schnorr signature length");
+    }
+    const hashType =
+      signature.length === 65
+        ? signature[64]!
+        : bitcoin.Transaction.SIGHASH_DEFAULT;
+    const sighash = toSign.hashForWitnessV1(0, [outputScript], [0], hashType);
+    const outputKey = outputScript.subarray(2);
+    if (!ecc.verifySchnorr(sighash, outputKey, signature.subarray(0, 64))) {
+      throw new InvalidSignatureError("Signature does not match the address");
+    }
+    return { addressType: type, format: "bip322" };
+  }
+
+  const [encodedSignature, pubkey] = witness;
+  if (witness.length !== 2 || !encodedSignature || !pubkey) {
+    throw new InvalidSignatureError(
+      "Segwit signatures must carry a signature and a public key",
+    );
+  }
+
+  const signerAddress =
+    type === "p2wpkh"
+      ? bitcoin.payments.p2wpkh({ pubkey, network }).address
+      : nestedSegwitAddress(pubkey, network);
+  if (signerAddress !== address) {
+    throw new InvalidSignatureError("Public key does not match the address");
+  }
+
+  const { signature, hashType } =
+    bitcoin.script.signature.decode(encodedSignature);
+  const scriptCode = bitcoin.payments.p2pkh({ pubkey }).output!;
+  const sighash = toSign.hashForWitnessV0(0, scriptCode, 0, hashType);
+  if (!ecc.verify(sighash, pubkey, signature)) {
+    throw new InvalidSignatureError("Signature does not match the address");
+  }
+  return { addressType: type, format: "bip322" };
+}
+
+/**
+ * Verifies a BIP-137 style compact signature. Wallets disagree on the header
+ * byte for segwit addresses, so the recovered key is matched against the
+ * address itself rather than the address type the header claims.
+ */
+function verifyLegacy(
+  address: string,
+  message: string,
+  signature: Buffer,
+  network: bitcoin.Network,
+): VerifiedSignature {
+  const { type } = getAddressType(address, network);
+  if (type === "p2tr") {
+    throw new InvalidSignatureError("Taproot addresses must sign with BIP-322");
+  }
+
+  const header = signature[0]!;
+  const recoveryId = (header - 27) & 3;
+  const pubkey = ecc.recover(
+    legacyMessageHash(message),
+    signature.subarray(1),
+    recoveryId as 0 | 1 | 2 | 3,
+    true,
+  );
+  if (!pubkey) {
+    throw new InvalidSignatureError("Could not recover a public key");
+  }
+
+  const signerAddress =
+    type === "p2wpkh"
+      ? bitcoin.payments.p2wpkh({ pubkey: Buffer.from(pubkey), network })
+          .address
+      : nestedSegwitAddress(Buffer.from(pubkey), network);
+  if (signerAddress !== address) {
+    throw new InvalidSignatureError("Signature does not match the address");
+  }
+  return { addressType: type, format: "legacy" };
+}
+
+/**
+ * Checks that `signature` (base64) signs `message` for `address`, accepting
+ * BIP-322 simple signatures and legacy signmessage signatures.
+ */
+export function verifyMessageSignature(
+  address: string,
+  message: string,
+  signature: string,
+): VerifiedSignature {
+  const network = getBitcoinNetwork();
+  const decoded = Buffer.from(signature, "base64");
+  if (decoded.length === 0) {
+    throw new InvalidSignatureError("Signature is not valid base64");
+  }
+
+  // Legacy signatures are 65 bytes with a 27-42 header; a witness starts with its item count
+  const header = decoded[0]!;
+  if (decoded.length === 65 && header >= 27 && header <= 42) {
+    return verifyLegacy(address, message, decoded, network);
+  }
+
+  let witness: Buffer[];
+  try {
+    witness = decodeWitness(decoded);
+  } catch (error) {
+    throw new InvalidSignatureError(
+      `Malformed BIP-322 signature: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  try {
+    return verifyBip322(address, message, witness, network);
+  } catch (error) {
+    if (error instanceof InvalidSignatureError) throw error;
+    throw new InvalidSignatureError("Malformed BIP-322 signature");
+  }
+}
@@ -0,0 +1,129 @@
+import { createHash } from "crypto";
+import { env } from "~/env";
+import type { BlockInfo } from "~/types";
+import type { BlockSource } from "./block-source";
+
+const BLOCK_INTERVAL_SECONDS = 600;
+const GENESIS_TIMESTAMP = 1700000000; // fixed so replays produce identical blocks
+
+/**
+ * An in-memory chain that only advances when told to. Block hashes derive
+ * from the seed, the height and the branch, so the same script of `mine` and
+ * `reorg` calls always yields the same blocks.
+ */
+export class SimulatedBlockSource implements BlockSource {
+  readonly name = "simulated" as const;
+  private chain: BlockInfo[] = [];
+  private branch = 0;
+
+  constructor(
+    private readonly startHeight: number,
+    private readonly seed: string,
+  ) {
+    this.reset();
+  }
+
+  /** Drops every mined block and starts again from the genesis block. */
+  reset() {
+    this.branch = 0;
+    this.chain = [this.buildBlock(this.startHeight, "0".repeat(64))];
+  }
+
+  /** Appends `count` blocks to the tip and returns them. */
+  mineBlocks(count = 1): BlockInfo[] {
+    const mined: BlockInfo[] = [];
+    for (let i = 0; i < count; i++) {
+      const tip = this.getTip();
+      const block = this.buildBlock(tip.height + 1, tip.id);
+      this.chain.push(block);
+      mined.push(block);
+    }
+    return mined;
+  }
+
+  /**
+   * Replaces the top `depth` blocks with `length` blocks on a new branch, as
+   * a competing miner would. The branch defaults to one block longer than the
+   * one it replaces, since a follower only switches to a longer chain, and
+   * can never be shorter.
+   */
+  reorg(depth: number, length = depth + 1): BlockInfo[] {
+    if (depth < 1 || depth >= this.chain.length) {
+      throw new Error(
+        `Cannot reorg ${depth} block(s) of a ${this.chain.length - 1} block simulated chain`,
+      );
+    }
+    if (length < depth) {
+      throw new Error(
+        `A reorg branch must be at least as long as the ${depth} block(s) it replaces`,
+      );
+    }
+
+    this.chain = this.chain.slice(0, this.chain.length - depth);
+    this.branch++;
+    return this.mineBlocks(length);
+  }
+
+  getTip(): BlockInfo {
+    return this.chain[this.chain.length - 1]!;
+  }
+
+  async getCurrentBlockHeight(): Promise<number> {
+    return this.getTip().height;
+  }
+
+  async getBlockByHeight(height: number): Promise<BlockInfo> {
+    const block = this.chain[height - this.startHeight];
+    if (!block) {
+      throw new Error(`Block ${height} is not part of the simulated chain`);
+    }
+    return block;
+  }
+
+  async getBlocksBatch(heights: number[]): Promise<BlockInfo[]> {
+    return Promise.all(heights.map((height) => this.getBlockByHeight(height)));
+  }
+
+  // Simulated blocks only hold a coinbase, so there are no votes to read
+  async getRawBlock(): Promise<Buffer | null> {
+    return null;
+  }
+
+  async getInputAddresses(): Promise<Array<string | null>> {
+    return [];
+  }
+
+  private buildBlock(height: number, previousblockhash: string): BlockInfo {
+    const id = createHash("sha256")
+      .update(`${this.seed}:${this.branch}:${height}:${previousblockhash}`)
+      .digest("hex");
+    const timestamp =
+      GENESIS_TIMESTAMP + (height - this.startHeight) * BLOCK_INTERVAL_SECONDS;
+
+    return {
+      id,
+      height,
+      version: 0x20000000,
+      timestamp,
+      tx_count: 1,
+      size: 285,
+      weight: 1140,
+      merkle_root: createHash("sha256").update(`coinbase:${id}`).digest("hex"),
+      previousblockhash,
+      mediantime: timestamp - BLOCK_INTERVAL_SECONDS * 5,
+      nonce: 0,
+      bits: 0x207fffff,
+      difficulty: 1,
+      extras: {
+        totalFees: 0,
+        medianFee: 0,
+        feeRange: [0, 0],
+      },
+    };
+  }
+}
+
+export const simulatedBlockSource = new SimulatedBlockSource(
+  parseInt(env.SIMULATION_START_HEIGHT),
+  env.SIMULATION_SEED,
+);
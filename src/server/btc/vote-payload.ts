@@ -0,0 +1,64 @@
+import * as bitcoin from "bitcoinjs-lib";
+
+/**
+ * On-chain votes are OP_RETURN outputs carrying `bitpill:v1:<proposalId>:<up|down>`
+ * as UTF-8, split over one or more pushes.
+ */
+export const ONCHAIN_VOTE_PREFIX = "bitpill:v1:";
+
+const VOTE_PAYLOAD = /^bitpill:v1:([1-9][0-9]{0,9}):(up|down)$/;
+const MAX_PROPOSAL_ID = 2147483647;
+const { OP_RETURN } = bitcoin.opcodes as Record<"OP_RETURN", number>;
+
+export interface VotePayload {
+  proposalId: number;
+  voteType: "up" | "down";
+}
+
+export interface BlockVote extends VotePayload {
+  txid: string;
+}
+
+/** Reads the vote an output script carries, or null if it carries none. */
+export function parseVoteScript(script: Buffer): VotePayload | null {
+  const chunks = bitcoin.script.decompile(script);
+  if (!chunks || chunks[0] !== OP_RETURN) {
+    return null;
+  }
+
+  const data = Buffer.concat(
+    chunks.slice(1).filter((chunk): chunk is Buffer => Buffer.isBuffer(chunk)),
+  );
+  const match = VOTE_PAYLOAD.exec(data.toString("utf8"));
+  if (!match) {
+    return null;
+  }
+
+  const proposalId = Number(match[1]);
+  if (proposalId > MAX_PROPOSAL_ID) {
+    return null;
+  }
+  return { proposalId, voteType: match[2] as VotePayload["voteType"] };
+}
+
+/**
+ * Votes in a serialized block, in block order. Each transaction casts at
+ * most one vote, from its first vote output.
+ */
+export function findBlockVotes(rawBlock: Buffer): BlockVote[] {
+  const block = bitcoin.Block.fromBuffer(rawBlock);
+  const found: BlockVote[] = [];
+
+  // The coinbase has no inputs to attribute a vote to
+  for (const tx of block.transactions?.slice(1) ?? []) {
+    for (const output of tx.outs) {
+      const vote = parseVoteScript(output.script);
+      if (vote) {
+        found.push({ txid: tx.getId(), ...vote });
+        break;
+      }
+    }
+  }
+
+  return found;
+}
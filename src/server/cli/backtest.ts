@@ -0,0 +1,129 @@
+/**
+ * Replays the recorded votes through the competition rules with a different
+ * ruleset and prints how every proposal would have ended up next to what
+ * actually happened.
+ *
+ *   pnpm backtest --defense-blocks 3 --reset-after-blocks-without-launch 10
+ *   pnpm backtest --ranking-strategy wilson --json
+ */
+import { parseArgs } from "util";
+import { db } from "../db";
+import { backtestService, type ProposalOutcome } from "../services/backtest";
+import { competitionRulesetSchema } from "../services/competition-config";
+import type { CompetitionRuleset } from "~/types";
+
+const { values } = parseArgs({
+  options: {
+    "proposal-lifetime-blocks": { type: "string" },
+    "defense-blocks": { type: "string" },
+    "reset-after-blocks-without-launch": { type: "string" },
+    "min-votes": { type: "string" },
+    "leader-expiration-blocks": { type: "string" },
+    "ranking-strategy": { type: "string" },
+    "winner-slots": { type: "string" },
+    // Only "count" changes the replay; recorded balance weights are not re-fetched
+    "voting-mode": { type: "string" },
+    json: { type: "boolean", default: false },
+  },
+});
+
+function toNumber(value: string | undefined) {
+  return value === undefined ? undefined : Number(value);
+}
+
+function formatOutcome(outcome: ProposalOutcome) {
+  return outcome.blockHeight === undefined
+    ? outcome.outcome
+    : `${outcome.outcome} @ ${outcome.blockHeight}`;
+}
+
+function printTable(rows: string[][]) {
+  const widths = rows[0]!.map((_, column) =>
+    Math.max(...rows.map((row) => row[column]!.length)),
+  );
+  for (const row of rows) {
+    console.log(
+      row.map((cell, column) => cell.padEnd(widths[column]!)).join("  "),
+    );
+  }
+}
+
+async function main() {
+  const overrides: Partial<CompetitionRuleset> = Object.fromEntries(
+    Object.entries({
+      proposalLifetimeBlocks: toNumber(values["proposal-lifetime-blocks"]),
+      defenseBlocks: toNumber(values["defense-blocks"]),
+      resetAfterBlocksWithoutLaunch: toNumber(
+        values["reset-after-blocks-without-launch"],
+      ),
+      minVotes: toNumber(values["min-votes"]),
+      leaderExpirationBlocks: toNumber(values["leader-expiration-blocks"]),
+      rankingStrategy: values["ranking-strategy"],
+      winnerSlots: toNumber(values["winner-slots"]),
+      votingMode: values["voting-mode"],
+    }).filter(([, value]) => value !== undefined),
+  );
+
+  const history = await backtestService.loadHistory();
+  if (history.blocks.length === 0) {
+    throw new Error("No processed blocks recorded, nothing to replay");
+  }
+
+  const report = backtestService.replay(
+    history,
+    competitionRulesetSchema.partial().parse(overrides),
+  );
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(
+    `Replayed blocks ${report.fromBlock}-${report.toBlock} with ${report.votesReplayed} vote(s)`,
+  );
+  console.log(
+    `Overrides: ${Object.keys(report.overrides).length > 0 ? JSON.stringify(report.overrides) : "none (recorded rules)"}\n`,
+  );
+
+  printTable([
+    ["ID", "TICKER", "ACTUAL", "BACKTEST", ""],
+    ...report.proposals.map((proposal) => [
+      String(proposal.proposalId),
+      proposal.ticker,
+      formatOutcome(proposal.actual),
+      formatOutcome(proposal.backtest),
+      proposal.actual.outcome !== proposal.backtest.outcome ||
+      proposal.actual.blockHeight !== proposal.backtest.blockHeight
+        ? "*"
+        : "",
+    ]),
+  ]);
+
+  const tickers = new Map(
+    report.proposals.map((proposal) => [proposal.proposalId, proposal.ticker]),
+  );
+  const formatWinners = (winners: typeof report.winners.actual) =>
+    winners
+      .map(
+        (winner) =>
+          `${tickers.get(winner.proposalId) ?? winner.proposalId} @ ${winner.blockHeight}`,
+      )
+      .join(", ") || "none";
+
+  console.log(`\nWinners (actual):   ${formatWinners(report.winners.actual)}`);
+  console.log(`Winners (backtest): ${formatWinners(report.winners.backtest)}`);
+  console.log(
+    `Resets (actual):    ${report.resets.actual.join(", ") || "none"}`,
+  );
+  console.log(
+    `Resets (backtest):  ${report.resets.backtest.join(", ") || "none"}`,
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("❌ Backtest failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$client.end());
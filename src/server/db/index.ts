@@ -12,3 +12,5 @@ const conn = globalForDb.conn ?? postgres(env.DATABASE_URL);
 if (env.NODE_ENV !== "production") globalForDb.conn = conn;
 
 export const db = drizzle(conn, { schema });
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -9,7 +9,20 @@ import {
   pgEnum,
   bigint,
   serial,
+  uniqueIndex,
+  jsonb,
+  doublePrecision,
 } from "drizzle-orm/pg-core";
+import type {
+  BalanceWeightCurve,
+  JobType,
+  LeaderboardSnapshotEntry,
+  ProposalEdit,
+  ProposalStatusActor,
+  RankingStrategyName,
+  VoteMerkleLeaf,
+  VotingMode,
+} from "~/types";
 
 export const createTable = pgTableCreator((name) => `bitmemes_${name}`);
 
@@ -34,6 +47,8 @@ export const users = createTable(
     twitter: varchar("twitter", { length: 50 }),
     telegram: varchar("telegram", { length: 50 }),
     bio: text("bio"),
+    // Set once the wallet meets the on-chain age or activity needed to vote
+    walletVerifiedAt: timestamp("wallet_verified_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .default(sql`CURRENT_TIMESTAMP`)
       .notNull(),
@@ -55,6 +70,9 @@ export const proposals = createTable(
     id: integer().primaryKey().generatedByDefaultAsIdentity(),
     name: varchar("name", { length: 50 }).notNull(),
     ticker: varchar("ticker", { length: 10 }).notNull(),
+    // Look-alike tickers share a skeleton; see tickerService.skeleton. It can
+    // be longer than the ticker, since decomposing splits some characters
+    tickerSkeleton: varchar("ticker_skeleton", { length: 64 }).notNull(),
     description: varchar("description", { length: 280 }).notNull(),
     website: text("website"),
     twitter: text("twitter"),
@@ -62,14 +80,20 @@ export const proposals = createTable(
     imageUrl: text("image_url").notNull(),
     bannerUrl: text("banner_url"),
     submittedBy: integer("submitted_by").references(() => users.id),
+    // Bitcoin address that signs edits, linked when the proposal is created
+    editorAddress: varchar("editor_address", { length: 62 }),
     votesUp: integer("votes_up").default(0).notNull(),
     votesDown: integer("votes_down").default(0).notNull(),
     totalVotes: integer("total_votes").default(0).notNull(),
+    // Sums of vote weights; equal to the counts while every vote weighs 1
+    weightUp: doublePrecision("weight_up").default(0).notNull(),
+    weightDown: doublePrecision("weight_down").default(0).notNull(),
     status: proposalStatusEnum("status").default("active").notNull(),
     firstTimeAsLeader: timestamp("first_time_as_leader", {
       withTimezone: true,
     }),
     leaderStartBlock: integer("leader_start_block"),
+    leaderSlot: integer("leader_slot"),
     leaderboardMinBlocks: integer("leaderboard_min_blocks")
       .default(1)
       .notNull(),
@@ -84,6 +108,7 @@ export const proposals = createTable(
   },
   (t) => [
     index("proposal_ticker_idx").on(t.ticker),
+    index("proposal_ticker_skeleton_idx").on(t.tickerSkeleton),
     index("proposal_status_idx").on(t.status),
     index("proposal_votes_idx").on(t.totalVotes),
     index("proposal_created_idx").on(t.createdAt),
@@ -92,6 +117,21 @@ export const proposals = createTable(
   ],
 );
 
+// Held votes are off the counters until an admin approves or rejects them
+export const voteStatusEnum = pgEnum("vote_status", [
+  "counted",
+  "held",
+  "rejected",
+]);
+
+// Where a vote came from: the web API, an OP_RETURN transaction or a curator
+export const voteSourceEnum = pgEnum("vote_source", [
+  "api",
+  "onchain",
+  "delegation",
+  "reveal",
+]);
+
 export const votes = createTable(
   "vote",
   {
@@ -103,14 +143,65 @@ export const votes = createTable(
       .references(() => proposals.id)
       .notNull(),
     voteType: voteTypeEnum("vote_type").notNull(),
+    weight: doublePrecision("weight").default(1).notNull(),
+    status: voteStatusEnum("status").default("counted").notNull(),
+    holdReason: text("hold_reason"),
+    reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+    // Curator whose vote this one follows; null for the user's own vote
+    delegateId: integer("delegate_id").references(() => users.id),
+    // Base64 signature over the vote challenge; null for votes cast before signing
+    signature: text("signature"),
+    source: voteSourceEnum("source").default("api").notNull(),
+    // Transaction carrying an on-chain vote
+    txid: varchar("txid", { length: 64 }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .default(sql`CURRENT_TIMESTAMP`)
       .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
   },
   (t) => [
     index("vote_user_idx").on(t.userId),
     index("vote_proposal_idx").on(t.proposalId),
-    index("vote_user_proposal_idx").on(t.userId, t.proposalId),
+    uniqueIndex("vote_user_proposal_idx").on(t.userId, t.proposalId),
+    index("vote_status_idx").on(t.status),
+    index("vote_proposal_delegate_idx").on(t.proposalId, t.delegateId),
+  ],
+);
+
+export const voteActionEnum = pgEnum("vote_action", [
+  "cast",
+  "change",
+  "retract",
+  "hold",
+  "release",
+  "reject",
+]);
+
+// Every cast, switch and retraction, so counters can be audited and replayed
+export const voteEvents = createTable(
+  "vote_event",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    proposalId: integer("proposal_id")
+      .references(() => proposals.id)
+      .notNull(),
+    action: voteActionEnum("action").notNull(),
+    fromType: voteTypeEnum("from_type"),
+    toType: voteTypeEnum("to_type"),
+    weight: doublePrecision("weight").default(1).notNull(),
+    delegateId: integer("delegate_id").references(() => users.id),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    index("vote_event_proposal_idx").on(t.proposalId),
+    index("vote_event_user_proposal_idx").on(t.userId, t.proposalId),
   ],
 );
 
@@ -133,6 +224,12 @@ export const inscriptions = createTable(
     orderStatus: varchar("order_status", { length: 50 }),
     paymentAddress: text("payment_address"),
     paymentAmount: bigint("payment_amount", { mode: "number" }),
+    paymentTxid: varchar("payment_txid", { length: 64 }),
+    slot: integer("slot").default(1).notNull(),
+    // Root of the vote Merkle tree committed in the inscription payload
+    voteMerkleRoot: varchar("vote_merkle_root", { length: 64 }),
+    // Leaves the root was built from, so proofs survive later vote changes
+    voteMerkleLeaves: jsonb("vote_merkle_leaves").$type<VoteMerkleLeaf[]>(),
     createdAt: timestamp("created_at", { withTimezone: true })
       .default(sql`CURRENT_TIMESTAMP`)
       .notNull(),
@@ -190,3 +287,416 @@ export const blockTracker = createTable(
     index("block_tracker_checked_idx").on(t.lastChecked),
   ],
 );
+
+export const processedBlocks = createTable(
+  "processed_block",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    height: integer("height").notNull(),
+    hash: varchar("hash", { length: 64 }).notNull(),
+    previousHash: varchar("previous_hash", { length: 64 }).notNull(),
+    blockTime: timestamp("block_time", { withTimezone: true }).notNull(),
+    consecutiveBlocksWithoutLaunches: integer(
+      "consecutive_blocks_without_launches",
+    )
+      .default(0)
+      .notNull(),
+    lastLaunchBlock: integer("last_launch_block"),
+    processedAt: timestamp("processed_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("processed_block_height_idx").on(t.height),
+    index("processed_block_hash_idx").on(t.hash),
+  ],
+);
+
+export const proposalStatusEvents = createTable(
+  "proposal_status_event",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    proposalId: integer("proposal_id")
+      .references(() => proposals.id)
+      .notNull(),
+    blockHeight: integer("block_height").notNull(),
+    fromStatus: proposalStatusEnum("from_status").notNull(),
+    toStatus: proposalStatusEnum("to_status").notNull(),
+    actor: varchar("actor", { length: 50 })
+      .$type<ProposalStatusActor>()
+      .default("engine")
+      .notNull(),
+    reason: text("reason"),
+    previousFirstTimeAsLeader: timestamp("previous_first_time_as_leader", {
+      withTimezone: true,
+    }),
+    previousLeaderStartBlock: integer("previous_leader_start_block"),
+    previousExpirationBlock: integer("previous_expiration_block"),
+    previousLeaderSlot: integer("previous_leader_slot"),
+    revertedAt: timestamp("reverted_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    index("proposal_status_event_block_idx").on(t.blockHeight),
+    index("proposal_status_event_proposal_idx").on(t.proposalId),
+  ],
+);
+
+export const competitionConfig = createTable(
+  "competition_config",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    effectiveFromBlock: integer("effective_from_block").notNull(),
+    proposalLifetimeBlocks: integer("proposal_lifetime_blocks").notNull(),
+    defenseBlocks: integer("defense_blocks").notNull(),
+    resetAfterBlocksWithoutLaunch: integer(
+      "reset_after_blocks_without_launch",
+    ).notNull(),
+    minVotes: integer("min_votes").notNull(),
+    leaderExpirationBlocks: integer("leader_expiration_blocks").notNull(),
+    rankingStrategy: varchar("ranking_strategy", { length: 20 })
+      .$type<RankingStrategyName>()
+      .default("net")
+      .notNull(),
+    winnerSlots: integer("winner_slots").default(1).notNull(),
+    votingMode: varchar("voting_mode", { length: 20 })
+      .$type<VotingMode>()
+      .default("count")
+      .notNull(),
+    balanceWeightCapSats: bigint("balance_weight_cap_sats", { mode: "number" })
+      .default(100000000)
+      .notNull(),
+    balanceWeightCurve: varchar("balance_weight_curve", { length: 20 })
+      .$type<BalanceWeightCurve>()
+      .default("sqrt")
+      .notNull(),
+    quadraticCreditsPerRound: integer("quadratic_credits_per_round")
+      .default(100)
+      .notNull(),
+    minWalletTxCount: integer("min_wallet_tx_count").default(2).notNull(),
+    minWalletAgeBlocks: integer("min_wallet_age_blocks").default(144).notNull(),
+    // 0 turns commit-reveal voting off
+    commitPhaseBlocks: integer("commit_phase_blocks").default(0).notNull(),
+    revealPhaseBlocks: integer("reveal_phase_blocks").default(1).notNull(),
+    proposalEditBlocks: integer("proposal_edit_blocks").default(6).notNull(),
+    reason: text("reason"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [index("competition_config_effective_idx").on(t.effectiveFromBlock)],
+);
+
+export const roundStatusEnum = pgEnum("round_status", ["open", "won", "reset"]);
+
+export const competitionRounds = createTable(
+  "competition_round",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    status: roundStatusEnum("status").default("open").notNull(),
+    startBlock: integer("start_block").notNull(),
+    endBlock: integer("end_block"),
+    participants: integer("participants").array().default([]).notNull(),
+    winnerProposalId: integer("winner_proposal_id").references(
+      () => proposals.id,
+    ),
+    // Every winner of the round ordered by slot; winnerProposalId holds slot 1
+    winnerProposalIds: integer("winner_proposal_ids")
+      .array()
+      .default([])
+      .notNull(),
+    resetReason: text("reset_reason"),
+    inscriptionId: integer("inscription_id").references(() => inscriptions.id),
+    pumpFunTokenId: integer("pump_fun_token_id").references(
+      () => pumpFunTokens.id,
+    ),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    index("competition_round_status_idx").on(t.status),
+    index("competition_round_start_idx").on(t.startBlock),
+    index("competition_round_winner_idx").on(t.winnerProposalId),
+  ],
+);
+
+export const leaderboardSnapshots = createTable(
+  "leaderboard_snapshot",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    blockHeight: integer("block_height").notNull(),
+    blockHash: varchar("block_hash", { length: 64 }).notNull(),
+    rankingStrategy: varchar("ranking_strategy", { length: 20 })
+      .$type<RankingStrategyName>()
+      .default("net")
+      .notNull(),
+    entries: jsonb("entries").$type<LeaderboardSnapshotEntry[]>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("leaderboard_snapshot_block_idx").on(
+      t.blockHeight,
+      t.blockHash,
+    ),
+  ],
+);
+
+export const serviceLeases = createTable("service_lease", {
+  name: varchar("name", { length: 50 }).primaryKey(),
+  holderId: varchar("holder_id", { length: 255 }).notNull(),
+  acquiredAt: timestamp("acquired_at", { withTimezone: true }).notNull(),
+  renewedAt: timestamp("renewed_at", { withTimezone: true }).notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+});
+
+export const engineModeEnum = pgEnum("engine_mode", [
+  "running",
+  "paused",
+  "maintenance",
+]);
+
+// Single row (id 1) holding the mode every engine node follows
+export const engineState = createTable("engine_state", {
+  id: integer().primaryKey(),
+  mode: engineModeEnum("mode").default("running").notNull(),
+  reason: text("reason"),
+  resumeAtBlock: integer("resume_at_block"),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .default(sql`CURRENT_TIMESTAMP`)
+    .notNull(),
+});
+
+export const jobStatusEnum = pgEnum("job_status", [
+  "pending",
+  "running",
+  "completed",
+  "dead",
+  "cancelled",
+]);
+
+export const jobs = createTable(
+  "job",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    type: varchar("type", { length: 50 }).$type<JobType>().notNull(),
+    idempotencyKey: varchar("idempotency_key", { length: 200 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: jobStatusEnum("status").default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(5).notNull(),
+    blockHeight: integer("block_height"),
+    runAt: timestamp("run_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    lockedAt: timestamp("locked_at", { withTimezone: true }),
+    lockedBy: varchar("locked_by", { length: 255 }),
+    lastError: text("last_error"),
+    result: jsonb("result").$type<Record<string, unknown>>(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("job_idempotency_key_idx").on(t.idempotencyKey),
+    index("job_status_run_at_idx").on(t.status, t.runAt),
+  ],
+);
+
+// Single-use challenges a wallet signs to cast a vote
+export const voteNonces = createTable(
+  "vote_nonce",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    nonce: varchar("nonce", { length: 64 }).notNull(),
+    walletAddress: varchar("wallet_address", { length: 90 }).notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    usedAt: timestamp("used_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("vote_nonce_nonce_idx").on(t.nonce),
+    index("vote_nonce_expires_idx").on(t.expiresAt),
+  ],
+);
+
+// Quadratic voting spends (positive) and refunds (negative) per wallet and round
+export const voteCreditLedger = createTable(
+  "vote_credit_ledger",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    roundId: integer("round_id")
+      .references(() => competitionRounds.id)
+      .notNull(),
+    proposalId: integer("proposal_id")
+      .references(() => proposals.id)
+      .notNull(),
+    // Votes the wallet holds on the proposal after this entry
+    votes: integer("votes").notNull(),
+    credits: integer("credits").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    index("vote_credit_user_round_idx").on(t.userId, t.roundId),
+    index("vote_credit_user_proposal_idx").on(t.userId, t.proposalId),
+  ],
+);
+
+// A wallet's signed grant of its voting power to a curator; a null round is
+// open-ended
+export const delegations = createTable(
+  "delegation",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    delegatorId: integer("delegator_id")
+      .references(() => users.id)
+      .notNull(),
+    delegateId: integer("delegate_id")
+      .references(() => users.id)
+      .notNull(),
+    roundId: integer("round_id").references(() => competitionRounds.id),
+    signature: text("signature").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  },
+  (t) => [
+    uniqueIndex("delegation_active_delegator_idx")
+      .on(t.delegatorId)
+      .where(sql`${t.revokedAt} IS NULL`),
+    index("delegation_delegate_idx").on(t.delegateId),
+  ],
+);
+
+// Hashed votes awaiting their reveal; one per wallet, proposal and reveal phase
+export const voteCommitments = createTable(
+  "vote_commitment",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    proposalId: integer("proposal_id")
+      .references(() => proposals.id)
+      .notNull(),
+    commitment: varchar("commitment", { length: 64 }).notNull(),
+    signature: text("signature").notNull(),
+    revealOpensAtBlock: integer("reveal_opens_at_block").notNull(),
+    revealClosesAtBlock: integer("reveal_closes_at_block").notNull(),
+    voteId: integer("vote_id").references(() => votes.id),
+    revealedAt: timestamp("revealed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("vote_commitment_user_proposal_phase_idx").on(
+      t.userId,
+      t.proposalId,
+      t.revealClosesAtBlock,
+    ),
+    index("vote_commitment_proposal_idx").on(t.proposalId),
+  ],
+);
+
+export const onchainVoteStatusEnum = pgEnum("onchain_vote_status", [
+  "applied",
+  "ignored",
+  "orphaned",
+]);
+
+// Every OP_RETURN vote found in a processed block, applied or not
+export const onchainVotes = createTable(
+  "onchain_vote",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    txid: varchar("txid", { length: 64 }).notNull(),
+    blockHeight: integer("block_height").notNull(),
+    blockHash: varchar("block_hash", { length: 64 }).notNull(),
+    walletAddress: varchar("wallet_address", { length: 90 }),
+    proposalId: integer("proposal_id").notNull(),
+    voteType: voteTypeEnum("vote_type").notNull(),
+    status: onchainVoteStatusEnum("status").notNull(),
+    reason: text("reason"),
+    voteId: integer("vote_id").references(() => votes.id),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("onchain_vote_tx_block_idx").on(t.txid, t.blockHash),
+    index("onchain_vote_height_idx").on(t.blockHeight),
+    index("onchain_vote_proposal_idx").on(t.proposalId),
+    index("onchain_vote_wallet_idx").on(t.walletAddress),
+  ],
+);
+
+// Corrections a submitter made to a proposal, with the values they replaced
+export const proposalRevisions = createTable(
+  "proposal_revision",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    proposalId: integer("proposal_id")
+      .references(() => proposals.id)
+      .notNull(),
+    revision: integer("revision").notNull(),
+    editedBy: integer("edited_by")
+      .references(() => users.id)
+      .notNull(),
+    blockHeight: integer("block_height").notNull(),
+    changes: jsonb("changes").$type<ProposalEdit>().notNull(),
+    previous: jsonb("previous").$type<ProposalEdit>().notNull(),
+    signature: text("signature").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("proposal_revision_proposal_revision_idx").on(
+      t.proposalId,
+      t.revision,
+    ),
+  ],
+);
+
+// Tickers of inscribed winners, which no later proposal may take or imitate
+export const reservedTickers = createTable(
+  "reserved_ticker",
+  {
+    id: integer().primaryKey().generatedByDefaultAsIdentity(),
+    ticker: varchar("ticker", { length: 10 }).notNull(),
+    skeleton: varchar("skeleton", { length: 64 }).notNull(),
+    proposalId: integer("proposal_id")
+      .references(() => proposals.id)
+      .notNull(),
+    reservedAt: timestamp("reserved_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("reserved_ticker_skeleton_idx").on(t.skeleton),
+    uniqueIndex("reserved_ticker_proposal_idx").on(t.proposalId),
+  ],
+);
@@ -1,5 +1,8 @@
 import { getInscriptionEngineInstance } from "./jobs/inscription-engine";
 import { getUnisatMonitorInstance } from "./jobs/unisat-monitor";
+import { getJobWorkerInstance } from "./jobs/job-worker";
+import { getVoteAnomalyMonitorInstance } from "./jobs/vote-anomaly-monitor";
+import { getVoteIntegrityMonitorInstance } from "./jobs/vote-integrity-monitor";
 
 declare global {
   var servicesInitialized: boolean;
@@ -9,6 +12,9 @@ if (!global.servicesInitialized) {
   console.log("🚀 Initializing Bitmemes background services...");
   getInscriptionEngineInstance();
   getUnisatMonitorInstance();
+  getJobWorkerInstance();
+  getVoteAnomalyMonitorInstance();
+  getVoteIntegrityMonitorInstance();
   global.servicesInitialized = true;
   console.log("✅ Background services initialized.");
 }
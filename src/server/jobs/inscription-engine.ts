@@ -1,17 +1,54 @@
-import { db } from "../db";
-import { proposals, inscriptions, blockTracker } from "../db/schema";
-import { eq, desc, sql } from "drizzle-orm";
-import { esploraService } from "../btc/esplora";
-import { inscriptionService } from "../services/inscription";
-import { pumpFunService } from "../services/pumpfun";
-import { env } from "~/env";
-import type { Proposal } from "~/types";
+import { db, type Transaction } from "../db";
+import {
+  proposals,
+  inscriptions,
+  blockTracker,
+  processedBlocks,
+  proposalStatusEvents,
+  competitionRounds,
+} from "../db/schema";
+import {
+  and,
+  eq,
+  desc,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  sql,
+} from "drizzle-orm";
+import { getBlockSource } from "../btc/block-source";
+import { competitionConfigService } from "../services/competition-config";
+import { competitionRoundService } from "../services/rounds";
+import { leaderboardSnapshotService } from "../services/leaderboard-snapshots";
+import { rankingService } from "../services/ranking";
+import { leaseService } from "../services/lease";
+import { jobQueueService } from "../services/job-queue";
+import { engineStateService } from "../services/engine-state";
+import { onchainVoteService } from "../services/onchain-votes";
+import {
+  proposalStatusService,
+  type ProposalStatusChanges,
+} from "../services/proposal-status";
+import type { BlockInfo, CompetitionRuleset } from "~/types";
 
 const POLLING_INTERVAL = 10000; // 10 seconds
+const CATCH_UP_INTERVAL = 1000; // 1 second between batches while behind
+const MAX_CATCH_UP_BLOCKS = 10; // blocks processed per tick while catching up
+const MAX_REORG_DEPTH = 20; // blocks we are willing to walk back to find a fork point
+const ENGINE_LEASE = "inscription-engine";
+
+type ProposalRow = typeof proposals.$inferSelect;
+type ProposalTransitionChanges = ProposalStatusChanges & {
+  status: ProposalRow["status"];
+};
 
 class InscriptionEngine {
   private isRunning = false;
   private timeout: NodeJS.Timeout | null = null;
+  private catchUpTarget: number | null = null;
+  private isLeader = false;
 
   constructor() {
     console.log("🚀 Inscription Engine initialized");
@@ -39,25 +76,83 @@ class InscriptionEngine {
       clearTimeout(this.timeout);
       this.timeout = null;
     }
+    if (this.isLeader) {
+      this.isLeader = false;
+      void leaseService
+        .release(ENGINE_LEASE)
+        .catch((error) =>
+          console.error("❌ Failed to release engine lease:", error),
+        );
+    }
+  }
+
+  /**
+   * Only the node holding the engine lease processes blocks; the others keep
+   * polling so one of them takes over if the holder stops renewing.
+   */
+  private async refreshLeadership(): Promise<boolean> {
+    const isLeader = await leaseService.tryAcquire(ENGINE_LEASE);
+    if (isLeader !== this.isLeader) {
+      console.log(
+        isLeader
+          ? `👑 Node ${leaseService.nodeId} acquired the inscription engine lease`
+          : `💤 Node ${leaseService.nodeId} lost the inscription engine lease, standing by`,
+      );
+    }
+    this.isLeader = isLeader;
+    return isLeader;
   }
 
   private async tick() {
     try {
-      await this.processLatestBlock();
+      if ((await this.refreshLeadership()) && (await this.isActive())) {
+        await this.processLatestBlock();
+      } else {
+        this.catchUpTarget = null;
+      }
     } catch (error) {
       console.error("❌ Error during tick:", error);
     }
 
     if (this.isRunning) {
-      this.timeout = setTimeout(() => this.tick(), POLLING_INTERVAL);
+      this.timeout = setTimeout(
+        () => this.tick(),
+        this.catchUpTarget ? CATCH_UP_INTERVAL : POLLING_INTERVAL,
+      );
+    }
+  }
+
+  /**
+   * Whether the persisted engine mode allows processing blocks. A pause with
+   * an auto-resume height is lifted here once the chain reaches it.
+   */
+  private async isActive(): Promise<boolean> {
+    const state = await engineStateService.getState();
+    if (state.mode === "running") {
+      return true;
+    }
+
+    if (state.resumeAtBlock !== undefined) {
+      const currentBlockHeight = await getBlockSource().getCurrentBlockHeight();
+      if (await engineStateService.resumeIfDue(currentBlockHeight)) {
+        console.log(
+          `▶️ Engine resumed automatically at block ${currentBlockHeight}`,
+        );
+        return true;
+      }
     }
+
+    console.log(
+      `⏸️ Engine ${state.mode}${state.reason ? ` (${state.reason})` : ""}, skipping block processing`,
+    );
+    return false;
   }
 
   async processLatestBlock() {
     console.log("🔍 Checking for new block...");
 
     try {
-      const currentBlockHeight = await esploraService.getCurrentBlockHeight();
+      const currentBlockHeight = await getBlockSource().getCurrentBlockHeight();
       const lastProcessed = await db
         .select()
         .from(blockTracker)
@@ -65,8 +160,10 @@ class InscriptionEngine {
         .limit(1);
 
       let lastProcessedHeight = 0;
+      let lastProcessedHash: string | null = null;
       if (lastProcessed.length > 0 && lastProcessed[0]) {
         lastProcessedHeight = lastProcessed[0].lastProcessedBlock;
+        lastProcessedHash = lastProcessed[0].lastProcessedHash;
       }
 
       if (lastProcessedHeight === 0) {
@@ -74,8 +171,11 @@ class InscriptionEngine {
         console.log(
           `🌱 First run. Initializing block tracker to current height: ${currentBlockHeight}`,
         );
-        await this.updateBlockTracker(currentBlockHeight);
+        const currentBlock =
+          await getBlockSource().getBlockByHeight(currentBlockHeight);
+        await this.commitProcessedBlock(currentBlock);
         lastProcessedHeight = currentBlockHeight;
+        lastProcessedHash = currentBlock.id;
       }
 
       console.log(
@@ -83,19 +183,75 @@ class InscriptionEngine {
       );
 
       if (currentBlockHeight > lastProcessedHeight) {
-        const nextBlockToProcess = lastProcessedHeight + 1;
-        console.log(`🧱 Processing block ${nextBlockToProcess}...`);
-        try {
-          await this.processBlock(nextBlockToProcess);
-          await this.updateBlockTracker(nextBlockToProcess);
-          console.log(`✅ Block ${nextBlockToProcess} processed successfully`);
-        } catch (error) {
-          console.error(
-            `❌ Error processing block ${nextBlockToProcess}:`,
-            error,
+        const blocksBehind = currentBlockHeight - lastProcessedHeight;
+        const batchSize = Math.min(blocksBehind, MAX_CATCH_UP_BLOCKS);
+        const heights = Array.from(
+          { length: batchSize },
+          (_, i) => lastProcessedHeight + 1 + i,
+        );
+
+        if (blocksBehind > 1) {
+          this.catchUpTarget = currentBlockHeight;
+          console.log(
+            `🏃 Catching up: ${blocksBehind} blocks behind, processing ${heights[0]}-${heights[heights.length - 1]}`,
           );
         }
+
+        const blocks = await getBlockSource().getBlocksBatch(heights);
+        let parentHash = lastProcessedHash;
+
+        // Blocks must be applied strictly in order, so stop at the first failure
+        for (const block of blocks) {
+          // A slow batch can outlive the lease, so confirm it before every block
+          if (!(await this.refreshLeadership())) {
+            return;
+          }
+
+          console.log(`🧱 Processing block ${block.height}...`);
+
+          if (parentHash && block.previousblockhash !== parentHash) {
+            console.warn(
+              `⚠️ REORG DETECTED at block ${block.height}: expected parent ${parentHash}, got ${block.previousblockhash}`,
+            );
+            await this.handleReorg(block.height - 1);
+            return;
+          }
+
+          try {
+            await this.processBlock(block);
+            await this.commitProcessedBlock(block);
+            parentHash = block.id;
+            console.log(`✅ Block ${block.height} processed successfully`);
+          } catch (error) {
+            console.error(`❌ Error processing block ${block.height}:`, error);
+            return;
+          }
+        }
+
+        const processedHeight = lastProcessedHeight + blocks.length;
+        if (processedHeight >= currentBlockHeight) {
+          if (this.catchUpTarget) {
+            console.log(
+              `🏁 Caught up to chain tip at block ${processedHeight}`,
+            );
+          }
+          this.catchUpTarget = null;
+        }
+      } else if (currentBlockHeight < lastProcessedHeight) {
+        // A lagging backend reports an older tip; it is not a reorg
+        console.log(
+          `⏳ Chain tip ${currentBlockHeight} is behind processed block ${lastProcessedHeight}; waiting`,
+        );
       } else {
+        // A reorg to a branch of the same length leaves the height unchanged
+        const tip = await getBlockSource().getBlockByHeight(currentBlockHeight);
+        if (lastProcessedHash && tip.id !== lastProcessedHash) {
+          console.warn(
+            `⚠️ REORG DETECTED at block ${tip.height}: expected ${lastProcessedHash}, got ${tip.id}`,
+          );
+          await this.handleReorg(tip.height);
+          return;
+        }
         console.log("⛓️ No new blocks to process.");
       }
     } catch (error) {
@@ -103,231 +259,289 @@ class InscriptionEngine {
     }
   }
 
-  async processBlock(blockHeight: number) {
-    const block = await esploraService.getBlockByHeight(blockHeight);
+  async processBlock(block: BlockInfo) {
+    const blockHeight = block.height;
     console.log(`📋 Block ${blockHeight} hash: ${block.id}`);
 
     // let launchOccurred = false;
 
+    const rules =
+      await competitionConfigService.getEffectiveConfig(blockHeight);
+    const round = await competitionRoundService.getOrOpenRound(blockHeight);
+
+    // Votes mined in this block count before leadership is evaluated
+    await onchainVoteService.processBlock(block, rules);
+
     // Check for competition reset before processing proposals
     const blockTrackerData = await this.getOrCreateBlockTracker();
     const consecutiveBlocks =
       blockTrackerData.consecutiveBlocksWithoutLaunches + 1;
 
-    if (consecutiveBlocks >= 5) {
+    if (consecutiveBlocks >= rules.resetAfterBlocksWithoutLaunch) {
       console.log(
-        `🔄 COMPETITION RESET: 5 consecutive blocks without a launch`,
+        `🔄 COMPETITION RESET: ${rules.resetAfterBlocksWithoutLaunch} consecutive blocks without a launch`,
       );
-      await this.resetCompetition(
-        "5 consecutive blocks without a successful launch",
+      const resetReason = `${rules.resetAfterBlocksWithoutLaunch} consecutive blocks without a successful launch`;
+      await this.resetCompetition(resetReason, blockHeight);
+      await competitionRoundService.closeWithReset(
+        round.id,
+        blockHeight,
+        resetReason,
       );
-      await this.updateBlockTracker(blockHeight, 0, blockHeight);
+      await this.updateLaunchCounters(0, blockHeight);
       return; // Stop processing this block after reset
     }
 
-    await this.expireOldProposals(blockHeight);
-    const topProposal = await db
+    await this.expireOldProposals(blockHeight, rules);
+
+    const contenders = await db
+      .select({ id: proposals.id })
+      .from(proposals)
+      .where(sql`${proposals.status} IN ('active', 'leader')`);
+    await competitionRoundService.addParticipants(
+      round,
+      contenders.map((contender) => contender.id),
+    );
+
+    // Each of the top `winnerSlots` proposals competes for its own slot
+    const slotHolders = await db
       .select()
       .from(proposals)
       .where(sql`${proposals.status} IN ('active', 'leader')`)
-      .orderBy(desc(proposals.totalVotes))
-      .limit(1);
-
-    if (topProposal.length === 0) {
+      .orderBy(
+        ...rankingService.orderBy(
+          rankingService.getStrategy(rules.rankingStrategy),
+          { blockHeight },
+        ),
+      )
+      .limit(rules.winnerSlots);
+
+    if (slotHolders.length === 0) {
       console.log("📝 No active or leader proposals found");
       // If no proposals, just update the block tracker with incremented counter
-      await this.updateBlockTracker(blockHeight, consecutiveBlocks);
+      await this.updateLaunchCounters(consecutiveBlocks);
+      return;
+    }
+
+    await this.handleLeadershipChanges(slotHolders, blockHeight, rules);
+
+    const winners: Array<{ proposal: ProposalRow; slot: number }> = [];
+    // Only blocks where every slot is being defended count towards a reset,
+    // as crowning a leader or waiting for votes did with a single slot
+    let countsTowardsReset = true;
+
+    for (const [index, proposal] of slotHolders.entries()) {
+      const slot = index + 1;
+      const outcome = await this.processSlot(
+        proposal,
+        slot,
+        blockHeight,
+        rules,
+      );
+
+      if (outcome === "won") {
+        winners.push({ proposal, slot });
+      } else if (outcome !== "defending") {
+        countsTowardsReset = false;
+      }
+    }
+
+    if (winners.length === 0) {
+      if (countsTowardsReset) {
+        await this.updateLaunchCounters(consecutiveBlocks);
+      }
       return;
     }
 
-    const currentWinner = topProposal[0]!;
+    // Reset consecutive blocks counter since we're launching something
+    await this.updateLaunchCounters(0, blockHeight);
 
-    await this.handleLeadershipChanges(currentWinner, blockHeight);
-    // const existingInscription = await db
-    //   .select()
-    //   .from(inscriptions)
-    //   .where(eq(inscriptions.proposalId, currentWinner.id))
-    //   .limit(1);
+    const launched: number[] = [];
+    for (const { proposal, slot } of winners) {
+      if (await this.launchWinner(proposal, slot, block, round.id)) {
+        launched.push(proposal.id);
+      }
+    }
 
-    // if (existingInscription.length > 0) {
-    //   console.log(
-    //     `🔄 Proposal ${currentWinner.ticker} already has inscription in progress`,
-    //   );
-    //   return;
-    // }
+    if (launched.length === 0) {
+      return;
+    }
+
+    await competitionRoundService.closeWithWinners(
+      round.id,
+      blockHeight,
+      launched,
+    );
+    // The next leaders are crowned in this same block, so they belong to a new round
+    await competitionRoundService.getOrOpenRound(blockHeight);
+    await this.assignNextLeaders(blockHeight, rules);
+  }
 
-    const minVotes = 1;
-    if (currentWinner.totalVotes < minVotes) {
+  /**
+   * Advances one winner slot: crowns the proposal ranked in it, or counts the
+   * blocks its leader has defended. A leader that moves to another slot
+   * within the top `winnerSlots` keeps its defense count.
+   */
+  private async processSlot(
+    proposal: ProposalRow,
+    slot: number,
+    blockHeight: number,
+    rules: CompetitionRuleset,
+  ): Promise<"insufficient-votes" | "crowned" | "defending" | "won"> {
+    // Downvotes must not help a proposal qualify, so only upvotes count
+    const minVotes = rules.minVotes;
+    if (proposal.votesUp < minVotes) {
       console.log(
-        `📊 Proposal ${currentWinner.ticker} has insufficient votes (${currentWinner.totalVotes}/${minVotes})`,
+        `📊 Proposal ${proposal.ticker} in slot ${slot} has insufficient upvotes (${proposal.votesUp}/${minVotes})`,
       );
-      return;
+      return "insufficient-votes";
     }
 
     console.log(
-      `🏆 Current leader: ${currentWinner.name} (${currentWinner.ticker}) with ${currentWinner.totalVotes} votes`,
+      `🏆 Slot ${slot} leader: ${proposal.name} (${proposal.ticker}) with ${proposal.votesUp} upvotes`,
     );
 
     // First time becoming leader - start the waiting period
-    if (!currentWinner.firstTimeAsLeader) {
+    if (!proposal.firstTimeAsLeader) {
       console.log(
-        `🎯 New champion detected! ${currentWinner.ticker} takes the crown!`,
+        `🎯 New champion detected! ${proposal.ticker} takes slot ${slot}!`,
       );
 
-      await db
-        .update(proposals)
-        .set({
+      await this.transitionProposal(
+        proposal,
+        blockHeight,
+        {
           status: "leader",
           firstTimeAsLeader: new Date(),
           leaderStartBlock: blockHeight,
-          leaderboardMinBlocks: 1,
-          expirationBlock: blockHeight + 5,
-          updatedAt: new Date(),
-        })
-        .where(eq(proposals.id, currentWinner.id));
+          leaderSlot: slot,
+          leaderboardMinBlocks: rules.defenseBlocks,
+          expirationBlock: blockHeight + rules.leaderExpirationBlocks,
+        },
+        slot === 1 ? "Took first place" : `Took winner slot ${slot}`,
+      );
 
       console.log(
-        `⏰ ${currentWinner.ticker} must maintain #1 position for 1 block to earn inscription (started at block ${blockHeight})`,
+        `⏰ ${proposal.ticker} must stay in the top ${rules.winnerSlots} for ${rules.defenseBlocks} block(s) to earn inscription (started at block ${blockHeight})`,
       );
-      return;
+      return "crowned";
+    }
+
+    if (proposal.leaderSlot !== slot) {
+      await db
+        .update(proposals)
+        .set({ leaderSlot: slot, updatedAt: new Date() })
+        .where(eq(proposals.id, proposal.id));
+      proposal.leaderSlot = slot;
     }
 
     // Calculate blocks defended (not including the block they became leader)
     const blocksDefended = await this.getBlocksDefended(
-      { leaderStartBlock: currentWinner.leaderStartBlock },
+      { leaderStartBlock: proposal.leaderStartBlock },
       blockHeight,
     );
 
-    if (blocksDefended < 1) {
+    if (blocksDefended < rules.defenseBlocks) {
       console.log(
-        `⏳ ${currentWinner.ticker} defending leadership: ${blocksDefended}/1 block defended (leader since block ${currentWinner.leaderStartBlock})`,
+        `⏳ ${proposal.ticker} defending slot ${slot}: ${blocksDefended}/${rules.defenseBlocks} block(s) defended (leader since block ${proposal.leaderStartBlock})`,
       );
-      // No launch, so update tracker with incremented counter
-      await this.updateBlockTracker(blockHeight, consecutiveBlocks);
-      return;
+      return "defending";
     }
 
     console.log(
-      `🎉 INSCRIPTION READY! ${currentWinner.ticker} has successfully defended #1 position for ${blocksDefended} blocks!`,
+      `🎉 INSCRIPTION READY! ${proposal.ticker} has successfully defended slot ${slot} for ${blocksDefended} blocks!`,
     );
+    return "won";
+  }
 
-    // Reset consecutive blocks counter since we're launching something
-    await this.updateBlockTracker(blockHeight, 0, blockHeight);
-    // launchOccurred = true;
+  /**
+   * Moves a slot winner to inscribing and queues its inscription and token
+   * launch. Returns false when the jobs could not be queued, in which case
+   * the proposal goes back into the competition.
+   */
+  private async launchWinner(
+    winner: ProposalRow,
+    slot: number,
+    block: BlockInfo,
+    roundId: number,
+  ): Promise<boolean> {
+    const blockHeight = block.height;
 
     try {
-      const proposalForPumpFun: Proposal = {
-        ...currentWinner,
-        website: currentWinner.website ?? undefined,
-        twitter: currentWinner.twitter ?? undefined,
-        telegram: currentWinner.telegram ?? undefined,
-        bannerUrl: currentWinner.bannerUrl ?? undefined,
-        submittedBy: currentWinner.submittedBy ?? undefined,
-        firstTimeAsLeader: currentWinner.firstTimeAsLeader?.toISOString(),
-        leaderStartBlock: currentWinner.leaderStartBlock ?? undefined,
-        expirationBlock: currentWinner.expirationBlock ?? undefined,
-        createdAt: currentWinner.createdAt.toISOString(),
-        updatedAt: currentWinner.updatedAt.toISOString(),
-      };
-      void pumpFunService.createToken(proposalForPumpFun);
-
-      const proposalForInscription = {
-        ...currentWinner,
-        website: currentWinner.website ?? undefined,
-        twitter: currentWinner.twitter ?? undefined,
-        telegram: currentWinner.telegram ?? undefined,
-        bannerUrl: currentWinner.bannerUrl ?? undefined,
-        submittedBy: currentWinner.submittedBy ?? undefined,
-        firstTimeAsLeader: currentWinner.firstTimeAsLeader?.toISOString(),
-        leaderStartBlock: currentWinner.leaderStartBlock ?? undefined,
-        leaderboardMinBlocks: currentWinner.leaderboardMinBlocks,
-        expirationBlock: currentWinner.expirationBlock ?? undefined,
-        createdAt: currentWinner.createdAt.toISOString(),
-        updatedAt: currentWinner.updatedAt.toISOString(),
-      };
-
-      await db
-        .update(proposals)
-        .set({
-          status: "inscribing",
-          updatedAt: new Date(),
-        })
-        .where(eq(proposals.id, currentWinner.id));
-
-      console.log(
-        `🎯 Starting Bitcoin inscription for champion: ${currentWinner.ticker}...`,
-      );
-
-      const inscriptionBlockHeight = blockHeight;
-
-      const inscriptionResult = await inscriptionService.inscribe(
-        proposalForInscription,
-        inscriptionBlockHeight,
+      const blocksDefended = await this.getBlocksDefended(winner, blockHeight);
+      await this.transitionProposal(
+        winner,
+        blockHeight,
+        { status: "inscribing", leaderSlot: slot },
+        slot === 1
+          ? `Defended first place for ${blocksDefended} block(s)`
+          : `Defended winner slot ${slot} for ${blocksDefended} block(s)`,
       );
 
       console.log(
-        `✅ Inscription initiated for ${currentWinner.ticker}: ${inscriptionResult.orderId}`,
+        `🎯 Queueing Bitcoin inscription and pump.fun launch for slot ${slot} champion: ${winner.ticker}...`,
       );
 
-      await db.insert(inscriptions).values({
-        proposalId: currentWinner.id,
-        blockHeight: inscriptionBlockHeight,
-        blockHash: block.id,
-        txid: inscriptionResult.txid || "pending",
-        inscriptionId: inscriptionResult.inscriptionId,
-        feeRate: env.INSCRIPTION_FEE_RATE
-          ? parseInt(env.INSCRIPTION_FEE_RATE)
-          : 15,
-        metadata: JSON.stringify({
-          project: "bitmemes",
-          type: "meme-coin-inscription",
-          coin: {
-            name: currentWinner.name,
-            ticker: currentWinner.ticker,
-            description: currentWinner.description,
-            votes: currentWinner.totalVotes,
-            website: `https://bitpill.fun/proposals/${currentWinner.id}`,
+      // Jobs are keyed by block hash so a reorged block gets fresh jobs;
+      // a proposal's token is still only minted once by the launch handler
+      await jobQueueService.enqueue(
+        "inscription.create",
+        {
+          proposalId: winner.id,
+          roundId,
+          blockHeight,
+          blockHash: block.id,
+          slot,
+        },
+        {
+          idempotencyKey: `inscription.create:${winner.id}:${block.id}`,
+          blockHeight,
+        },
+      );
+      // Synthetic blocks must never launch a real token
+      if (getBlockSource().name !== "simulated") {
+        await jobQueueService.enqueue(
+          "pumpfun.launch",
+          { proposalId: winner.id, roundId, slot },
+          {
+            idempotencyKey: `pumpfun.launch:${winner.id}:${block.id}`,
+            blockHeight,
           },
-        }),
-        unisatOrderId: inscriptionResult.orderId,
-        orderStatus: "pending",
-        paymentAddress: inscriptionResult.payAddress,
-        paymentAmount: inscriptionResult.paymentAmount,
-      });
+        );
+      }
 
-      console.log(
-        `📝 Inscription record created for champion proposal ${currentWinner.id}`,
-      );
-      await this.assignNextLeader(blockHeight);
+      return true;
     } catch (error) {
-      console.error(
-        `❌ Error inscribing proposal ${currentWinner.ticker}:`,
-        error,
-      );
+      console.error(`❌ Error inscribing proposal ${winner.ticker}:`, error);
 
-      await db
-        .update(proposals)
-        .set({
-          status: "active",
-          updatedAt: new Date(),
-        })
-        .where(eq(proposals.id, currentWinner.id));
+      await this.transitionProposal(
+        winner,
+        blockHeight,
+        { status: "active" },
+        `Could not queue inscription: ${error instanceof Error ? error.message : String(error)}`,
+      );
 
       console.log(
-        `🔄 Reset proposal ${currentWinner.ticker} status to active due to inscription error`,
+        `🔄 Reset proposal ${winner.ticker} status to active because its inscription could not be queued`,
       );
+      return false;
     }
   }
 
-  async handleLeadershipChanges(currentWinner: any, blockHeight: number) {
+  async handleLeadershipChanges(
+    slotHolders: ProposalRow[],
+    blockHeight: number,
+    rules: CompetitionRuleset,
+  ) {
     try {
+      const holderIds = new Set(slotHolders.map((holder) => holder.id));
       const currentLeaders = await db
         .select()
         .from(proposals)
         .where(eq(proposals.status, "leader"));
 
       const dethronedLeaders = currentLeaders.filter(
-        (leader) => leader.id !== currentWinner.id,
+        (leader) => !holderIds.has(leader.id),
       );
 
       if (dethronedLeaders.length > 0) {
@@ -341,24 +555,25 @@ class InscriptionEngine {
             : 0;
 
           console.log(
-            `❌ ${dethronedLeader.ticker} DETHRONED! Defended for ${blocksDefended} blocks (needed 1 to survive)`,
+            `❌ ${dethronedLeader.ticker} DETHRONED! Defended for ${blocksDefended} blocks (needed ${rules.defenseBlocks} to survive)`,
           );
 
-          await db
-            .update(proposals)
-            .set({
-              status: "expired",
-              updatedAt: new Date(),
-            })
-            .where(eq(proposals.id, dethronedLeader.id));
+          await this.transitionProposal(
+            dethronedLeader,
+            blockHeight,
+            { status: "expired", leaderSlot: null },
+            rules.winnerSlots === 1
+              ? `Dethroned by ${slotHolders[0]!.ticker} after defending ${blocksDefended} block(s)`
+              : `Pushed out of the top ${rules.winnerSlots} after defending ${blocksDefended} block(s)`,
+          );
 
           console.log(
-            `🗑️ ${dethronedLeader.ticker} eliminated from competition - failed to maintain #1 position`,
+            `🗑️ ${dethronedLeader.ticker} eliminated from competition - failed to maintain a winner slot`,
           );
         }
 
         console.log(
-          `🏆 ${currentWinner.ticker} is now the sole leader with ${currentWinner.totalVotes} votes!`,
+          `🏆 Winner slots now held by ${slotHolders.map((holder) => holder.ticker).join(", ")}`,
         );
       }
     } catch (error) {
@@ -366,35 +581,37 @@ class InscriptionEngine {
     }
   }
 
-  async expireOldProposals(currentBlockHeight: number) {
+  async expireOldProposals(
+    currentBlockHeight: number,
+    rules: CompetitionRuleset,
+  ) {
     try {
-      const fiveBlocksAgo = currentBlockHeight - 5;
+      const lifetimeStart = currentBlockHeight - rules.proposalLifetimeBlocks;
       const expiredProposals = await db
         .select()
         .from(proposals)
         .where(
           sql`${proposals.status} = 'active' AND ${
             proposals.creationBlock
-          } IS NOT NULL AND ${proposals.creationBlock} <= ${fiveBlocksAgo}`,
+          } IS NOT NULL AND ${proposals.creationBlock} <= ${lifetimeStart}`,
         );
 
       if (expiredProposals.length > 0) {
         console.log(
-          `⏰ Found ${expiredProposals.length} active proposals that are older than 5 blocks`,
+          `⏰ Found ${expiredProposals.length} active proposals that are older than ${rules.proposalLifetimeBlocks} blocks`,
         );
 
         for (const proposal of expiredProposals) {
           console.log(
-            `⏰ TIME'S UP! ${proposal.ticker} has been active for more than 5 blocks without becoming a leader.`,
+            `⏰ TIME'S UP! ${proposal.ticker} has been active for more than ${rules.proposalLifetimeBlocks} blocks without becoming a leader.`,
           );
 
-          await db
-            .update(proposals)
-            .set({
-              status: "expired",
-              updatedAt: new Date(),
-            })
-            .where(eq(proposals.id, proposal.id));
+          await this.transitionProposal(
+            proposal,
+            currentBlockHeight,
+            { status: "expired" },
+            `Did not become leader within ${rules.proposalLifetimeBlocks} blocks`,
+          );
 
           console.log(
             `❌ ${proposal.ticker} eliminated due to inactivity - competition window closed`,
@@ -435,7 +652,7 @@ class InscriptionEngine {
     }
 
     // If no tracker exists yet, start tracking from the CURRENT block height so we don't replay the entire Bitcoin history
-    const currentHeight = await esploraService.getCurrentBlockHeight();
+    const currentHeight = await getBlockSource().getCurrentBlockHeight();
 
     // Create initial tracker
     const [newTracker] = await db
@@ -452,51 +669,44 @@ class InscriptionEngine {
     return newTracker!;
   }
 
-  async updateBlockTracker(
-    blockHeight: number,
-    consecutiveBlocksWithoutLaunches?: number,
+  /**
+   * Records the launch counters while a block is still being processed; the
+   * block itself is only marked processed by `commitProcessedBlock`.
+   */
+  private async updateLaunchCounters(
+    consecutiveBlocksWithoutLaunches: number,
     lastLaunchBlock?: number,
   ) {
-    try {
-      const block = await esploraService.getBlockByHeight(blockHeight);
-      const existing = await db.select().from(blockTracker).limit(1);
-
-      const updateData: any = {
-        lastProcessedBlock: blockHeight,
-        lastProcessedHash: block.id,
+    const tracker = await this.getOrCreateBlockTracker();
+    await db
+      .update(blockTracker)
+      .set({
+        consecutiveBlocksWithoutLaunches,
+        ...(lastLaunchBlock !== undefined && { lastLaunchBlock }),
         lastChecked: new Date(),
-      };
-
-      if (consecutiveBlocksWithoutLaunches !== undefined) {
-        updateData.consecutiveBlocksWithoutLaunches =
-          consecutiveBlocksWithoutLaunches;
-      }
-
-      if (lastLaunchBlock !== undefined) {
-        updateData.lastLaunchBlock = lastLaunchBlock;
-      }
+      })
+      .where(eq(blockTracker.id, tracker.id));
+  }
 
-      if (existing.length > 0) {
-        await db
-          .update(blockTracker)
-          .set(updateData)
-          .where(eq(blockTracker.id, existing[0]!.id));
-      } else {
-        await db.insert(blockTracker).values({
-          lastProcessedBlock: blockHeight,
+  /**
+   * Marks `block` as processed. The tracker, the processed-block record and
+   * the leaderboard snapshot are written together, so a block is never
+   * considered done without its snapshot.
+   */
+  private async commitProcessedBlock(block: BlockInfo) {
+    const tracker = await this.getOrCreateBlockTracker();
+    await db.transaction(async (tx) => {
+      await tx
+        .update(blockTracker)
+        .set({
+          lastProcessedBlock: block.height,
           lastProcessedHash: block.id,
-          consecutiveBlocksWithoutLaunches:
-            consecutiveBlocksWithoutLaunches ?? 0,
-          lastLaunchBlock: lastLaunchBlock ?? null,
           lastChecked: new Date(),
-        });
-      }
-    } catch (error) {
-      console.error(
-        `❌ Error updating block tracker for ${blockHeight}:`,
-        error,
-      );
-    }
+        })
+        .where(eq(blockTracker.id, tracker.id));
+      await this.recordProcessedBlock(tx, block);
+      await leaderboardSnapshotService.recordSnapshot(block, tx);
+    });
   }
 
   async triggerManually() {
@@ -509,7 +719,7 @@ class InscriptionEngine {
 
   async getStatus() {
     try {
-      const currentBlockHeight = await esploraService.getCurrentBlockHeight();
+      const currentBlockHeight = await getBlockSource().getCurrentBlockHeight();
       const lastProcessed = await db
         .select()
         .from(blockTracker)
@@ -522,23 +732,37 @@ class InscriptionEngine {
 
       // Get current competition stats
       const competitionStats = await this.getCompetitionStats();
+      const rules =
+        await competitionConfigService.getEffectiveConfig(currentBlockHeight);
+      const lease = await leaseService.getLease(ENGINE_LEASE);
+      const state = await engineStateService.getState();
 
       return {
         isRunning: this.isRunning,
+        isLeader: this.isLeader,
+        nodeId: leaseService.nodeId,
+        lease,
+        state,
         currentBlock: currentBlockHeight,
         lastProcessedBlock,
         lastProcessedHash,
         lastChecked,
         blocksBehind: Math.max(0, currentBlockHeight - lastProcessedBlock),
+        isCatchingUp: this.catchUpTarget !== null,
+        catchUpTarget: this.catchUpTarget ?? undefined,
         competition: competitionStats,
+        rules,
       };
     } catch (error) {
       console.error("Error getting inscription engine status:", error);
       return {
         isRunning: this.isRunning,
+        isLeader: this.isLeader,
+        nodeId: leaseService.nodeId,
         currentBlock: 0,
         lastProcessedBlock: 0,
         blocksBehind: 0,
+        isCatchingUp: this.catchUpTarget !== null,
         error: String(error),
       };
     }
@@ -546,11 +770,12 @@ class InscriptionEngine {
 
   async getCompetitionStats() {
     try {
+      const { strategy, context } = await rankingService.getActiveRanking();
       const activeProposals = await db
         .select()
         .from(proposals)
         .where(sql`${proposals.status} IN ('active', 'leader')`)
-        .orderBy(desc(proposals.totalVotes));
+        .orderBy(...rankingService.orderBy(strategy, context));
 
       const leaderProposals = await db
         .select()
@@ -590,7 +815,7 @@ class InscriptionEngine {
               blocksDefended: activeProposals[0].leaderStartBlock
                 ? Math.max(
                     0,
-                    (await esploraService.getCurrentBlockHeight()) -
+                    (await getBlockSource().getCurrentBlockHeight()) -
                       activeProposals[0].leaderStartBlock,
                   )
                 : 0,
@@ -625,13 +850,10 @@ class InscriptionEngine {
 
       const proposalData = proposal[0]!;
 
-      await db
-        .update(proposals)
-        .set({
-          status: "expired",
-          updatedAt: new Date(),
-        })
-        .where(eq(proposals.id, proposalId));
+      await proposalStatusService.transition(proposalId, "expired", {
+        actor: "admin",
+        reason,
+      });
 
       console.log(
         `🔨 MANUAL ELIMINATION: ${proposalData.ticker} force-expired. Reason: ${reason}`,
@@ -647,19 +869,29 @@ class InscriptionEngine {
     }
   }
 
-  async resetCompetition(reason = "Competition reset") {
+  async resetCompetition(reason = "Competition reset", blockHeight?: number) {
     try {
-      await db
-        .update(proposals)
-        .set({
-          status: "active",
-          firstTimeAsLeader: null,
-          leaderStartBlock: null,
-          expirationBlock: null,
-          updatedAt: new Date(),
-        })
+      const resettable = await db
+        .select()
+        .from(proposals)
         .where(sql`${proposals.status} IN ('leader', 'expired')`);
 
+      // Block-driven resets come from the engine and can be undone by a reorg;
+      // resets without a block height are requested by an admin
+      for (const proposal of resettable) {
+        await proposalStatusService.transition(proposal.id, "active", {
+          actor: blockHeight === undefined ? "admin" : "engine",
+          reason,
+          blockHeight,
+          changes: {
+            firstTimeAsLeader: null,
+            leaderStartBlock: null,
+            leaderSlot: null,
+            expirationBlock: null,
+          },
+        });
+      }
+
       console.log(
         `🔄 COMPETITION RESET: All proposals reset to active. Reason: ${reason}`,
       );
@@ -674,41 +906,297 @@ class InscriptionEngine {
     }
   }
 
-  private async assignNextLeader(blockHeight: number) {
-    try {
-      const nextTop = await db
+  /**
+   * Applies a block-driven status change through the proposal state machine.
+   * Engine events keep the fields they overwrite, so the change can be undone
+   * if the block is orphaned.
+   */
+  private async transitionProposal(
+    proposal: ProposalRow,
+    blockHeight: number,
+    { status, ...changes }: ProposalTransitionChanges,
+    reason: string,
+  ) {
+    await proposalStatusService.transition(proposal.id, status, {
+      actor: "engine",
+      reason,
+      blockHeight,
+      changes,
+    });
+  }
+
+  private async recordProcessedBlock(tx: Transaction, block: BlockInfo) {
+    const [tracker] = await tx.select().from(blockTracker).limit(1);
+    const values = {
+      hash: block.id,
+      previousHash: block.previousblockhash,
+      blockTime: new Date(block.timestamp * 1000),
+      consecutiveBlocksWithoutLaunches:
+        tracker!.consecutiveBlocksWithoutLaunches,
+      lastLaunchBlock: tracker!.lastLaunchBlock,
+      processedAt: new Date(),
+    };
+
+    await tx
+      .insert(processedBlocks)
+      .values({ height: block.height, ...values })
+      .onConflictDoUpdate({ target: processedBlocks.height, set: values });
+  }
+
+  /**
+   * Walks back from the last processed block until our stored hash matches the
+   * canonical chain again, then rolls the competition state back to that block.
+   * The blocks of the new branch are picked up again by the regular tick.
+   */
+  async handleReorg(lastProcessedHeight: number) {
+    const forkHeight = await this.findForkPoint(lastProcessedHeight);
+    console.log(
+      `🔀 Fork point found at block ${forkHeight}. Rolling back ${lastProcessedHeight - forkHeight} orphaned block(s)...`,
+    );
+    await this.rollbackToHeight(forkHeight);
+  }
+
+  private async findForkPoint(fromHeight: number): Promise<number> {
+    for (
+      let height = fromHeight;
+      height > fromHeight - MAX_REORG_DEPTH;
+      height--
+    ) {
+      const stored = await db
         .select()
-        .from(proposals)
-        .where(eq(proposals.status, "active"))
-        .orderBy(desc(proposals.totalVotes))
+        .from(processedBlocks)
+        .where(eq(processedBlocks.height, height))
         .limit(1);
 
-      if (nextTop.length === 0) {
-        console.log("📝 No active proposals available to promote to leader");
-        return;
+      if (stored.length === 0) {
+        console.warn(
+          `⚠️ No stored hash for block ${height}, treating it as the fork point`,
+        );
+        return height;
       }
 
-      const newLeader = nextTop[0]!;
+      const canonicalBlock = await getBlockSource().getBlockByHeight(height);
+      if (canonicalBlock.id === stored[0]!.hash) {
+        return height;
+      }
 
-      await db
+      console.log(
+        `🪓 Block ${height} (${stored[0]!.hash}) is no longer on the main chain`,
+      );
+    }
+
+    throw new Error(
+      `Reorg deeper than ${MAX_REORG_DEPTH} blocks below ${fromHeight}, manual intervention required`,
+    );
+  }
+
+  private async rollbackToHeight(forkHeight: number) {
+    const forkBlock = await db
+      .select()
+      .from(processedBlocks)
+      .where(eq(processedBlocks.height, forkHeight))
+      .limit(1);
+    const canonicalForkHash =
+      forkBlock[0]?.hash ??
+      (await getBlockSource().getBlockByHeight(forkHeight)).id;
+
+    await db.transaction(async (tx) => {
+      const orphanedTransitions = await tx
+        .select()
+        .from(proposalStatusEvents)
+        .where(
+          and(
+            gt(proposalStatusEvents.blockHeight, forkHeight),
+            eq(proposalStatusEvents.actor, "engine"),
+            isNull(proposalStatusEvents.revertedAt),
+          ),
+        )
+        .orderBy(desc(proposalStatusEvents.id));
+
+      // Undo newest first so every proposal ends up in its pre-fork state. This
+      // restores recorded state rather than making a new transition, so it
+      // deliberately bypasses the status state machine; the events stay in
+      // the log marked as reverted
+      for (const transition of orphanedTransitions) {
+        await tx
+          .update(proposals)
+          .set({
+            status: transition.fromStatus,
+            firstTimeAsLeader: transition.previousFirstTimeAsLeader,
+            leaderStartBlock: transition.previousLeaderStartBlock,
+            expirationBlock: transition.previousExpirationBlock,
+            leaderSlot: transition.previousLeaderSlot,
+            updatedAt: new Date(),
+          })
+          .where(eq(proposals.id, transition.proposalId));
+
+        await tx
+          .update(proposalStatusEvents)
+          .set({ revertedAt: new Date() })
+          .where(eq(proposalStatusEvents.id, transition.id));
+      }
+
+      // Slot moves between leaders are not status changes, so drop slots
+      // left on proposals that no longer hold one; the next block reassigns
+      // the leaders' slots
+      await tx
         .update(proposals)
+        .set({ leaderSlot: null, updatedAt: new Date() })
+        .where(
+          and(
+            inArray(proposals.status, ["active", "expired"]),
+            isNotNull(proposals.leaderSlot),
+          ),
+        );
+
+      const orphanedInscriptions = await tx
+        .update(inscriptions)
+        .set({ orderStatus: "reorg_orphaned", updatedAt: new Date() })
+        .where(gt(inscriptions.blockHeight, forkHeight))
+        .returning();
+
+      for (const inscription of orphanedInscriptions) {
+        console.warn(
+          `⚠️ Inscription ${inscription.id} (order ${inscription.unisatOrderId}) was created on orphaned block ${inscription.blockHeight} and needs manual review`,
+        );
+      }
+
+      await tx
+        .delete(processedBlocks)
+        .where(gt(processedBlocks.height, forkHeight));
+
+      // Rounds opened on orphaned blocks never happened; rounds closed on them are still being played
+      await tx
+        .delete(competitionRounds)
+        .where(gt(competitionRounds.startBlock, forkHeight));
+      await tx
+        .update(competitionRounds)
         .set({
-          status: "leader",
-          firstTimeAsLeader: new Date(),
-          leaderStartBlock: blockHeight,
-          leaderboardMinBlocks: 1,
-          expirationBlock: blockHeight + 5,
+          status: "open",
+          endBlock: null,
+          winnerProposalId: null,
+          winnerProposalIds: [],
+          resetReason: null,
+          inscriptionId: null,
+          pumpFunTokenId: null,
           updatedAt: new Date(),
         })
-        .where(eq(proposals.id, newLeader.id));
+        .where(gt(competitionRounds.endBlock, forkHeight));
+
+      const tracker = await tx.select().from(blockTracker).limit(1);
+      if (tracker[0]) {
+        await tx
+          .update(blockTracker)
+          .set({
+            lastProcessedBlock: forkHeight,
+            lastProcessedHash: canonicalForkHash,
+            consecutiveBlocksWithoutLaunches:
+              forkBlock[0]?.consecutiveBlocksWithoutLaunches ??
+              tracker[0].consecutiveBlocksWithoutLaunches,
+            lastLaunchBlock:
+              forkBlock[0]?.lastLaunchBlock ?? tracker[0].lastLaunchBlock,
+            lastChecked: new Date(),
+          })
+          .where(eq(blockTracker.id, tracker[0].id));
+      }
+
+      console.log(
+        `⏪ Rolled back ${orphanedTransitions.length} proposal transition(s) and ${orphanedInscriptions.length} inscription(s) to block ${forkHeight}`,
+      );
+    });
 
-      await this.handleLeadershipChanges(newLeader, blockHeight);
+    const cancelledJobs =
+      await jobQueueService.cancelJobsAfterBlock(forkHeight);
+    if (cancelledJobs > 0) {
+      console.log(
+        `🚫 Cancelled ${cancelledJobs} queued job(s) created on orphaned blocks`,
+      );
+    }
 
+    const orphanedVotes = await onchainVoteService.rollbackAfter(forkHeight);
+    if (orphanedVotes > 0) {
       console.log(
-        `🎯 New leader selected for next block: ${newLeader.ticker} (${newLeader.totalVotes} votes)`,
+        `🚫 Orphaned ${orphanedVotes} on-chain vote(s) read from orphaned blocks`,
+      );
+    }
+  }
+
+  /**
+   * Fills the slots vacated by this block's winners with the best remaining
+   * active proposals, then renumbers every leader by rank.
+   */
+  private async assignNextLeaders(
+    blockHeight: number,
+    rules: CompetitionRuleset,
+  ) {
+    try {
+      const ranking = rankingService.orderBy(
+        rankingService.getStrategy(rules.rankingStrategy),
+        { blockHeight },
       );
+      const remainingLeaders = await db
+        .select({ id: proposals.id })
+        .from(proposals)
+        .where(eq(proposals.status, "leader"));
+      const openSlots = rules.winnerSlots - remainingLeaders.length;
+
+      if (openSlots <= 0) {
+        return;
+      }
+
+      // Only proposals that could be crowned in their own right qualify
+      const nextTop = await db
+        .select()
+        .from(proposals)
+        .where(
+          and(
+            eq(proposals.status, "active"),
+            gte(proposals.votesUp, rules.minVotes),
+          ),
+        )
+        .orderBy(...ranking)
+        .limit(openSlots);
+
+      if (nextTop.length === 0) {
+        console.log("📝 No active proposals available to promote to leader");
+        return;
+      }
+
+      for (const newLeader of nextTop) {
+        await this.transitionProposal(
+          newLeader,
+          blockHeight,
+          {
+            status: "leader",
+            firstTimeAsLeader: new Date(),
+            leaderStartBlock: blockHeight,
+            leaderboardMinBlocks: rules.defenseBlocks,
+            expirationBlock: blockHeight + rules.leaderExpirationBlocks,
+          },
+          "Promoted after the previous champion was inscribed",
+        );
+
+        console.log(
+          `🎯 New leader selected for next block: ${newLeader.ticker} (${newLeader.totalVotes} votes)`,
+        );
+      }
+
+      const leaders = await db
+        .select({ id: proposals.id, leaderSlot: proposals.leaderSlot })
+        .from(proposals)
+        .where(eq(proposals.status, "leader"))
+        .orderBy(...ranking);
+
+      for (const [index, leader] of leaders.entries()) {
+        if (leader.leaderSlot !== index + 1) {
+          await db
+            .update(proposals)
+            .set({ leaderSlot: index + 1, updatedAt: new Date() })
+            .where(eq(proposals.id, leader.id));
+        }
+      }
     } catch (error) {
-      console.error("❌ Error assigning next leader:", error);
+      console.error("❌ Error assigning next leaders:", error);
     }
   }
 }
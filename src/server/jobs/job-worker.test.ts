@@ -0,0 +1,131 @@
+import { eq } from "drizzle-orm";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { createTestDb, resetTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { getJobWorkerInstance } = await import("./job-worker");
+const { inscriptionService } = await import("../services/inscription");
+const { jobQueueService } = await import("../services/job-queue");
+const { inscriptions, jobs, proposals } = await import("../db/schema");
+
+describe("job worker inscription.create", () => {
+  let worker: ReturnType<typeof getJobWorkerInstance>;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    worker = getJobWorkerInstance();
+    worker.stop();
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    await resetTestDb(testDb);
+  });
+
+  async function queueWinner(maxAttempts: number) {
+    const [proposal] = await testDb
+      .insert(proposals)
+      .values({
+        name: "Pepe",
+        ticker: "PEPE",
+        tickerSkeleton: "PEPE",
+        description: "Feels good",
+        imageUrl: "https://example.com/pepe.png",
+        status: "inscribing",
+        leaderSlot: 2,
+        leaderStartBlock: 800_001,
+      })
+      .returning();
+    await jobQueueService.enqueue(
+      "inscription.create",
+      {
+        proposalId: proposal!.id,
+        roundId: 1,
+        blockHeight: 800_002,
+        blockHash: "b".repeat(64),
+        slot: 2,
+      },
+      { idempotencyKey: `inscription.create:${proposal!.id}`, maxAttempts },
+    );
+    return proposal!;
+  }
+
+  async function makeJobsDue() {
+    await testDb.update(jobs).set({ runAt: new Date(0) });
+  }
+
+  it("drops the reserved record when the provider refuses the order", async () => {
+    await queueWinner(3);
+    vi.spyOn(inscriptionService, "createOrder").mockRejectedValueOnce(
+      new Error("provider down"),
+    );
+
+    await worker.runDueJobs();
+    expect(await testDb.select().from(inscriptions)).toHaveLength(0);
+
+    await makeJobsDue();
+    await worker.runDueJobs();
+
+    const rows = await testDb.select().from(inscriptions);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]!.orderStatus).toBe("pending");
+    expect(rows[0]!.inscriptionId).toMatch(/i0$/);
+  });
+
+  it("never opens a second order over an unrecorded one", async () => {
+    const proposal = await queueWinner(3);
+    await testDb.insert(inscriptions).values({
+      proposalId: proposal.id,
+      blockHeight: 800_002,
+      blockHash: "b".repeat(64),
+      txid: "pending",
+      orderStatus: "creating",
+    });
+    const createOrder = vi.spyOn(inscriptionService, "createOrder");
+
+    await worker.runDueJobs();
+
+    expect(createOrder).not.toHaveBeenCalled();
+    const [job] = await testDb.select().from(jobs);
+    expect(job!.lastError).toMatch(/may already have a provider order/);
+  });
+
+  it("returns the proposal to the competition when the job is dead-lettered", async () => {
+    const proposal = await queueWinner(1);
+    vi.spyOn(inscriptionService, "createOrder").mockRejectedValue(
+      new Error("provider down"),
+    );
+
+    await worker.runDueJobs();
+
+    const [job] = await testDb.select().from(jobs);
+    expect(job!.status).toBe("dead");
+    const [row] = await testDb
+      .select()
+      .from(proposals)
+      .where(eq(proposals.id, proposal.id));
+    expect(row).toMatchObject({
+      status: "active",
+      leaderSlot: null,
+      leaderStartBlock: null,
+    });
+  });
+});
@@ -0,0 +1,458 @@
+import { db } from "../db";
+import { inscriptions, proposals, pumpFunTokens } from "../db/schema";
+import { and, eq, isNull, ne, or } from "drizzle-orm";
+import { inscriptionService } from "../services/inscription";
+import { pumpFunService } from "../services/pumpfun";
+import { unisatService } from "../services/unisat";
+import { competitionRoundService } from "../services/rounds";
+import { leaseService } from "../services/lease";
+import {
+  InvalidProposalTransitionError,
+  proposalStatusService,
+} from "../services/proposal-status";
+import { jobQueueService, type JobPayloads } from "../services/job-queue";
+import { voteMerkleService } from "../services/vote-merkle";
+import { env } from "~/env";
+import type { JobType, Proposal } from "~/types";
+
+const POLLING_INTERVAL = 5000; // 5 seconds
+const MAX_JOBS_PER_TICK = 10;
+const WORKER_LEASE = "job-worker";
+// Inscription row reserved before the provider is asked for an order
+const ORDER_CREATING = "creating";
+
+type ProposalRow = typeof proposals.$inferSelect;
+type JobHandlers = {
+  [T in JobType]: (
+    payload: JobPayloads[T],
+  ) => Promise<Record<string, unknown> | undefined>;
+};
+type DeadLetterHandlers = {
+  [T in JobType]?: (payload: JobPayloads[T], error: string) => Promise<void>;
+};
+
+class JobWorker {
+  private isRunning = false;
+  private isLeader = false;
+  private timeout: NodeJS.Timeout | null = null;
+  private lastRun: Date | null = null;
+
+  // Every handler must be safe to run again after a partial failure
+  private readonly handlers: JobHandlers = {
+    "inscription.create": (payload) => this.createInscription(payload),
+    "inscription.pay": (payload) => this.payInscription(payload),
+    "pumpfun.launch": (payload) => this.launchPumpFunToken(payload),
+  };
+
+  // Run once when a job is dead-lettered, to undo what it left half done
+  private readonly deadLetterHandlers: DeadLetterHandlers = {
+    "inscription.create": (payload, error) =>
+      this.abandonInscription(payload, error),
+  };
+
+  constructor() {
+    console.log("🚀 Job Worker initialized");
+    this.start();
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log("Job worker is already running.");
+      return;
+    }
+    console.log("✅ Job Worker started");
+    this.isRunning = true;
+    void this.tick();
+  }
+
+  stop() {
+    if (!this.isRunning) {
+      console.log("Job worker is not running.");
+      return;
+    }
+    console.log("⏹️ Job Worker stopped");
+    this.isRunning = false;
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+    if (this.isLeader) {
+      this.isLeader = false;
+      void leaseService
+        .release(WORKER_LEASE)
+        .catch((error) =>
+          console.error("❌ Failed to release job worker lease:", error),
+        );
+    }
+  }
+
+  private async tick() {
+    try {
+      this.isLeader = await leaseService.tryAcquire(WORKER_LEASE);
+      if (this.isLeader) {
+        await jobQueueService.recoverStaleJobs();
+        await this.runDueJobs();
+        this.lastRun = new Date();
+      }
+    } catch (error) {
+      console.error("❌ Error during job worker tick:", error);
+    }
+
+    if (this.isRunning) {
+      this.timeout = setTimeout(() => this.tick(), POLLING_INTERVAL);
+    }
+  }
+
+  async runDueJobs() {
+    for (let i = 0; i < MAX_JOBS_PER_TICK; i++) {
+      const job = await jobQueueService.claimNext(leaseService.nodeId);
+      if (!job) {
+        return;
+      }
+
+      console.log(
+        `⚙️ Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`,
+      );
+
+      try {
+        const handler = this.handlers[job.type] as (
+          payload: unknown,
+        ) => Promise<Record<string, unknown> | undefined>;
+        const result = await handler(job.payload);
+        await jobQueueService.complete(job.id, result);
+        console.log(`✅ ${job.type} job ${job.id} completed`);
+      } catch (error) {
+        if (await jobQueueService.fail(job, error)) {
+          await this.handleDeadJob(job.type, job.payload, error);
+        }
+      }
+    }
+  }
+
+  private async handleDeadJob(type: JobType, payload: unknown, error: unknown) {
+    const handler = this.deadLetterHandlers[type] as
+      | ((payload: unknown, error: string) => Promise<void>)
+      | undefined;
+    if (!handler) {
+      return;
+    }
+
+    try {
+      await handler(
+        payload,
+        error instanceof Error ? error.message : String(error),
+      );
+    } catch (handlerError) {
+      console.error(`❌ Dead-letter handler for ${type} failed:`, handlerError);
+    }
+  }
+
+  /**
+   * Creates the inscription order for a round winner and queues its payment.
+   * A retry reuses the inscription recorded by an earlier attempt.
+   */
+  private async createInscription({
+    proposalId,
+    roundId,
+    blockHeight,
+    blockHash,
+    slot = 1,
+  }: JobPayloads["inscription.create"]) {
+    const existing = await db
+      .select()
+      .from(inscriptions)
+      .where(
+        and(
+          eq(inscriptions.proposalId, proposalId),
+          eq(inscriptions.blockHash, blockHash),
+          or(
+            isNull(inscriptions.orderStatus),
+            ne(inscriptions.orderStatus, "reorg_orphaned"),
+          ),
+        ),
+      )
+      .limit(1);
+
+    let inscription = existing[0];
+
+    if (inscription?.orderStatus === ORDER_CREATING) {
+      // An earlier attempt stopped between opening the order and recording
+      // it, so a paid order may already exist at the provider
+      throw new Error(
+        `Inscription ${inscription.id} may already have a provider order; check the provider before retrying`,
+      );
+    }
+
+    if (!inscription) {
+      const proposal = await this.getProposal(proposalId);
+      const competitionRound = competitionRoundService.getRoundLabel(roundId);
+      // The leaves are stored with the root, so any single vote can be proven
+      // against the inscription even after the live votes change
+      const { root: voteMerkleRoot, leaves: voteMerkleLeaves } =
+        await voteMerkleService.commit(proposalId);
+      const committedVotes = voteMerkleLeaves.length;
+
+      // Reserve the record before opening the order, so a retry can never
+      // open a second one
+      const [reserved] = await db
+        .insert(inscriptions)
+        .values({
+          proposalId,
+          blockHeight,
+          blockHash,
+          txid: "pending",
+          feeRate: env.INSCRIPTION_FEE_RATE
+            ? parseInt(env.INSCRIPTION_FEE_RATE)
+            : 15,
+          metadata: JSON.stringify({
+            project: "bitmemes",
+            type: "meme-coin-inscription",
+            coin: {
+              name: proposal.name,
+              ticker: proposal.ticker,
+              description: proposal.description,
+              votes: proposal.totalVotes,
+              website: `https://bitpill.fun/proposals/${proposal.id}`,
+            },
+            competitionRound,
+            voteMerkleRoot,
+            committedVotes,
+            slot,
+          }),
+          slot,
+          voteMerkleRoot,
+          voteMerkleLeaves,
+          orderStatus: ORDER_CREATING,
+        })
+        .returning();
+
+      let inscriptionResult: Awaited<
+        ReturnType<typeof inscriptionService.createOrder>
+      >;
+      try {
+        inscriptionResult = await inscriptionService.createOrder(
+          this.toProposal(proposal),
+          blockHeight,
+          { competitionRound, voteMerkleRoot, committedVotes },
+        );
+      } catch (error) {
+        // The provider refused the order, so the next attempt starts over
+        await db.delete(inscriptions).where(eq(inscriptions.id, reserved!.id));
+        throw error;
+      }
+
+      console.log(
+        `✅ Inscription initiated for ${proposal.ticker}: ${inscriptionResult.orderId}`,
+      );
+
+      [inscription] = await db
+        .update(inscriptions)
+        .set({
+          txid: inscriptionResult.txid || "pending",
+          inscriptionId: inscriptionResult.inscriptionId,
+          unisatOrderId: inscriptionResult.orderId,
+          orderStatus: "pending",
+          paymentAddress: inscriptionResult.payAddress,
+          paymentAmount: inscriptionResult.paymentAmount,
+          updatedAt: new Date(),
+        })
+        .where(eq(inscriptions.id, reserved!.id))
+        .returning();
+
+      console.log(
+        `📝 Inscription record created for champion proposal ${proposalId}`,
+      );
+    }
+
+    // A round links the inscription and token of its slot 1 winner
+    if (slot === 1) {
+      await competitionRoundService.linkInscription(roundId, inscription!.id);
+    }
+
+    // Mock inscriptions have nothing to confirm on chain
+    if (inscriptionService.provider === "mock") {
+      await proposalStatusService.transition(proposalId, "inscribed", {
+        actor: "test",
+        reason: `Mock inscription ${inscription!.inscriptionId}`,
+        blockHeight,
+      });
+    }
+
+    if (inscription!.unisatOrderId && !inscription!.paymentTxid) {
+      await jobQueueService.enqueue(
+        "inscription.pay",
+        { inscriptionId: inscription!.id },
+        {
+          idempotencyKey: `inscription.pay:${inscription!.id}`,
+          blockHeight,
+        },
+      );
+    }
+
+    return {
+      inscriptionId: inscription!.id,
+      orderId: inscription!.unisatOrderId,
+    };
+  }
+
+  /**
+   * Puts a winner whose inscription could not be created back into the
+   * competition, so it does not stay stuck in "inscribing".
+   */
+  private async abandonInscription(
+    { proposalId, blockHeight }: JobPayloads["inscription.create"],
+    error: string,
+  ) {
+    try {
+      await proposalStatusService.transition(proposalId, "active", {
+        actor: "job-worker",
+        reason: `Inscription failed after block ${blockHeight}: ${error}`,
+        changes: {
+          firstTimeAsLeader: null,
+          leaderStartBlock: null,
+          leaderSlot: null,
+          expirationBlock: null,
+        },
+      });
+    } catch (transitionError) {
+      if (!(transitionError instanceof InvalidProposalTransitionError)) {
+        throw transitionError;
+      }
+      console.warn(
+        `⚠️ ${transitionError.message}, leaving proposal status as is`,
+      );
+    }
+  }
+
+  /**
+   * Pays a UniSat order from the platform wallet. Orders UniSat no longer
+   * reports as awaiting payment are never paid twice.
+   */
+  private async payInscription({
+    inscriptionId,
+  }: JobPayloads["inscription.pay"]) {
+    const [inscription] = await db
+      .select()
+      .from(inscriptions)
+      .where(eq(inscriptions.id, inscriptionId))
+      .limit(1);
+
+    if (!inscription) {
+      throw new Error(`Inscription ${inscriptionId} not found`);
+    }
+    if (inscription.paymentTxid) {
+      return { paymentTxid: inscription.paymentTxid, alreadyPaid: true };
+    }
+    if (inscription.orderStatus === "reorg_orphaned") {
+      return { skipped: "Inscription was orphaned by a reorg" };
+    }
+    if (
+      !inscription.unisatOrderId ||
+      !inscription.paymentAddress ||
+      !inscription.paymentAmount
+    ) {
+      throw new Error(`Inscription ${inscriptionId} has no payable order`);
+    }
+
+    const order = await unisatService.getOrderStatus(inscription.unisatOrderId);
+    if (order.status !== "pending") {
+      console.log(
+        `💳 Order ${inscription.unisatOrderId} is already ${order.status}, skipping payment`,
+      );
+      return { skipped: `Order already ${order.status}` };
+    }
+
+    const payment = await inscriptionService.payOrder(
+      inscription.unisatOrderId,
+      inscription.paymentAddress,
+      inscription.paymentAmount,
+    );
+
+    await db
+      .update(inscriptions)
+      .set({
+        txid: payment.txid,
+        paymentTxid: payment.txid,
+        updatedAt: new Date(),
+      })
+      .where(eq(inscriptions.id, inscriptionId));
+
+    return { paymentTxid: payment.txid, fee: payment.fee };
+  }
+
+  private async launchPumpFunToken({
+    proposalId,
+    roundId,
+    slot = 1,
+  }: JobPayloads["pumpfun.launch"]) {
+    const existing = await db
+      .select()
+      .from(pumpFunTokens)
+      .where(eq(pumpFunTokens.proposalId, proposalId))
+      .limit(1);
+
+    const mintAddress =
+      existing[0]?.mintAddress ??
+      (
+        await pumpFunService.createToken(
+          this.toProposal(await this.getProposal(proposalId)),
+        )
+      ).mintAddress;
+
+    if (slot === 1) {
+      await competitionRoundService.linkPumpFunToken(roundId, mintAddress);
+    }
+
+    return { mintAddress };
+  }
+
+  private async getProposal(proposalId: number): Promise<ProposalRow> {
+    const [proposal] = await db
+      .select()
+      .from(proposals)
+      .where(eq(proposals.id, proposalId))
+      .limit(1);
+
+    if (!proposal) {
+      throw new Error(`Proposal ${proposalId} not found`);
+    }
+    return proposal;
+  }
+
+  private toProposal(row: ProposalRow): Proposal {
+    return {
+      ...row,
+      website: row.website ?? undefined,
+      twitter: row.twitter ?? undefined,
+      telegram: row.telegram ?? undefined,
+      bannerUrl: row.bannerUrl ?? undefined,
+      submittedBy: row.submittedBy ?? undefined,
+      editorAddress: row.editorAddress ?? undefined,
+      firstTimeAsLeader: row.firstTimeAsLeader?.toISOString(),
+      leaderStartBlock: row.leaderStartBlock ?? undefined,
+      leaderSlot: row.leaderSlot ?? undefined,
+      expirationBlock: row.expirationBlock ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+
+  async getStatus() {
+    return {
+      isRunning: this.isRunning,
+      isLeader: this.isLeader,
+      nodeId: leaseService.nodeId,
+      lease: await leaseService.getLease(WORKER_LEASE),
+      lastRun: this.lastRun?.toISOString(),
+    };
+  }
+}
+
+let jobWorkerInstance: JobWorker | null = null;
+
+export function getJobWorkerInstance(): JobWorker {
+  if (!jobWorkerInstance) {
+    jobWorkerInstance = new JobWorker();
+  }
+  return jobWorkerInstance;
+}
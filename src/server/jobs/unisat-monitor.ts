@@ -1,16 +1,23 @@
 import { db } from "../db";
-import { inscriptions, proposals } from "../db/schema";
+import { inscriptions } from "../db/schema";
 import { eq, sql } from "drizzle-orm";
 import { unisatService } from "../services/unisat";
+import { leaseService } from "../services/lease";
+import {
+  InvalidProposalTransitionError,
+  proposalStatusService,
+} from "../services/proposal-status";
 import type { InscriptionRecord } from "~/types";
 
 const POLLING_INTERVAL = 30000; // 30 seconds
 const STUCK_ORDER_TIMEOUT_HOURS = 1; // 1 hour
+const MONITOR_LEASE = "unisat-monitor";
 
 class UnisatMonitor {
   private isRunning = false;
   private timeout: NodeJS.Timeout | null = null;
   private lastChecked = new Date();
+  private isLeader = false;
 
   constructor() {
     console.log("🚀 UniSat Monitor initialized");
@@ -38,12 +45,32 @@ class UnisatMonitor {
       clearTimeout(this.timeout);
       this.timeout = null;
     }
+    if (this.isLeader) {
+      this.isLeader = false;
+      void leaseService
+        .release(MONITOR_LEASE)
+        .catch((error) =>
+          console.error("❌ Failed to release UniSat monitor lease:", error),
+        );
+    }
   }
 
   private async tick() {
     try {
-      await this.checkAllPendingOrders();
-      this.lastChecked = new Date();
+      const isLeader = await leaseService.tryAcquire(MONITOR_LEASE);
+      if (isLeader !== this.isLeader) {
+        console.log(
+          isLeader
+            ? `👑 Node ${leaseService.nodeId} acquired the UniSat monitor lease`
+            : `💤 Node ${leaseService.nodeId} lost the UniSat monitor lease, standing by`,
+        );
+      }
+      this.isLeader = isLeader;
+
+      if (isLeader) {
+        await this.checkAllPendingOrders();
+        this.lastChecked = new Date();
+      }
     } catch (error) {
       console.error("❌ Error during UniSat monitor tick:", error);
     }
@@ -66,7 +93,7 @@ class UnisatMonitor {
         .where(
           sql`${inscriptions.unisatOrderId} IS NOT NULL
               AND (${inscriptions.orderStatus} IS NULL
-                   OR ${inscriptions.orderStatus} NOT IN ('canceled', 'failed', 'timeout', 'refunded', 'stuck_timeout_auto_reset', 'stuck_auto_reset'))`,
+                   OR ${inscriptions.orderStatus} NOT IN ('canceled', 'failed', 'timeout', 'refunded', 'stuck_timeout_auto_reset', 'stuck_auto_reset', 'reorg_orphaned'))`,
         );
 
       if (pendingInscriptions.length === 0) {
@@ -146,20 +173,24 @@ class UnisatMonitor {
           `✅ Order ${inscription.unisatOrderId} has inscription ID, status: ${orderStatus.status}. Marking as inscribed.`,
         );
 
-        const currentProposal = await db
-          .select({ status: proposals.status })
-          .from(proposals)
-          .where(eq(proposals.id, inscription.proposalId))
-          .limit(1);
-
-        if (currentProposal[0]?.status !== "inscribed") {
-          await db
-            .update(proposals)
-            .set({ status: "inscribed", updatedAt: new Date() })
-            .where(eq(proposals.id, inscription.proposalId));
+        try {
+          await proposalStatusService.transition(
+            inscription.proposalId,
+            "inscribed",
+            {
+              actor: "unisat-monitor",
+              reason: `UniSat order ${inscription.unisatOrderId} ${orderStatus.status} with inscription ${file.inscriptionId}`,
+            },
+          );
           console.log(
             `✅ Proposal ${inscription.proposalId} status updated to inscribed.`,
           );
+        } catch (error) {
+          // Still record the inscription below so the order can be reviewed
+          if (!(error instanceof InvalidProposalTransitionError)) {
+            throw error;
+          }
+          console.warn(`⚠️ ${error.message}, leaving proposal status as is`);
         }
 
         updateData.inscriptionId = file.inscriptionId;
@@ -233,16 +264,23 @@ class UnisatMonitor {
 
   async resetProposal(proposalId: number, reason: string) {
     console.log(`🔄 Resetting proposal ${proposalId} due to: ${reason}`);
-    await db
-      .update(proposals)
-      .set({
-        status: "active",
-        firstTimeAsLeader: null,
-        leaderStartBlock: null,
-        expirationBlock: null,
-        updatedAt: new Date(),
-      })
-      .where(eq(proposals.id, proposalId));
+    try {
+      await proposalStatusService.transition(proposalId, "active", {
+        actor: "unisat-monitor",
+        reason,
+        changes: {
+          firstTimeAsLeader: null,
+          leaderStartBlock: null,
+          leaderSlot: null,
+          expirationBlock: null,
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof InvalidProposalTransitionError)) {
+        throw error;
+      }
+      console.warn(`⚠️ ${error.message}, leaving proposal status as is`);
+    }
   }
 
   async retryApiCall<T>(
@@ -267,9 +305,12 @@ class UnisatMonitor {
     throw new Error("Max retries exceeded");
   }
 
-  getStatus() {
+  async getStatus() {
     return {
       isRunning: this.isRunning,
+      isLeader: this.isLeader,
+      nodeId: leaseService.nodeId,
+      lease: await leaseService.getLease(MONITOR_LEASE),
       lastChecked: this.lastChecked.toISOString(),
     };
   }
@@ -0,0 +1,88 @@
+import { leaseService } from "../services/lease";
+import { voteAnomalyService } from "../services/vote-anomaly";
+
+const POLLING_INTERVAL = 60000; // 1 minute
+const MONITOR_LEASE = "vote-anomaly-monitor";
+
+class VoteAnomalyMonitor {
+  private isRunning = false;
+  private timeout: NodeJS.Timeout | null = null;
+  private lastChecked: Date | null = null;
+  private isLeader = false;
+
+  constructor() {
+    console.log("🚀 Vote Anomaly Monitor initialized");
+    this.start();
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log("Vote anomaly monitor is already running.");
+      return;
+    }
+    console.log("✅ Vote Anomaly Monitor started");
+    this.isRunning = true;
+    void this.tick();
+  }
+
+  stop() {
+    if (!this.isRunning) {
+      console.log("Vote anomaly monitor is not running.");
+      return;
+    }
+    console.log("⏹️ Vote Anomaly Monitor stopped");
+    this.isRunning = false;
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+    if (this.isLeader) {
+      this.isLeader = false;
+      void leaseService
+        .release(MONITOR_LEASE)
+        .catch((error) =>
+          console.error("❌ Failed to release vote anomaly lease:", error),
+        );
+    }
+  }
+
+  private async tick() {
+    try {
+      this.isLeader = await leaseService.tryAcquire(MONITOR_LEASE);
+      if (this.isLeader) {
+        const held = await voteAnomalyService.detectBursts();
+        if (held.length > 0) {
+          console.log(
+            `🚩 Held ${held.length} votes from new wallets for admin review`,
+          );
+        }
+        this.lastChecked = new Date();
+      }
+    } catch (error) {
+      console.error("❌ Error during vote anomaly monitor tick:", error);
+    }
+
+    if (this.isRunning) {
+      this.timeout = setTimeout(() => this.tick(), POLLING_INTERVAL);
+    }
+  }
+
+  async getStatus() {
+    return {
+      isRunning: this.isRunning,
+      isLeader: this.isLeader,
+      nodeId: leaseService.nodeId,
+      lease: await leaseService.getLease(MONITOR_LEASE),
+      lastChecked: this.lastChecked?.toISOString(),
+    };
+  }
+}
+
+let voteAnomalyMonitorInstance: VoteAnomalyMonitor | null = null;
+
+export function getVoteAnomalyMonitorInstance(): VoteAnomalyMonitor {
+  if (!voteAnomalyMonitorInstance) {
+    voteAnomalyMonitorInstance = new VoteAnomalyMonitor();
+  }
+  return voteAnomalyMonitorInstance;
+}
@@ -0,0 +1,92 @@
+import { leaseService } from "../services/lease";
+import { voteIntegrityService } from "../services/vote-integrity";
+import type { VoteCounterDrift } from "~/types";
+
+const POLLING_INTERVAL = 10 * 60 * 1000; // 10 minutes
+const MONITOR_LEASE = "vote-integrity-monitor";
+
+class VoteIntegrityMonitor {
+  private isRunning = false;
+  private timeout: NodeJS.Timeout | null = null;
+  private lastChecked: Date | null = null;
+  private lastCorrections: VoteCounterDrift[] = [];
+  private isLeader = false;
+
+  constructor() {
+    console.log("🚀 Vote Integrity Monitor initialized");
+    this.start();
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log("Vote anomaly monitor is already running.");
+      return;
+    }
+    console.log("✅ Vote Integrity Monitor started");
+    this.isRunning = true;
+    void this.tick();
+  }
+
+  stop() {
+    if (!this.isRunning) {
+      console.log("Vote anomaly monitor is not running.");
+      return;
+    }
+    console.log("⏹️ Vote Integrity Monitor stopped");
+    this.isRunning = false;
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+    if (this.isLeader) {
+      this.isLeader = false;
+      void leaseService
+        .release(MONITOR_LEASE)
+        .catch((error) =>
+          console.error("❌ Failed to release vote integrity lease:", error),
+        );
+    }
+  }
+
+  private async tick() {
+    try {
+      this.isLeader = await leaseService.tryAcquire(MONITOR_LEASE);
+      if (this.isLeader) {
+        const corrected = await voteIntegrityService.reconcile();
+        if (corrected.length > 0) {
+          console.warn(
+            `⚠️ Vote counters drifted on ${corrected.length} proposals and were recomputed`,
+          );
+          this.lastCorrections = corrected;
+        }
+        this.lastChecked = new Date();
+      }
+    } catch (error) {
+      console.error("❌ Error during vote integrity monitor tick:", error);
+    }
+
+    if (this.isRunning) {
+      this.timeout = setTimeout(() => this.tick(), POLLING_INTERVAL);
+    }
+  }
+
+  async getStatus() {
+    return {
+      isRunning: this.isRunning,
+      isLeader: this.isLeader,
+      nodeId: leaseService.nodeId,
+      lease: await leaseService.getLease(MONITOR_LEASE),
+      lastChecked: this.lastChecked?.toISOString(),
+      lastCorrections: this.lastCorrections,
+    };
+  }
+}
+
+let voteIntegrityMonitorInstance: VoteIntegrityMonitor | null = null;
+
+export function getVoteIntegrityMonitorInstance(): VoteIntegrityMonitor {
+  if (!voteIntegrityMonitorInstance) {
+    voteIntegrityMonitorInstance = new VoteIntegrityMonitor();
+  }
+  return voteIntegrityMonitorInstance;
+}
@@ -0,0 +1,502 @@
+import { asc, isNotNull, isNull } from "drizzle-orm";
+import { db } from "../db";
+import {
+  competitionRounds,
+  processedBlocks,
+  proposals,
+  proposalStatusEvents,
+  voteEvents,
+} from "../db/schema";
+import {
+  competitionConfigService,
+  DEFAULT_COMPETITION_RULESET,
+} from "./competition-config";
+import { rankingService, type RankingStrategy } from "./ranking";
+import type {
+  CompetitionConfig,
+  CompetitionRuleset,
+  Proposal,
+  ProposalStatusActor,
+} from "~/types";
+
+export type BacktestOutcome = "won" | "expired" | "rejected" | "pending";
+
+export interface ProposalOutcome {
+  outcome: BacktestOutcome;
+  blockHeight?: number;
+  reason?: string;
+}
+
+export interface BacktestProposalResult {
+  proposalId: number;
+  ticker: string;
+  actual: ProposalOutcome;
+  backtest: ProposalOutcome;
+}
+
+export interface BacktestReport {
+  fromBlock: number;
+  toBlock: number;
+  votesReplayed: number;
+  overrides: Partial<CompetitionRuleset>;
+  proposals: BacktestProposalResult[];
+  winners: {
+    actual: Array<{ blockHeight: number; proposalId: number }>;
+    backtest: Array<{ blockHeight: number; proposalId: number }>;
+  };
+  resets: { actual: number[]; backtest: number[] };
+}
+
+/** Everything the replay reads, loaded once so the replay itself is pure. */
+export interface BacktestHistory {
+  blocks: Array<{ height: number; blockTime: Date }>;
+  proposals: Array<{
+    id: number;
+    ticker: string;
+    creationBlock: number | null;
+    createdAt: Date;
+  }>;
+  /** Vote history; a switch or retraction moves a vote off `fromType` */
+  votes: Array<{
+    proposalId: number;
+    fromType: "up" | "down" | null;
+    toType: "up" | "down" | null;
+    weight: number;
+    createdAt: Date;
+  }>;
+  statusEvents: Array<{
+    proposalId: number;
+    toStatus: Proposal["status"];
+    actor: ProposalStatusActor;
+    reason: string | null;
+    blockHeight: number;
+  }>;
+  resetBlocks: number[];
+  configs: CompetitionConfig[];
+}
+
+interface ReplayProposal {
+  id: number;
+  ticker: string;
+  creationBlock: number | null;
+  createdAt: Date;
+  votesUp: number;
+  votesDown: number;
+  weightUp: number;
+  weightDown: number;
+  status: "active" | "leader" | "won" | "expired" | "rejected";
+  leaderStartBlock: number | null;
+  outcome: ProposalOutcome;
+}
+
+export class BacktestService {
+  async loadHistory(): Promise<BacktestHistory> {
+    const [blocks, proposalRows, voteRows, statusEvents, resets, configs] =
+      await Promise.all([
+        db
+          .select({
+            height: processedBlocks.height,
+            blockTime: processedBlocks.blockTime,
+          })
+          .from(processedBlocks)
+          .orderBy(asc(processedBlocks.height)),
+        db
+          .select({
+            id: proposals.id,
+            ticker: proposals.ticker,
+            creationBlock: proposals.creationBlock,
+            createdAt: proposals.createdAt,
+          })
+          .from(proposals)
+          .orderBy(asc(proposals.id)),
+        db
+          .select({
+            proposalId: voteEvents.proposalId,
+            fromType: voteEvents.fromType,
+            toType: voteEvents.toType,
+            weight: voteEvents.weight,
+            createdAt: voteEvents.createdAt,
+          })
+          .from(voteEvents)
+          .orderBy(asc(voteEvents.createdAt), asc(voteEvents.id)),
+        db
+          .select({
+            proposalId: proposalStatusEvents.proposalId,
+            toStatus: proposalStatusEvents.toStatus,
+            actor: proposalStatusEvents.actor,
+            reason: proposalStatusEvents.reason,
+            blockHeight: proposalStatusEvents.blockHeight,
+          })
+          .from(proposalStatusEvents)
+          .where(isNull(proposalStatusEvents.revertedAt))
+          .orderBy(asc(proposalStatusEvents.id)),
+        db
+          .select({ endBlock: competitionRounds.endBlock })
+          .from(competitionRounds)
+          .where(isNotNull(competitionRounds.resetReason))
+          .orderBy(asc(competitionRounds.endBlock)),
+        competitionConfigService.getHistory(),
+      ]);
+
+    return {
+      blocks,
+      proposals: proposalRows,
+      votes: voteRows,
+      statusEvents,
+      resetBlocks: resets.flatMap((round) =>
+        round.endBlock === null ? [] : [round.endBlock],
+      ),
+      configs,
+    };
+  }
+
+  /**
+   * Replays every processed block through the engine's competition rules in
+   * memory. A vote counts from the first block mined after it was cast, and
+   * admin eliminations and rejections are applied at the block they were
+   * made. `overrides` replace fields of the ruleset that was in force at each
+   * block; the remaining fields follow the recorded config history.
+   */
+  replay(
+    history: BacktestHistory,
+    overrides: Partial<CompetitionRuleset> = {},
+  ): BacktestReport {
+    const state = new Map<number, ReplayProposal>(
+      history.proposals.map((proposal) => [
+        proposal.id,
+        {
+          ...proposal,
+          votesUp: 0,
+          votesDown: 0,
+          weightUp: 0,
+          weightDown: 0,
+          status: "active",
+          leaderStartBlock: null,
+          outcome: { outcome: "pending" },
+        },
+      ]),
+    );
+    const adminEvents = history.statusEvents.filter(
+      (event) =>
+        event.actor === "admin" &&
+        (event.toStatus === "expired" || event.toStatus === "rejected"),
+    );
+    const winners: BacktestReport["winners"]["backtest"] = [];
+    const resets: number[] = [];
+    let voteIndex = 0;
+    let adminIndex = 0;
+    let consecutiveBlocksWithoutLaunches = 0;
+
+    for (const block of history.blocks) {
+      const blockHeight = block.height;
+      const rules = {
+        ...this.getRulesAt(history.configs, blockHeight),
+        ...overrides,
+      };
+      const strategy = rankingService.getStrategy(rules.rankingStrategy);
+
+      while (
+        voteIndex < history.votes.length &&
+        history.votes[voteIndex]!.createdAt < block.blockTime
+      ) {
+        const vote = history.votes[voteIndex++]!;
+        const proposal = state.get(vote.proposalId);
+        if (proposal) {
+          // Recorded weights are replayed as cast; balances are not fetched again
+          const weight = overrides.votingMode === "count" ? 1 : vote.weight;
+          if (vote.fromType === "up") {
+            proposal.votesUp--;
+            proposal.weightUp -= weight;
+          }
+          if (vote.fromType === "down") {
+            proposal.votesDown--;
+            proposal.weightDown -= weight;
+          }
+          if (vote.toType === "up") {
+            proposal.votesUp++;
+            proposal.weightUp += weight;
+          }
+          if (vote.toType === "down") {
+            proposal.votesDown++;
+            proposal.weightDown += weight;
+          }
+        }
+      }
+
+      while (
+        adminIndex < adminEvents.length &&
+        adminEvents[adminIndex]!.blockHeight < blockHeight
+      ) {
+        const event = adminEvents[adminIndex++]!;
+        const proposal = state.get(event.proposalId);
+        if (
+          proposal &&
+          (proposal.status === "active" || proposal.status === "leader")
+        ) {
+          this.settle(
+            proposal,
+            event.toStatus === "rejected" ? "rejected" : "expired",
+            event.blockHeight,
+            event.reason ?? "Admin action",
+          );
+        }
+      }
+
+      const inCompetition = (proposal: ReplayProposal) =>
+        (proposal.status === "active" || proposal.status === "leader") &&
+        this.hasEntered(proposal, block);
+
+      // The counter only moves where the engine updates its block tracker
+      const consecutiveBlocks = consecutiveBlocksWithoutLaunches + 1;
+      if (consecutiveBlocks >= rules.resetAfterBlocksWithoutLaunch) {
+        for (const proposal of state.values()) {
+          if (proposal.status === "leader" || proposal.status === "expired") {
+            proposal.status = "active";
+            proposal.leaderStartBlock = null;
+            proposal.outcome = { outcome: "pending" };
+          }
+        }
+        resets.push(blockHeight);
+        consecutiveBlocksWithoutLaunches = 0;
+        continue;
+      }
+
+      for (const proposal of state.values()) {
+        if (
+          proposal.status === "active" &&
+          proposal.creationBlock !== null &&
+          proposal.creationBlock <= blockHeight - rules.proposalLifetimeBlocks
+        ) {
+          this.settle(
+            proposal,
+            "expired",
+            blockHeight,
+            `Did not become leader within ${rules.proposalLifetimeBlocks} blocks`,
+          );
+        }
+      }
+
+      const slotHolders = this.rank(
+        [...state.values()].filter(inCompetition),
+        strategy,
+        blockHeight,
+      ).slice(0, rules.winnerSlots);
+
+      if (slotHolders.length === 0) {
+        consecutiveBlocksWithoutLaunches = consecutiveBlocks;
+        continue;
+      }
+
+      this.dethroneOthers(state, slotHolders, blockHeight);
+
+      const blockWinners: ReplayProposal[] = [];
+      let countsTowardsReset = true;
+
+      for (const proposal of slotHolders) {
+        if (proposal.votesUp < rules.minVotes) {
+          countsTowardsReset = false;
+        } else if (proposal.leaderStartBlock === null) {
+          proposal.status = "leader";
+          proposal.leaderStartBlock = blockHeight;
+          countsTowardsReset = false;
+        } else if (
+          blockHeight - proposal.leaderStartBlock >=
+          rules.defenseBlocks
+        ) {
+          blockWinners.push(proposal);
+        }
+      }
+
+      if (blockWinners.length === 0) {
+        if (countsTowardsReset) {
+          consecutiveBlocksWithoutLaunches = consecutiveBlocks;
+        }
+        continue;
+      }
+
+      for (const proposal of blockWinners) {
+        this.settle(
+          proposal,
+          "won",
+          blockHeight,
+          `Defended a winner slot for ${blockHeight - proposal.leaderStartBlock!} block(s)`,
+        );
+        winners.push({ blockHeight, proposalId: proposal.id });
+      }
+      consecutiveBlocksWithoutLaunches = 0;
+
+      const remainingLeaders = [...state.values()].filter(
+        (proposal) => proposal.status === "leader",
+      ).length;
+      const nextLeaders = this.rank(
+        [...state.values()].filter(
+          (proposal) =>
+            proposal.status === "active" && this.hasEntered(proposal, block),
+        ),
+        strategy,
+        blockHeight,
+      ).slice(0, Math.max(0, rules.winnerSlots - remainingLeaders));
+      for (const nextLeader of nextLeaders) {
+        nextLeader.status = "leader";
+        nextLeader.leaderStartBlock = blockHeight;
+      }
+    }
+
+    const actual = this.getActualOutcomes(history);
+
+    return {
+      fromBlock: history.blocks[0]?.height ?? 0,
+      toBlock: history.blocks[history.blocks.length - 1]?.height ?? 0,
+      votesReplayed: voteIndex,
+      overrides,
+      proposals: [...state.values()].map((proposal) => ({
+        proposalId: proposal.id,
+        ticker: proposal.ticker,
+        actual: actual.get(proposal.id) ?? { outcome: "pending" },
+        backtest: proposal.outcome,
+      })),
+      winners: {
+        actual: history.statusEvents
+          .filter(
+            (event) =>
+              event.actor === "engine" && event.toStatus === "inscribing",
+          )
+          .map((event) => ({
+            blockHeight: event.blockHeight,
+            proposalId: event.proposalId,
+          })),
+        backtest: winners,
+      },
+      resets: { actual: history.resetBlocks, backtest: resets },
+    };
+  }
+
+  /**
+   * Proposals submitted while the engine was at `creationBlock` first compete
+   * in the block after it; legacy rows without one compete once they exist.
+   */
+  private hasEntered(
+    proposal: ReplayProposal,
+    block: { height: number; blockTime: Date },
+  ) {
+    return proposal.creationBlock !== null
+      ? proposal.creationBlock < block.height
+      : proposal.createdAt < block.blockTime;
+  }
+
+  private rank(
+    candidates: ReplayProposal[],
+    strategy: RankingStrategy,
+    blockHeight: number,
+  ): ReplayProposal[] {
+    const scores = new Map(
+      candidates.map((proposal) => [
+        proposal.id,
+        strategy.evaluate(proposal, { blockHeight }),
+      ]),
+    );
+
+    // Mirrors RankingService.orderBy: score, then earliest creation block, then id
+    return candidates.sort(
+      (a, b) =>
+        scores.get(b.id)! - scores.get(a.id)! ||
+        (a.creationBlock ?? Infinity) - (b.creationBlock ?? Infinity) ||
+        a.id - b.id,
+    );
+  }
+
+  private dethroneOthers(
+    state: Map<number, ReplayProposal>,
+    slotHolders: ReplayProposal[],
+    blockHeight: number,
+  ) {
+    for (const proposal of state.values()) {
+      if (proposal.status === "leader" && !slotHolders.includes(proposal)) {
+        this.settle(
+          proposal,
+          "expired",
+          blockHeight,
+          `Dethroned by ${slotHolders.map((holder) => holder.ticker).join(", ")}`,
+        );
+      }
+    }
+  }
+
+  private settle(
+    proposal: ReplayProposal,
+    status: "won" | "expired" | "rejected",
+    blockHeight: number,
+    reason: string,
+  ) {
+    proposal.status = status;
+    proposal.outcome = { outcome: status, blockHeight, reason };
+  }
+
+  private getRulesAt(
+    configs: CompetitionConfig[],
+    blockHeight: number,
+  ): CompetitionRuleset {
+    // History is ordered newest first, matching getEffectiveConfig
+    const config = configs.find(
+      (candidate) => candidate.effectiveFromBlock <= blockHeight,
+    );
+    if (!config) {
+      return DEFAULT_COMPETITION_RULESET;
+    }
+
+    return {
+      proposalLifetimeBlocks: config.proposalLifetimeBlocks,
+      defenseBlocks: config.defenseBlocks,
+      resetAfterBlocksWithoutLaunch: config.resetAfterBlocksWithoutLaunch,
+      minVotes: config.minVotes,
+      leaderExpirationBlocks: config.leaderExpirationBlocks,
+      rankingStrategy: config.rankingStrategy,
+      winnerSlots: config.winnerSlots,
+      votingMode: config.votingMode,
+      balanceWeightCapSats: config.balanceWeightCapSats,
+      balanceWeightCurve: config.balanceWeightCurve,
+      quadraticCreditsPerRound: config.quadraticCreditsPerRound,
+      minWalletTxCount: config.minWalletTxCount,
+      minWalletAgeBlocks: config.minWalletAgeBlocks,
+      commitPhaseBlocks: config.commitPhaseBlocks,
+      revealPhaseBlocks: config.revealPhaseBlocks,
+      proposalEditBlocks: config.proposalEditBlocks,
+    };
+  }
+
+  /** Final outcome of each proposal according to its status event log. */
+  private getActualOutcomes(
+    history: BacktestHistory,
+  ): Map<number, ProposalOutcome> {
+    const outcomes = new Map<number, ProposalOutcome>();
+
+    for (const event of history.statusEvents) {
+      switch (event.toStatus) {
+        case "inscribing":
+          outcomes.set(event.proposalId, {
+            outcome: "won",
+            blockHeight: event.blockHeight,
+            reason: event.reason ?? undefined,
+          });
+          break;
+        case "inscribed":
+          // Confirmation of a win that was already recorded at the inscribing event
+          break;
+        case "expired":
+        case "rejected":
+          outcomes.set(event.proposalId, {
+            outcome: event.toStatus,
+            blockHeight: event.blockHeight,
+            reason: event.reason ?? undefined,
+          });
+          break;
+        default:
+          outcomes.set(event.proposalId, { outcome: "pending" });
+      }
+    }
+
+    return outcomes;
+  }
+}
+
+export const backtestService = new BacktestService();
@@ -0,0 +1,164 @@
+import { desc, lte } from "drizzle-orm";
+import { z } from "zod";
+import { db, type Transaction } from "../db";
+import { competitionConfig } from "../db/schema";
+import type { CompetitionConfig, CompetitionRuleset } from "~/types";
+
+/**
+ * The rules the competition shipped with. They apply until an admin schedules
+ * the first persisted ruleset.
+ */
+export const DEFAULT_COMPETITION_RULESET: CompetitionRuleset = {
+  proposalLifetimeBlocks: 5,
+  defenseBlocks: 1,
+  resetAfterBlocksWithoutLaunch: 5,
+  minVotes: 1,
+  leaderExpirationBlocks: 5,
+  rankingStrategy: "net",
+  winnerSlots: 1,
+  votingMode: "count",
+  balanceWeightCapSats: 100000000,
+  balanceWeightCurve: "sqrt",
+  quadraticCreditsPerRound: 100,
+  minWalletTxCount: 2,
+  minWalletAgeBlocks: 144,
+  commitPhaseBlocks: 0,
+  revealPhaseBlocks: 1,
+  proposalEditBlocks: 6,
+};
+
+export const competitionRulesetSchema = z.object({
+  proposalLifetimeBlocks: z.number().int().min(1).max(1000),
+  defenseBlocks: z.number().int().min(0).max(100),
+  resetAfterBlocksWithoutLaunch: z.number().int().min(1).max(1000),
+  minVotes: z.number().int().min(0),
+  leaderExpirationBlocks: z.number().int().min(1).max(1000),
+  rankingStrategy: z.enum(["net", "wilson", "trending"]),
+  winnerSlots: z.number().int().min(1).max(10),
+  votingMode: z.enum(["count", "balance", "quadratic"]),
+  balanceWeightCapSats: z.number().int().min(1).max(2100000000000000),
+  balanceWeightCurve: z.enum(["linear", "sqrt"]),
+  quadraticCreditsPerRound: z.number().int().min(1).max(1000000),
+  minWalletTxCount: z.number().int().min(0).max(10000),
+  minWalletAgeBlocks: z.number().int().min(0).max(1000000),
+  commitPhaseBlocks: z.number().int().min(0).max(1000),
+  revealPhaseBlocks: z.number().int().min(1).max(1000),
+  proposalEditBlocks: z.number().int().min(0).max(1000),
+});
+
+type CompetitionConfigRow = typeof competitionConfig.$inferSelect;
+
+export class CompetitionConfigService {
+  private toConfig(row: CompetitionConfigRow): CompetitionConfig {
+    return {
+      id: row.id,
+      effectiveFromBlock: row.effectiveFromBlock,
+      proposalLifetimeBlocks: row.proposalLifetimeBlocks,
+      defenseBlocks: row.defenseBlocks,
+      resetAfterBlocksWithoutLaunch: row.resetAfterBlocksWithoutLaunch,
+      minVotes: row.minVotes,
+      leaderExpirationBlocks: row.leaderExpirationBlocks,
+      rankingStrategy: row.rankingStrategy,
+      winnerSlots: row.winnerSlots,
+      votingMode: row.votingMode,
+      balanceWeightCapSats: row.balanceWeightCapSats,
+      balanceWeightCurve: row.balanceWeightCurve,
+      quadraticCreditsPerRound: row.quadraticCreditsPerRound,
+      minWalletTxCount: row.minWalletTxCount,
+      minWalletAgeBlocks: row.minWalletAgeBlocks,
+      commitPhaseBlocks: row.commitPhaseBlocks,
+      revealPhaseBlocks: row.revealPhaseBlocks,
+      proposalEditBlocks: row.proposalEditBlocks,
+      reason: row.reason ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Returns the ruleset in force at the given block height: the most recently
+   * scheduled row whose effective block has been reached.
+   */
+  async getEffectiveConfig(
+    blockHeight: number,
+    executor: typeof db | Transaction = db,
+  ): Promise<CompetitionConfig> {
+    const rows = await executor
+      .select()
+      .from(competitionConfig)
+      .where(lte(competitionConfig.effectiveFromBlock, blockHeight))
+      .orderBy(
+        desc(competitionConfig.effectiveFromBlock),
+        desc(competitionConfig.id),
+      )
+      .limit(1);
+
+    if (rows.length === 0) {
+      return {
+        id: null,
+        effectiveFromBlock: 0,
+        ...DEFAULT_COMPETITION_RULESET,
+      };
+    }
+
+    return this.toConfig(rows[0]!);
+  }
+
+  async getHistory(): Promise<CompetitionConfig[]> {
+    const rows = await db
+      .select()
+      .from(competitionConfig)
+      .orderBy(
+        desc(competitionConfig.effectiveFromBlock),
+        desc(competitionConfig.id),
+      );
+
+    return rows.map((row) => this.toConfig(row));
+  }
+
+  /**
+   * Persists a new ruleset that takes effect at `effectiveFromBlock`. Fields
+   * that are not provided are carried over from the latest scheduled ruleset.
+   */
+  async scheduleConfig(
+    changes: Partial<CompetitionRuleset>,
+    effectiveFromBlock: number,
+    reason?: string,
+  ): Promise<CompetitionConfig> {
+    const [latest] = await this.getHistory();
+    const base: CompetitionRuleset = latest ?? DEFAULT_COMPETITION_RULESET;
+
+    const ruleset = competitionRulesetSchema.parse({
+      proposalLifetimeBlocks: base.proposalLifetimeBlocks,
+      defenseBlocks: base.defenseBlocks,
+      resetAfterBlocksWithoutLaunch: base.resetAfterBlocksWithoutLaunch,
+      minVotes: base.minVotes,
+      leaderExpirationBlocks: base.leaderExpirationBlocks,
+      rankingStrategy: base.rankingStrategy,
+      winnerSlots: base.winnerSlots,
+      votingMode: base.votingMode,
+      balanceWeightCapSats: base.balanceWeightCapSats,
+      balanceWeightCurve: base.balanceWeightCurve,
+      quadraticCreditsPerRound: base.quadraticCreditsPerRound,
+      minWalletTxCount: base.minWalletTxCount,
+      minWalletAgeBlocks: base.minWalletAgeBlocks,
+      commitPhaseBlocks: base.commitPhaseBlocks,
+      revealPhaseBlocks: base.revealPhaseBlocks,
+      proposalEditBlocks: base.proposalEditBlocks,
+      ...changes,
+    });
+
+    const [row] = await db
+      .insert(competitionConfig)
+      .values({ ...ruleset, effectiveFromBlock, reason })
+      .returning();
+
+    console.log(
+      `⚙️ Competition ruleset scheduled for block ${effectiveFromBlock}:`,
+      ruleset,
+    );
+
+    return this.toConfig(row!);
+  }
+}
+
+export const competitionConfigService = new CompetitionConfigService();
@@ -0,0 +1,261 @@
+import { and, eq } from "drizzle-orm";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestDb, resetTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { DelegationError, delegationService } = await import("./delegations");
+const { DEFAULT_COMPETITION_RULESET } = await import("./competition-config");
+const { competitionRoundService } = await import("./rounds");
+const { voteService } = await import("./votes");
+const { proposals, users, votes } = await import("~/server/db/schema");
+
+const rules = DEFAULT_COMPETITION_RULESET;
+
+async function insertUser(walletAddress: string) {
+  const [row] = await testDb
+    .insert(users)
+    .values({ walletAddress, walletVerifiedAt: new Date() })
+    .returning();
+  return { id: row!.id, walletAddress };
+}
+
+async function insertProposal(ticker: string) {
+  const [row] = await testDb
+    .insert(proposals)
+    .values({
+      name: ticker,
+      ticker,
+      tickerSkeleton: ticker,
+      description: `${ticker} proposal`,
+      imageUrl: `https://example.com/${ticker}.png`,
+    })
+    .returning();
+  return row!;
+}
+
+async function getCounters(proposalId: number) {
+  const [row] = await testDb
+    .select({
+      votesUp: proposals.votesUp,
+      votesDown: proposals.votesDown,
+      weightUp: proposals.weightUp,
+    })
+    .from(proposals)
+    .where(eq(proposals.id, proposalId));
+  return row!;
+}
+
+async function getVoteOf(userId: number, proposalId: number) {
+  const [row] = await testDb
+    .select()
+    .from(votes)
+    .where(and(eq(votes.userId, userId), eq(votes.proposalId, proposalId)));
+  return row ?? null;
+}
+
+/** A curator's own vote, carried to whoever delegates to them. */
+async function curatorVote(
+  curatorId: number,
+  proposalId: number,
+  voteType: "up" | "down",
+) {
+  return voteService.castVote(curatorId, proposalId, voteType, {
+    delegators: await delegationService.getDelegatorWeights(curatorId, rules),
+  });
+}
+
+describe("delegationService", () => {
+  let curator: Awaited<ReturnType<typeof insertUser>>;
+  let delegator: Awaited<ReturnType<typeof insertUser>>;
+  let proposalId: number;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  });
+
+  beforeEach(async () => {
+    await resetTestDb(testDb);
+    curator = await insertUser("tb1curator");
+    delegator = await insertUser("tb1delegator");
+    proposalId = (await insertProposal("PEPE")).id;
+  });
+
+  it("follows the curator's existing and later votes", async () => {
+    await curatorVote(curator.id, proposalId, "up");
+    await delegationService.delegate(
+      delegator,
+      curator.walletAddress,
+      null,
+      "signature",
+      rules,
+    );
+
+    expect(await getVoteOf(delegator.id, proposalId)).toMatchObject({
+      voteType: "up",
+      delegateId: curator.id,
+      source: "delegation",
+    });
+    expect(await getCounters(proposalId)).toMatchObject({
+      votesUp: 2,
+      weightUp: 2,
+    });
+
+    const later = (await insertProposal("DOGE")).id;
+    await curatorVote(curator.id, later, "down");
+    expect(await getVoteOf(delegator.id, later)).toMatchObject({
+      voteType: "down",
+      delegateId: curator.id,
+    });
+
+    const breakdown = (await voteService.getBreakdowns([proposalId])).get(
+      proposalId,
+    );
+    expect(breakdown).toEqual({
+      direct: { votesUp: 1, votesDown: 0, weightUp: 1, weightDown: 0 },
+      delegated: {
+        votesUp: 1,
+        votesDown: 0,
+        weightUp: 1,
+        weightDown: 0,
+        curators: 1,
+      },
+    });
+  });
+
+  it("lets a delegator's own vote override the curator's", async () => {
+    await curatorVote(curator.id, proposalId, "up");
+    await delegationService.delegate(
+      delegator,
+      curator.walletAddress,
+      null,
+      "signature",
+      rules,
+    );
+
+    await voteService.castVote(delegator.id, proposalId, "down");
+    expect(await getVoteOf(delegator.id, proposalId)).toMatchObject({
+      voteType: "down",
+      delegateId: null,
+    });
+
+    // The curator changing their mind no longer touches it
+    await curatorVote(curator.id, proposalId, "down");
+    await curatorVote(curator.id, proposalId, "up");
+    expect(await getVoteOf(delegator.id, proposalId)).toMatchObject({
+      voteType: "down",
+      delegateId: null,
+    });
+    expect(await getCounters(proposalId)).toMatchObject({
+      votesUp: 1,
+      votesDown: 1,
+    });
+  });
+
+  it("swaps votes over when a delegation is replaced", async () => {
+    const other = await insertUser("tb1other");
+    await curatorVote(curator.id, proposalId, "up");
+    await curatorVote(other.id, proposalId, "down");
+    await delegationService.delegate(
+      delegator,
+      curator.walletAddress,
+      null,
+      "signature",
+      rules,
+    );
+
+    const replacement = await delegationService.delegate(
+      delegator,
+      other.walletAddress,
+      null,
+      "signature",
+      rules,
+    );
+
+    expect(replacement.delegateAddress).toBe("tb1other");
+    expect(await getVoteOf(delegator.id, proposalId)).toMatchObject({
+      voteType: "down",
+      delegateId: other.id,
+    });
+    expect(await getCounters(proposalId)).toMatchObject({
+      votesUp: 1,
+      votesDown: 2,
+    });
+  });
+
+  it("withdraws delegated votes on revocation", async () => {
+    await curatorVote(curator.id, proposalId, "up");
+    await delegationService.delegate(
+      delegator,
+      curator.walletAddress,
+      null,
+      "signature",
+      rules,
+    );
+
+    await delegationService.revoke(delegator.id);
+
+    expect(await getVoteOf(delegator.id, proposalId)).toBeNull();
+    expect(await getCounters(proposalId)).toMatchObject({ votesUp: 1 });
+    expect((await delegationService.getDelegations(delegator.id)).given).toBe(
+      null,
+    );
+    await expect(delegationService.revoke(delegator.id)).rejects.toThrow(
+      DelegationError,
+    );
+  });
+
+  it("lets a round-scoped delegation lapse with its round", async () => {
+    const round = await competitionRoundService.getOrOpenRound(800_000);
+    await delegationService.delegate(
+      delegator,
+      curator.walletAddress,
+      round.id,
+      "signature",
+      rules,
+    );
+    expect(
+      (await delegationService.getDelegatorWeights(curator.id, rules)).get(
+        delegator.id,
+      ),
+    ).toBe(1);
+
+    await competitionRoundService.closeWithReset(round.id, 800_005, "test");
+    await competitionRoundService.getOrOpenRound(800_005);
+
+    expect((await delegationService.getDelegations(delegator.id)).given).toBe(
+      null,
+    );
+    expect(
+      (await delegationService.getDelegatorWeights(curator.id, rules)).size,
+    ).toBe(0);
+  });
+
+  it("refuses curators that never voted and delegating to oneself", async () => {
+    await testDb.insert(users).values({ walletAddress: "tb1newcomer" });
+
+    await expect(
+      delegationService.delegate(
+        delegator,
+        "tb1newcomer",
+        null,
+        "signature",
+        rules,
+      ),
+    ).rejects.toThrow(/never voted/);
+    await expect(
+      delegationService.delegate(
+        delegator,
+        delegator.walletAddress,
+        null,
+        "signature",
+        rules,
+      ),
+    ).rejects.toThrow(/cannot delegate to itself/);
+  });
+});
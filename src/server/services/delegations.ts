@@ -0,0 +1,224 @@
+import { and, desc, eq, isNull, or } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "../db";
+import { delegations, users } from "../db/schema";
+import { competitionRoundService } from "./rounds";
+import { voteAuthService } from "./vote-auth";
+import { voteWeightService } from "./vote-weight";
+import { VoteNotAllowedError, voteService } from "./votes";
+import type { CompetitionRuleset, Delegation, VoteChallenge } from "~/types";
+
+export class DelegationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DelegationError";
+  }
+}
+
+export type DelegationAction = "delegate" | "revoke";
+
+const delegators = alias(users, "delegator");
+const delegates = alias(users, "delegate");
+
+export class DelegationService {
+  /** The exact text a delegator signs to grant or revoke their voting power. */
+  buildMessage(
+    delegatorAddress: string,
+    action: DelegationAction,
+    nonce: string,
+    scope: { delegateAddress?: string; roundId?: number } = {},
+  ): string {
+    return [
+      "BitPill delegation",
+      `Delegator: ${delegatorAddress}`,
+      ...(action === "delegate"
+        ? [
+            `Delegate: ${scope.delegateAddress}`,
+            `Round: ${scope.roundId ?? "open-ended"}`,
+          ]
+        : ["Revoke: yes"]),
+      `Nonce: ${nonce}`,
+    ].join("\n");
+  }
+
+  async issueChallenge(
+    delegatorAddress: string,
+    action: DelegationAction,
+    scope: { delegateAddress?: string; roundId?: number } = {},
+  ): Promise<VoteChallenge> {
+    const { nonce, expiresAt } =
+      await voteAuthService.issueNonce(delegatorAddress);
+
+    return {
+      nonce,
+      message: this.buildMessage(delegatorAddress, action, nonce, scope),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Delegations currently in force, optionally narrowed by `filter`. A
+   * round-scoped delegation lapses once its round closes.
+   */
+  private async listActive(
+    filter: { delegatorId?: number; delegateId?: number } = {},
+  ): Promise<Array<Delegation & { delegatorId: number }>> {
+    const round = await competitionRoundService.getOpenRound();
+
+    const rows = await db
+      .select({
+        id: delegations.id,
+        delegatorId: delegations.delegatorId,
+        delegatorAddress: delegators.walletAddress,
+        delegateAddress: delegates.walletAddress,
+        roundId: delegations.roundId,
+        createdAt: delegations.createdAt,
+      })
+      .from(delegations)
+      .innerJoin(delegators, eq(delegations.delegatorId, delegators.id))
+      .innerJoin(delegates, eq(delegations.delegateId, delegates.id))
+      .where(
+        and(
+          isNull(delegations.revokedAt),
+          round
+            ? or(isNull(delegations.roundId), eq(delegations.roundId, round.id))
+            : isNull(delegations.roundId),
+          filter.delegatorId !== undefined
+            ? eq(delegations.delegatorId, filter.delegatorId)
+            : undefined,
+          filter.delegateId !== undefined
+            ? eq(delegations.delegateId, filter.delegateId)
+            : undefined,
+        ),
+      )
+      .orderBy(desc(delegations.createdAt));
+
+    return rows.map((row) => ({
+      id: row.id,
+      delegatorId: row.delegatorId,
+      delegatorAddress: row.delegatorAddress ?? "",
+      delegateAddress: row.delegateAddress ?? "",
+      roundId: row.roundId ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  /** The delegation a wallet has given and those it has received. */
+  async getDelegations(userId: number) {
+    const [given] = await this.listActive({ delegatorId: userId });
+    const received = await this.listActive({ delegateId: userId });
+    return { given: given ?? null, received };
+  }
+
+  /**
+   * Weight each active delegator of a curator lends to the curator's votes,
+   * by delegator user id. Credits are personal in quadratic mode, so nothing
+   * is delegated there, and in balance mode delegators without a balance at
+   * the round snapshot lend nothing.
+   */
+  async getDelegatorWeights(
+    delegateId: number,
+    rules: CompetitionRuleset,
+  ): Promise<Map<number, number>> {
+    const weights = new Map<number, number>();
+    if (rules.votingMode === "quadratic") {
+      return weights;
+    }
+
+    for (const delegation of await this.listActive({ delegateId })) {
+      try {
+        weights.set(
+          delegation.delegatorId,
+          await voteWeightService.getWeight(delegation.delegatorAddress, rules),
+        );
+      } catch (error) {
+        if (!(error instanceof VoteNotAllowedError)) throw error;
+      }
+    }
+    return weights;
+  }
+
+  /**
+   * Records a signed delegation, replacing any the delegator had, and gives
+   * the delegator votes following the curator's current ones. Votes cast
+   * under a replaced delegation are withdrawn first.
+   */
+  async delegate(
+    delegator: { id: number; walletAddress: string },
+    delegateAddress: string,
+    roundId: number | null,
+    signature: string,
+    rules: CompetitionRuleset,
+  ): Promise<Delegation> {
+    if (delegateAddress === delegator.walletAddress) {
+      throw new DelegationError("A wallet cannot delegate to itself");
+    }
+
+    const [delegate] = await db
+      .select({ id: users.id, walletVerifiedAt: users.walletVerifiedAt })
+      .from(users)
+      .where(eq(users.walletAddress, delegateAddress))
+      .limit(1);
+    if (!delegate?.walletVerifiedAt) {
+      throw new DelegationError(
+        `${delegateAddress} has never voted on BitPill, so it cannot curate`,
+      );
+    }
+
+    const replaced = await db.transaction(async (tx) => {
+      const revoked = await tx
+        .update(delegations)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(delegations.delegatorId, delegator.id),
+            isNull(delegations.revokedAt),
+          ),
+        )
+        .returning({ id: delegations.id });
+
+      await tx.insert(delegations).values({
+        delegatorId: delegator.id,
+        delegateId: delegate.id,
+        roundId,
+        signature,
+      });
+      return revoked.length > 0;
+    });
+
+    if (replaced) {
+      await voteService.removeDelegatedVotes(delegator.id);
+    }
+
+    const weights = await this.getDelegatorWeights(delegate.id, rules);
+    const weight = weights.get(delegator.id);
+    if (weight !== undefined) {
+      await voteService.applyDelegation(delegator.id, delegate.id, weight);
+    }
+
+    const [created] = await this.listActive({ delegatorId: delegator.id });
+    return created!;
+  }
+
+  /** Revokes a wallet's delegation and withdraws the votes cast under it. */
+  async revoke(delegatorId: number): Promise<void> {
+    const revoked = await db
+      .update(delegations)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(delegations.delegatorId, delegatorId),
+          isNull(delegations.revokedAt),
+        ),
+      )
+      .returning({ id: delegations.id });
+
+    if (revoked.length === 0) {
+      throw new DelegationError("This wallet has no delegation to revoke");
+    }
+
+    await voteService.removeDelegatedVotes(delegatorId);
+  }
+}
+
+export const delegationService = new DelegationService();
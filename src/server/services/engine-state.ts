@@ -0,0 +1,95 @@
+import { and, eq, lte, ne } from "drizzle-orm";
+import { db } from "../db";
+import { engineState } from "../db/schema";
+import type { EngineMode, EngineState } from "~/types";
+
+const ENGINE_STATE_ID = 1;
+
+type EngineStateRow = typeof engineState.$inferSelect;
+
+export class EngineStateService {
+  private toEngineState(row: EngineStateRow): EngineState {
+    return {
+      mode: row.mode,
+      reason: row.reason ?? undefined,
+      resumeAtBlock: row.resumeAtBlock ?? undefined,
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+
+  /** The persisted engine mode; an engine that was never paused is running. */
+  async getState(): Promise<EngineState> {
+    const [row] = await db
+      .select()
+      .from(engineState)
+      .where(eq(engineState.id, ENGINE_STATE_ID))
+      .limit(1);
+
+    return row
+      ? this.toEngineState(row)
+      : { mode: "running", updatedAt: new Date(0).toISOString() };
+  }
+
+  async setMode(
+    mode: EngineMode,
+    options: { reason?: string; resumeAtBlock?: number } = {},
+  ): Promise<EngineState> {
+    const values = {
+      mode,
+      reason: options.reason ?? null,
+      resumeAtBlock:
+        mode === "running" ? null : (options.resumeAtBlock ?? null),
+      updatedAt: new Date(),
+    };
+
+    const [row] = await db
+      .insert(engineState)
+      .values({ id: ENGINE_STATE_ID, ...values })
+      .onConflictDoUpdate({ target: engineState.id, set: values })
+      .returning();
+
+    console.log(
+      `🛠️ Engine mode set to ${mode}${options.reason ? ` (${options.reason})` : ""}${values.resumeAtBlock ? `, resuming at block ${values.resumeAtBlock}` : ""}`,
+    );
+
+    return this.toEngineState(row!);
+  }
+
+  /**
+   * Switches a paused engine back to running once the chain reaches its
+   * auto-resume height. Returns true if this call resumed it.
+   */
+  async resumeIfDue(blockHeight: number): Promise<boolean> {
+    const resumed = await db
+      .update(engineState)
+      .set({
+        mode: "running",
+        reason: `Resumed automatically at block ${blockHeight}`,
+        resumeAtBlock: null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(engineState.id, ENGINE_STATE_ID),
+          ne(engineState.mode, "running"),
+          lte(engineState.resumeAtBlock, blockHeight),
+        ),
+      )
+      .returning({ id: engineState.id });
+
+    return resumed.length > 0;
+  }
+
+  /** Error shown to users whose vote or proposal arrives while not running. */
+  getUnavailableMessage(state: EngineState): string {
+    const reason = state.reason ? `: ${state.reason}` : "";
+    const resume = state.resumeAtBlock
+      ? ` Expected back at block ${state.resumeAtBlock}.`
+      : "";
+    return state.mode === "maintenance"
+      ? `BitPill is down for maintenance${reason}.${resume}`
+      : `The competition is paused${reason}.${resume}`;
+  }
+}
+
+export const engineStateService = new EngineStateService();
@@ -1,10 +1,16 @@
 import { exec } from "child_process";
+import { createHash } from "crypto";
 import { promisify } from "util";
 import { writeFile, unlink } from "fs/promises";
 import { join } from "path";
 import { nanoid } from "nanoid";
 import { env } from "~/env";
-import type { Proposal, InscriptionPayload } from "~/types";
+import type {
+  Proposal,
+  InscriptionContext,
+  InscriptionPayload,
+  InscriptionProvider,
+} from "~/types";
 import { unisatService } from "./unisat";
 import { bitcoinWallet } from "./bitcoin-wallet";
 
@@ -27,7 +33,8 @@ export class InscriptionService {
 
   generateInscriptionPayload(
     proposal: Proposal,
-    _blockHeight: number,
+    blockHeight: number,
+    context?: InscriptionContext,
   ): InscriptionPayload {
     return {
       project: "bitmemes",
@@ -41,6 +48,16 @@ export class InscriptionService {
         twitter: proposal.twitter,
         telegram: proposal.telegram,
       },
+      metadata: context?.competitionRound
+        ? {
+            proposalId: proposal.id,
+            inscriptionBlock: blockHeight,
+            inscriptionTime: new Date().toISOString(),
+            competitionRound: context.competitionRound,
+            voteMerkleRoot: context.voteMerkleRoot,
+            committedVotes: context.committedVotes,
+          }
+        : undefined,
     };
   }
 
@@ -147,9 +164,58 @@ export class InscriptionService {
     }
   }
 
-  async inscribe(
+  /**
+   * Inscribes nothing; derives a stable txid from the payload so simulated
+   * runs produce the same inscriptions every time.
+   */
+  async inscribeWithMock(
+    payload: InscriptionPayload,
+  ): Promise<{ txid: string; inscriptionId?: string }> {
+    const txid = createHash("sha256")
+      .update(
+        JSON.stringify({
+          coin: payload.coin,
+          proposalId: payload.metadata?.proposalId,
+          inscriptionBlock: payload.metadata?.inscriptionBlock,
+        }),
+      )
+      .digest("hex");
+
+    console.log(`🧪 Mock inscription ${txid}i0 for ${payload.coin.ticker}`);
+
+    return { txid, inscriptionId: `${txid}i0` };
+  }
+
+  /**
+   * The configured `INSCRIPTION_PROVIDER`, or on "auto" the first method
+   * whose credentials are present. A simulated chain always uses the mock.
+   */
+  get provider(): InscriptionProvider {
+    // Winners of synthetic blocks must never pay for a real inscription
+    if (env.BLOCK_SOURCE === "simulated") {
+      return "mock";
+    }
+    if (env.INSCRIPTION_PROVIDER !== "auto") {
+      return env.INSCRIPTION_PROVIDER;
+    }
+    if (this.unisatApiKey && env.PLATFORM_WALLET_ADDRESS) {
+      return "unisat";
+    }
+    if (this.ordinalsApiKey) {
+      return "ordinalsbot";
+    }
+    return "ord";
+  }
+
+  /**
+   * Creates the inscription for a winning proposal. With UniSat this only
+   * opens an order that still has to be paid through `payOrder`; the other
+   * providers inscribe directly.
+   */
+  async createOrder(
     proposal: Proposal,
     blockHeight: number,
+    context?: InscriptionContext,
   ): Promise<{
     txid: string;
     inscriptionId?: string;
@@ -157,119 +223,39 @@ export class InscriptionService {
     payAddress?: string;
     paymentAmount?: number;
   }> {
-    const payload = this.generateInscriptionPayload(proposal, blockHeight);
+    const payload = this.generateInscriptionPayload(
+      proposal,
+      blockHeight,
+      context,
+    );
 
     console.log(
       `Inscribing proposal ${proposal.id} (${proposal.ticker}) for block ${blockHeight}`,
     );
 
     try {
-      if (this.unisatApiKey && env.PLATFORM_WALLET_ADDRESS) {
-        console.log(
-          "Attempting automatic inscription with UniSat platform wallet...",
-        );
-
-        const result = await unisatService.createInscriptionOrder(
-          proposal,
-          blockHeight,
-          env.PLATFORM_WALLET_ADDRESS,
-        );
-
-        console.log(
-          `Platform wallet inscription order created: ${result.orderId}`,
-        );
-        console.log(
-          `Payment required: ${result.amount} sats to ${result.payAddress}`,
-        );
-
-        try {
-          console.log("💳 Initiating automatic payment...");
-
-          const walletAddress = await bitcoinWallet.getAddress();
-          console.log(`🏦 Platform wallet address: ${walletAddress}`);
-
-          const balance = await bitcoinWallet.getBalance();
-          console.log(`💰 Platform wallet balance: ${balance} sats`);
+      switch (this.provider) {
+        case "unisat": {
+          if (!env.PLATFORM_WALLET_ADDRESS) {
+            throw new Error("Platform wallet address not configured");
+          }
 
-          const utxos = await bitcoinWallet.getUTXOs();
           console.log(
-            `📦 Available UTXOs: ${utxos.length} (total: ${utxos.reduce((sum, u) => sum + u.value, 0)} sats)`,
+            "Creating UniSat inscription order for platform wallet...",
           );
 
-          if (balance < result.amount) {
-            const deficit = result.amount - balance;
-            console.error(
-              `❌ Insufficient balance for order ${result.orderId}`,
-            );
-            console.error(`   Required: ${result.amount} sats`);
-            console.error(`   Available: ${balance} sats`);
-            console.error(`   Deficit: ${deficit} sats`);
-
-            console.log(
-              `⚠️ Creating order without automatic payment - manual payment required`,
-            );
-
-            return {
-              txid: result.orderId,
-              inscriptionId: undefined,
-              orderId: result.orderId,
-              payAddress: result.payAddress,
-              paymentAmount: result.amount,
-            };
-          }
-
-          if (utxos.length === 0) {
-            throw new Error("No spendable UTXOs available in wallet");
-          }
+          const result = await unisatService.createInscriptionOrder(
+            proposal,
+            blockHeight,
+            env.PLATFORM_WALLET_ADDRESS,
+            context,
+          );
 
           console.log(
-            `🚀 Sending payment: ${result.amount} sats to ${result.payAddress}`,
+            `Platform wallet inscription order created: ${result.orderId}`,
           );
-          const paymentResult = await bitcoinWallet.sendPayment({
-            toAddress: result.payAddress,
-            amount: result.amount,
-            feeRate: parseInt(env.INSCRIPTION_FEE_RATE),
-          });
-
-          console.log(`🎉 Automatic payment successful!`);
-          console.log(`   Payment TXID: ${paymentResult.txid}`);
-          console.log(`   Amount paid: ${result.amount} sats`);
-          console.log(`   Fee: ${paymentResult.fee} sats`);
-          console.log(`   Order ID: ${result.orderId}`);
-
-          bitcoinWallet
-            .waitForConfirmation(paymentResult.txid)
-            .then((confirmed) => {
-              if (confirmed) {
-                console.log(`✅ Payment confirmed for order ${result.orderId}`);
-              } else {
-                console.log(
-                  `⚠️ Payment confirmation timeout for order ${result.orderId}`,
-                );
-              }
-            })
-            .catch((error) => {
-              console.error(
-                `❌ Payment monitoring error for order ${result.orderId}:`,
-                error,
-              );
-            });
-
-          return {
-            txid: paymentResult.txid,
-            inscriptionId: undefined,
-            orderId: result.orderId,
-            payAddress: result.payAddress,
-            paymentAmount: result.amount,
-          };
-        } catch (paymentError) {
-          console.error("❌ Automatic payment failed:", paymentError);
-          console.error(`   Order ID: ${result.orderId}`);
-          console.error(`   Payment address: ${result.payAddress}`);
-          console.error(`   Amount: ${result.amount} sats`);
-
           console.log(
-            `⚠️ Falling back to manual payment mode for order ${result.orderId}`,
+            `Payment required: ${result.amount} sats to ${result.payAddress}`,
           );
 
           return {
@@ -280,21 +266,85 @@ export class InscriptionService {
             paymentAmount: result.amount,
           };
         }
+        case "ordinalsbot":
+          console.log("Attempting inscription with OrdinalsBot...");
+          return await this.inscribeWithOrdinalsBot(payload);
+        case "mock":
+          return await this.inscribeWithMock(payload);
+        case "ord":
+          console.log("Attempting inscription with ord CLI...");
+          return await this.inscribeWithOrd(payload);
       }
-
-      if (this.ordinalsApiKey) {
-        console.log("Attempting inscription with OrdinalsBot...");
-        return await this.inscribeWithOrdinalsBot(payload);
-      }
-
-      console.log("Attempting inscription with ord CLI...");
-      return await this.inscribeWithOrd(payload);
     } catch (error) {
       console.error("Inscription failed:", error);
       throw error;
     }
   }
 
+  /**
+   * Pays a UniSat order from the platform wallet. Throws when the wallet
+   * cannot cover the payment so the caller can retry later.
+   */
+  async payOrder(
+    orderId: string,
+    payAddress: string,
+    amount: number,
+  ): Promise<{ txid: string; fee: number }> {
+    console.log("💳 Initiating automatic payment...");
+
+    const walletAddress = await bitcoinWallet.getAddress();
+    console.log(`🏦 Platform wallet address: ${walletAddress}`);
+
+    const balance = await bitcoinWallet.getBalance();
+    console.log(`💰 Platform wallet balance: ${balance} sats`);
+
+    const utxos = await bitcoinWallet.getUTXOs();
+    console.log(
+      `📦 Available UTXOs: ${utxos.length} (total: ${utxos.reduce((sum, u) => sum + u.value, 0)} sats)`,
+    );
+
+    if (balance < amount) {
+      throw new Error(
+        `Insufficient balance for order ${orderId}: required ${amount} sats, available ${balance} sats`,
+      );
+    }
+
+    if (utxos.length === 0) {
+      throw new Error("No spendable UTXOs available in wallet");
+    }
+
+    console.log(`🚀 Sending payment: ${amount} sats to ${payAddress}`);
+    const paymentResult = await bitcoinWallet.sendPayment({
+      toAddress: payAddress,
+      amount,
+      feeRate: parseInt(env.INSCRIPTION_FEE_RATE),
+    });
+
+    console.log(`🎉 Automatic payment successful!`);
+    console.log(`   Payment TXID: ${paymentResult.txid}`);
+    console.log(`   Amount paid: ${amount} sats`);
+    console.log(`   Fee: ${paymentResult.fee} sats`);
+    console.log(`   Order ID: ${orderId}`);
+
+    bitcoinWallet
+      .waitForConfirmation(paymentResult.txid)
+      .then((confirmed) => {
+        if (confirmed) {
+          console.log(`✅ Payment confirmed for order ${orderId}`);
+        } else {
+          console.log(`⚠️ Payment confirmation timeout for order ${orderId}`);
+        }
+      })
+      .catch((error) => {
+        console.error(
+          `❌ Payment monitoring error for order ${orderId}:`,
+          error,
+        );
+      });
+
+    return { txid: paymentResult.txid, fee: paymentResult.fee };
+  }
+
   private async ensureTmpDirectory(): Promise<void> {
     const tmpDir = join(process.cwd(), "tmp");
     try {
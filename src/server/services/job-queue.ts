@@ -0,0 +1,252 @@
+import { and, desc, eq, gt, inArray, lt, sql } from "drizzle-orm";
+import { db } from "../db";
+import { jobs } from "../db/schema";
+import type { Job, JobStatus, JobType } from "~/types";
+
+const BASE_RETRY_DELAY_MS = 30000; // first retry after 30 seconds
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // never wait more than an hour
+const STALE_JOB_TIMEOUT_MS = 15 * 60 * 1000; // running jobs older than this are assumed crashed
+
+export interface JobPayloads {
+  "inscription.create": {
+    proposalId: number;
+    roundId: number;
+    blockHeight: number;
+    blockHash: string;
+    /** Winner slot; jobs queued before slots existed were all slot 1 */
+    slot?: number;
+  };
+  "inscription.pay": { inscriptionId: number };
+  "pumpfun.launch": { proposalId: number; roundId: number; slot?: number };
+}
+
+export interface EnqueueOptions {
+  idempotencyKey: string;
+  maxAttempts?: number;
+  /** Block the job was created for; jobs of orphaned blocks are cancelled */
+  blockHeight?: number;
+}
+
+type JobRow = typeof jobs.$inferSelect;
+
+export class JobQueueService {
+  toJob(row: JobRow): Job {
+    return {
+      id: row.id,
+      type: row.type,
+      idempotencyKey: row.idempotencyKey,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.maxAttempts,
+      blockHeight: row.blockHeight ?? undefined,
+      runAt: row.runAt.toISOString(),
+      lockedBy: row.lockedBy ?? undefined,
+      lastError: row.lastError ?? undefined,
+      result: row.result ?? undefined,
+      completedAt: row.completedAt?.toISOString(),
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Queues a job unless one with the same idempotency key already exists, in
+   * which case the existing job is returned untouched.
+   */
+  async enqueue<T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    options: EnqueueOptions,
+  ): Promise<JobRow> {
+    const [created] = await db
+      .insert(jobs)
+      .values({
+        type,
+        payload,
+        idempotencyKey: options.idempotencyKey,
+        maxAttempts: options.maxAttempts,
+        blockHeight: options.blockHeight,
+      })
+      .onConflictDoNothing({ target: jobs.idempotencyKey })
+      .returning();
+
+    if (created) {
+      console.log(`📥 Queued ${type} job ${created.id}`);
+      return created;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.idempotencyKey, options.idempotencyKey))
+      .limit(1);
+    return existing!;
+  }
+
+  /**
+   * Locks the next due job for `workerId`. SKIP LOCKED keeps concurrent
+   * workers from picking up the same job.
+   */
+  async claimNext(workerId: string): Promise<JobRow | null> {
+    const [claimed] = await db
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        updatedAt: new Date(),
+      })
+      .where(
+        eq(
+          jobs.id,
+          sql`(SELECT ${jobs.id} FROM ${jobs} WHERE ${jobs.status} = 'pending' AND ${jobs.runAt} <= now() ORDER BY ${jobs.runAt}, ${jobs.id} LIMIT 1 FOR UPDATE SKIP LOCKED)`,
+        ),
+      )
+      .returning();
+
+    return claimed ?? null;
+  }
+
+  async complete(jobId: number, result?: Record<string, unknown>) {
+    await db
+      .update(jobs)
+      .set({
+        status: "completed",
+        result,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, jobId));
+  }
+
+  /**
+   * Records a failed attempt and schedules a retry with exponential backoff,
+   * or moves the job to the dead-letter state once it is out of attempts.
+   * Returns whether the job was dead-lettered.
+   */
+  async fail(job: JobRow, error: unknown): Promise<boolean> {
+    const message = error instanceof Error ? error.message : String(error);
+    const isDead = job.attempts >= job.maxAttempts;
+    const delay = Math.min(
+      BASE_RETRY_DELAY_MS * Math.pow(2, job.attempts - 1),
+      MAX_RETRY_DELAY_MS,
+    );
+
+    await db
+      .update(jobs)
+      .set({
+        status: isDead ? "dead" : "pending",
+        runAt: isDead ? job.runAt : new Date(Date.now() + delay),
+        lastError: message,
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, job.id));
+
+    if (isDead) {
+      console.error(
+        `💀 ${job.type} job ${job.id} dead-lettered after ${job.attempts} attempt(s): ${message}`,
+      );
+    } else {
+      console.warn(
+        `🔁 ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`,
+      );
+    }
+    return isDead;
+  }
+
+  /** Puts jobs whose worker died mid-run back in the queue. */
+  async recoverStaleJobs() {
+    const recovered = await db
+      .update(jobs)
+      .set({
+        status: "pending",
+        lockedAt: null,
+        lockedBy: null,
+        lastError: "Worker stopped while running the job",
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(jobs.status, "running"),
+          lt(jobs.lockedAt, new Date(Date.now() - STALE_JOB_TIMEOUT_MS)),
+        ),
+      )
+      .returning({ id: jobs.id });
+
+    if (recovered.length > 0) {
+      console.warn(`♻️ Re-queued ${recovered.length} stale job(s)`);
+    }
+  }
+
+  /** Cancels unfinished jobs created for blocks above `forkHeight`. */
+  async cancelJobsAfterBlock(forkHeight: number) {
+    const cancelled = await db
+      .update(jobs)
+      .set({
+        status: "cancelled",
+        lastError: `Block orphaned by a reorg below ${forkHeight + 1}`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          gt(jobs.blockHeight, forkHeight),
+          inArray(jobs.status, ["pending", "dead"]),
+        ),
+      )
+      .returning({ id: jobs.id });
+
+    return cancelled.length;
+  }
+
+  /** Re-queues a dead or cancelled job with a fresh set of attempts. */
+  async retry(jobId: number): Promise<JobRow | null> {
+    const [job] = await db
+      .update(jobs)
+      .set({
+        status: "pending",
+        attempts: 0,
+        runAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(eq(jobs.id, jobId), inArray(jobs.status, ["dead", "cancelled"])),
+      )
+      .returning();
+
+    return job ?? null;
+  }
+
+  async listJobs(status: JobStatus | undefined, limit: number, offset: number) {
+    const rows = await db
+      .select()
+      .from(jobs)
+      .where(status ? eq(jobs.status, status) : undefined)
+      .orderBy(desc(jobs.id))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      jobs: rows.map((row) => this.toJob(row)),
+      counts: await this.getCounts(),
+    };
+  }
+
+  async getCounts(): Promise<Partial<Record<JobStatus, number>>> {
+    const counts = await db
+      .select({ status: jobs.status, count: sql<number>`count(*)` })
+      .from(jobs)
+      .groupBy(jobs.status);
+
+    return Object.fromEntries(
+      counts.map((row) => [row.status, Number(row.count)]),
+    );
+  }
+}
+
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,140 @@
+import { and, asc, desc, eq, gte, inArray, lte, or, sql } from "drizzle-orm";
+import { db, type Transaction } from "../db";
+import {
+  leaderboardSnapshots,
+  processedBlocks,
+  proposals,
+  proposalStatusEvents,
+} from "../db/schema";
+import { competitionConfigService } from "./competition-config";
+import { rankingService } from "./ranking";
+import type {
+  BlockInfo,
+  LeaderboardSnapshot,
+  LeaderboardSnapshotEntry,
+} from "~/types";
+
+type LeaderboardSnapshotRow = typeof leaderboardSnapshots.$inferSelect;
+
+export class LeaderboardSnapshotService {
+  private toSnapshot(row: LeaderboardSnapshotRow): LeaderboardSnapshot {
+    return {
+      blockHeight: row.blockHeight,
+      blockHash: row.blockHash,
+      rankingStrategy: row.rankingStrategy,
+      entries: row.entries,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Stores the ranked leaderboard as it stands after `block` was processed.
+   * Proposals that left the competition in this block are kept in the
+   * snapshot so eliminations can be explained later.
+   */
+  async recordSnapshot(
+    block: BlockInfo,
+    executor: typeof db | Transaction = db,
+  ) {
+    const transitionedInBlock = executor
+      .select({ proposalId: proposalStatusEvents.proposalId })
+      .from(proposalStatusEvents)
+      .where(
+        and(
+          eq(proposalStatusEvents.blockHeight, block.height),
+          sql`${proposalStatusEvents.revertedAt} IS NULL`,
+        ),
+      );
+
+    const rules = await competitionConfigService.getEffectiveConfig(
+      block.height,
+      executor,
+    );
+    const strategy = rankingService.getStrategy(rules.rankingStrategy);
+    const context = { blockHeight: block.height };
+
+    const rows = await executor
+      .select({
+        id: proposals.id,
+        ticker: proposals.ticker,
+        votesUp: proposals.votesUp,
+        votesDown: proposals.votesDown,
+        totalVotes: proposals.totalVotes,
+        status: proposals.status,
+        leaderSlot: proposals.leaderSlot,
+        score: rankingService.scoreColumn(strategy, context),
+      })
+      .from(proposals)
+      .where(
+        or(
+          inArray(proposals.status, ["active", "leader", "inscribing"]),
+          inArray(proposals.id, transitionedInBlock),
+        ),
+      )
+      .orderBy(...rankingService.orderBy(strategy, context));
+
+    const entries: LeaderboardSnapshotEntry[] = rows.map((row, index) => ({
+      proposalId: row.id,
+      ticker: row.ticker,
+      rank: index + 1,
+      votesUp: row.votesUp,
+      votesDown: row.votesDown,
+      totalVotes: row.totalVotes,
+      score: row.score,
+      status: row.status,
+      leaderSlot: row.leaderSlot ?? undefined,
+    }));
+
+    // Snapshots are immutable: re-processing the same block keeps the first one
+    await executor
+      .insert(leaderboardSnapshots)
+      .values({
+        blockHeight: block.height,
+        blockHash: block.id,
+        rankingStrategy: strategy.name,
+        entries,
+      })
+      .onConflictDoNothing();
+  }
+
+  /**
+   * Returns the snapshots of canonical blocks in the given range. Snapshots
+   * taken on blocks orphaned by a reorg are kept but not listed.
+   */
+  async getHistory(
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<LeaderboardSnapshot[]> {
+    const rows = await db
+      .select({ snapshot: leaderboardSnapshots })
+      .from(leaderboardSnapshots)
+      .innerJoin(
+        processedBlocks,
+        and(
+          eq(processedBlocks.height, leaderboardSnapshots.blockHeight),
+          eq(processedBlocks.hash, leaderboardSnapshots.blockHash),
+        ),
+      )
+      .where(
+        and(
+          gte(leaderboardSnapshots.blockHeight, fromBlock),
+          lte(leaderboardSnapshots.blockHeight, toBlock),
+        ),
+      )
+      .orderBy(asc(leaderboardSnapshots.blockHeight));
+
+    return rows.map((row) => this.toSnapshot(row.snapshot));
+  }
+
+  async getLatestBlockHeight(): Promise<number | null> {
+    const rows = await db
+      .select({ blockHeight: leaderboardSnapshots.blockHeight })
+      .from(leaderboardSnapshots)
+      .orderBy(desc(leaderboardSnapshots.blockHeight))
+      .limit(1);
+
+    return rows[0]?.blockHeight ?? null;
+  }
+}
+
+export const leaderboardSnapshotService = new LeaderboardSnapshotService();
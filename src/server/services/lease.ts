@@ -0,0 +1,85 @@
+import { hostname } from "os";
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { serviceLeases } from "../db/schema";
+import { env } from "~/env";
+import type { ServiceLease } from "~/types";
+
+/**
+ * How long a lease stays valid without renewal. Holders renew on every tick,
+ * so a crashed node is replaced by a standby once this has elapsed.
+ */
+export const LEASE_TTL_MS = 60000;
+
+type ServiceLeaseRow = typeof serviceLeases.$inferSelect;
+
+export class LeaseService {
+  readonly nodeId = env.NODE_ID ?? `${hostname()}:${process.pid}`;
+
+  private toServiceLease(row: ServiceLeaseRow): ServiceLease {
+    return {
+      name: row.name,
+      holderId: row.holderId,
+      acquiredAt: row.acquiredAt.toISOString(),
+      renewedAt: row.renewedAt.toISOString(),
+      expiresAt: row.expiresAt.toISOString(),
+      isHeldByThisNode: row.holderId === this.nodeId,
+    };
+  }
+
+  /**
+   * Acquires or renews the named lease for this node. Returns false while
+   * another node holds an unexpired lease. Timestamps come from the database
+   * clock so nodes with skewed clocks still agree on expiry.
+   */
+  async tryAcquire(name: string, ttlMs = LEASE_TTL_MS): Promise<boolean> {
+    const expiresAt = sql`now() + ${ttlMs} * interval '1 millisecond'`;
+
+    const rows = await db
+      .insert(serviceLeases)
+      .values({
+        name,
+        holderId: this.nodeId,
+        acquiredAt: sql`now()`,
+        renewedAt: sql`now()`,
+        expiresAt,
+      })
+      .onConflictDoUpdate({
+        target: serviceLeases.name,
+        set: {
+          holderId: this.nodeId,
+          // Keep the original acquisition time when we are only renewing
+          acquiredAt: sql`CASE WHEN ${serviceLeases.holderId} = ${this.nodeId} THEN ${serviceLeases.acquiredAt} ELSE now() END`,
+          renewedAt: sql`now()`,
+          expiresAt,
+        },
+        setWhere: sql`${serviceLeases.holderId} = ${this.nodeId} OR ${serviceLeases.expiresAt} < now()`,
+      })
+      .returning({ holderId: serviceLeases.holderId });
+
+    return rows.length > 0;
+  }
+
+  async release(name: string) {
+    await db
+      .delete(serviceLeases)
+      .where(
+        and(
+          eq(serviceLeases.name, name),
+          eq(serviceLeases.holderId, this.nodeId),
+        ),
+      );
+  }
+
+  async getLease(name: string): Promise<ServiceLease | null> {
+    const rows = await db
+      .select()
+      .from(serviceLeases)
+      .where(eq(serviceLeases.name, name))
+      .limit(1);
+
+    return rows[0] ? this.toServiceLease(rows[0]) : null;
+  }
+}
+
+export const leaseService = new LeaseService();
@@ -0,0 +1,228 @@
+import { and, desc, eq, gt, ne } from "drizzle-orm";
+import { db } from "../db";
+import { onchainVotes, votes } from "../db/schema";
+import { getBlockSource } from "../btc/block-source";
+import { findBlockVotes, type BlockVote } from "../btc/vote-payload";
+import { voteCommitService } from "./vote-commits";
+import { voteCreditService } from "./vote-credits";
+import { voteSubmissionService } from "./vote-submission";
+import { voteWeightService } from "./vote-weight";
+import { VoteNotAllowedError, voteService } from "./votes";
+import { WalletNotEligibleError } from "./wallet-eligibility";
+import type { BlockInfo, CompetitionConfig, OnchainVote } from "~/types";
+
+type OnchainVoteRow = typeof onchainVotes.$inferSelect;
+
+interface VoteOutcome {
+  status: "applied" | "ignored";
+  reason?: string;
+  voteId?: number;
+}
+
+export class OnchainVoteService {
+  private toOnchainVote(row: OnchainVoteRow): OnchainVote {
+    return {
+      id: row.id,
+      txid: row.txid,
+      blockHeight: row.blockHeight,
+      blockHash: row.blockHash,
+      walletAddress: row.walletAddress ?? undefined,
+      proposalId: row.proposalId,
+      voteType: row.voteType,
+      status: row.status,
+      reason: row.reason ?? undefined,
+      voteId: row.voteId ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+
+  /** The latest on-chain votes, optionally for one proposal or wallet. */
+  async list(
+    filter: { proposalId?: number; walletAddress?: string } = {},
+    limit = 100,
+  ): Promise<OnchainVote[]> {
+    const rows = await db
+      .select()
+      .from(onchainVotes)
+      .where(
+        and(
+          filter.proposalId !== undefined
+            ? eq(onchainVotes.proposalId, filter.proposalId)
+            : undefined,
+          filter.walletAddress !== undefined
+            ? eq(onchainVotes.walletAddress, filter.walletAddress)
+            : undefined,
+        ),
+      )
+      .orderBy(desc(onchainVotes.blockHeight), desc(onchainVotes.id))
+      .limit(limit);
+
+    return rows.map((row) => this.toOnchainVote(row));
+  }
+
+  /**
+   * Casts the OP_RETURN votes in a block for the address the first input of
+   * each transaction spends from, under the same rules as API votes.
+   * Transactions already recorded for the block are skipped, so a block can
+   * be processed again after a failure.
+   */
+  async processBlock(block: BlockInfo, rules: CompetitionConfig) {
+    const source = getBlockSource();
+    const rawBlock = await source.getRawBlock(block.id);
+    if (!rawBlock) {
+      return;
+    }
+
+    const found = findBlockVotes(rawBlock);
+    if (found.length === 0) {
+      return;
+    }
+
+    const recorded = await db
+      .select({ txid: onchainVotes.txid })
+      .from(onchainVotes)
+      .where(eq(onchainVotes.blockHash, block.id));
+    const seen = new Set(recorded.map((row) => row.txid));
+    const phase = voteCommitService.phaseAt(rules, block.height);
+
+    let applied = 0;
+    for (const vote of found) {
+      if (seen.has(vote.txid)) {
+        continue;
+      }
+
+      const [walletAddress] = await source.getInputAddresses(vote.txid);
+      const outcome =
+        phase.phase !== "open"
+          ? {
+              status: "ignored" as const,
+              reason:
+                "Votes are committed and revealed in this competition, so on-chain votes are not counted",
+            }
+          : await this.apply(vote, walletAddress ?? null, rules);
+
+      await db
+        .insert(onchainVotes)
+        .values({
+          txid: vote.txid,
+          blockHeight: block.height,
+          blockHash: block.id,
+          walletAddress,
+          proposalId: vote.proposalId,
+          voteType: vote.voteType,
+          ...outcome,
+        })
+        .onConflictDoNothing();
+
+      if (outcome.status === "applied") {
+        applied++;
+      } else {
+        console.log(
+          `⛓️ Ignored on-chain vote ${vote.txid} on proposal ${vote.proposalId}: ${outcome.reason}`,
+        );
+      }
+    }
+
+    console.log(
+      `⛓️ Block ${block.height}: applied ${applied} of ${found.length} on-chain vote(s)`,
+    );
+  }
+
+  private async apply(
+    vote: BlockVote,
+    walletAddress: string | null,
+    rules: CompetitionConfig,
+  ): Promise<VoteOutcome> {
+    if (!walletAddress) {
+      return {
+        status: "ignored",
+        reason: "The first input does not spend from an address",
+      };
+    }
+
+    try {
+      const { vote: cast } = await voteSubmissionService.submit(
+        {
+          walletAddress,
+          proposalId: vote.proposalId,
+          voteType: vote.voteType,
+          txid: vote.txid,
+        },
+        rules,
+      );
+      return { status: "applied", voteId: cast.id };
+    } catch (error) {
+      if (
+        error instanceof VoteNotAllowedError ||
+        error instanceof WalletNotEligibleError
+      ) {
+        return { status: "ignored", reason: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Marks votes read from blocks above `forkHeight` as orphaned and retracts
+   * the ones still standing. Transactions that make it into the new branch
+   * are read again when their block is processed.
+   */
+  async rollbackAfter(forkHeight: number): Promise<number> {
+    const orphaned = await db
+      .update(onchainVotes)
+      .set({ status: "orphaned" })
+      .where(
+        and(
+          gt(onchainVotes.blockHeight, forkHeight),
+          ne(onchainVotes.status, "orphaned"),
+        ),
+      )
+      .returning();
+
+    const rules = await voteWeightService.getVotingRules();
+    const round =
+      rules.votingMode === "quadratic"
+        ? await voteCreditService.getCreditRound(rules)
+        : null;
+
+    for (const record of orphaned) {
+      if (!record.voteId) {
+        continue;
+      }
+
+      // A vote the wallet has changed since is no longer this transaction's
+      const [standing] = await db
+        .select({ userId: votes.userId, proposalId: votes.proposalId })
+        .from(votes)
+        .where(and(eq(votes.id, record.voteId), eq(votes.txid, record.txid)))
+        .limit(1);
+      if (!standing) {
+        continue;
+      }
+
+      try {
+        await voteService.retractVote(standing.userId, standing.proposalId, {
+          charge: round
+            ? (tx) =>
+                voteCreditService.reallocate(
+                  tx,
+                  round,
+                  standing.userId,
+                  standing.proposalId,
+                  0,
+                )
+            : undefined,
+        });
+      } catch (error) {
+        if (!(error instanceof VoteNotAllowedError)) throw error;
+        console.warn(
+          `⚠️ On-chain vote ${record.txid} was orphaned but could not be retracted: ${error.message}`,
+        );
+      }
+    }
+
+    return orphaned.length;
+  }
+}
+
+export const onchainVoteService = new OnchainVoteService();
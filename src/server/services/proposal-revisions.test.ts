@@ -0,0 +1,122 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestWallet } from "~/test/bitcoin";
+import { createTestDb, resetTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { ProposalEditError, proposalEditSchema, proposalRevisionService } =
+  await import("./proposal-revisions");
+const { getBlockSource } = await import("~/server/btc/block-source");
+const { proposals, users, voteEvents } = await import("~/server/db/schema");
+
+const SOLANA_WALLET = "So1anaSubmitterWa11et1111111111111111111111";
+const editor = createTestWallet(7);
+const EDITOR_ADDRESS = editor.address;
+
+async function signedEdit(walletAddress: string, proposalId: number) {
+  const changes = { description: "Fixed typo" };
+  const challenge = await proposalRevisionService.issueChallenge(
+    walletAddress,
+    proposalId,
+    changes,
+  );
+  return {
+    walletAddress,
+    changes,
+    nonce: challenge.nonce,
+    signature: editor.sign(challenge.message),
+  };
+}
+
+describe("proposalRevisionService.edit", () => {
+  let proposalId: number;
+  let submitterId: number;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  });
+
+  beforeEach(async () => {
+    await resetTestDb(testDb);
+
+    const [submitter] = await testDb
+      .insert(users)
+      .values({ walletAddress: SOLANA_WALLET })
+      .returning();
+    submitterId = submitter!.id;
+
+    const [proposal] = await testDb
+      .insert(proposals)
+      .values({
+        name: "Pepe",
+        ticker: "PEPE",
+        tickerSkeleton: "PEPE",
+        description: "Fixed typp",
+        imageUrl: "https://example.com/pepe.png",
+        submittedBy: submitterId,
+        editorAddress: EDITOR_ADDRESS,
+        creationBlock: await getBlockSource().getCurrentBlockHeight(),
+      })
+      .returning();
+    proposalId = proposal!.id;
+  });
+
+  it("applies an edit signed by the linked Bitcoin address", async () => {
+    const revision = await proposalRevisionService.edit(
+      proposalId,
+      await signedEdit(EDITOR_ADDRESS, proposalId),
+    );
+
+    expect(revision).toMatchObject({
+      revision: 1,
+      changes: { description: "Fixed typo" },
+      previous: { description: "Fixed typp" },
+    });
+  });
+
+  it("refuses edits from the submitter's Solana wallet", async () => {
+    await expect(
+      proposalRevisionService.edit(proposalId, {
+        walletAddress: SOLANA_WALLET,
+        changes: { description: "Fixed typo" },
+        nonce: "nonce",
+        signature: "signature",
+      }),
+    ).rejects.toMatchObject({ code: "not-submitter" });
+  });
+
+  it("closes editing at the first vote, even inside the block window", async () => {
+    await testDb.insert(voteEvents).values({
+      userId: submitterId,
+      proposalId,
+      action: "cast",
+      toType: "up",
+    });
+
+    const edit = proposalRevisionService.edit(
+      proposalId,
+      await signedEdit(EDITOR_ADDRESS, proposalId),
+    );
+    await expect(edit).rejects.toBeInstanceOf(ProposalEditError);
+    await expect(edit).rejects.toMatchObject({ code: "window-closed" });
+  });
+});
+
+describe("proposalEditSchema", () => {
+  it("checks values as they will be stored", () => {
+    expect(proposalEditSchema.safeParse({ description: "   " }).success).toBe(
+      false,
+    );
+    expect(
+      proposalEditSchema.parse({ website: "  https://pepe.fun " }),
+    ).toEqual({ website: "https://pepe.fun" });
+    expect(proposalEditSchema.parse({ twitter: "  " })).toEqual({
+      twitter: "",
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { asc, count, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db, type Transaction } from "../db";
+import {
+  proposalRevisions,
+  proposals,
+  users,
+  voteCommitments,
+  voteEvents,
+} from "../db/schema";
+import { getBlockSource } from "../btc/block-source";
+import { competitionConfigService } from "./competition-config";
+import { voteAuthService } from "./vote-auth";
+import type {
+  ProposalEdit,
+  ProposalEditableField,
+  ProposalRevision,
+  VoteChallenge,
+} from "~/types";
+
+export class ProposalEditError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | "not-found"
+      | "not-submitter"
+      | "window-closed"
+      | "no-changes",
+  ) {
+    super(message);
+    this.name = "ProposalEditError";
+  }
+}
+
+/** Editable fields in the order they appear in the signed message. */
+export const PROPOSAL_EDITABLE_FIELDS: ProposalEditableField[] = [
+  "description",
+  "website",
+  "twitter",
+  "telegram",
+  "bannerUrl",
+];
+
+// Links may be cleared, so an empty value is allowed
+const editableUrl = z
+  .string()
+  .trim()
+  .pipe(z.string().url().or(z.literal("")));
+
+/**
+ * Accepted changes; the same limits apply as when a proposal is created.
+ * Values are trimmed before they are checked, as they are when stored.
+ */
+export const proposalEditSchema = z
+  .object({
+    description: z.string().trim().min(1).max(280),
+    website: editableUrl,
+    twitter: editableUrl,
+    telegram: editableUrl,
+    bannerUrl: editableUrl,
+  })
+  .partial()
+  .strict()
+  .refine((changes) => Object.keys(changes).length > 0, {
+    message: "At least one field must change",
+  });
+
+export class ProposalRevisionService {
+  /**
+   * The exact text a submitter signs to edit their proposal. The changes are
+   * serialized in a fixed field order so the client can rebuild it.
+   */
+  buildMessage(
+    walletAddress: string,
+    proposalId: number,
+    changes: ProposalEdit,
+    nonce: string,
+  ): string {
+    return [
+      "BitPill proposal edit",
+      `Address: ${walletAddress}`,
+      `Proposal: ${proposalId}`,
+      `Changes: ${JSON.stringify(this.normalize(changes))}`,
+      `Nonce: ${nonce}`,
+    ].join("\n");
+  }
+
+  async issueChallenge(
+    walletAddress: string,
+    proposalId: number,
+    changes: ProposalEdit,
+  ): Promise<VoteChallenge> {
+    const { nonce, expiresAt } =
+      await voteAuthService.issueNonce(walletAddress);
+
+    return {
+      nonce,
+      message: this.buildMessage(walletAddress, proposalId, changes, nonce),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Last block before which a proposal created at `creationBlock` can be
+   * edited, under the ruleset in force when it was created. Null when
+   * editing is off or the creation block is unknown.
+   */
+  async getEditableUntilBlock(
+    creationBlock: number | null,
+  ): Promise<number | null> {
+    if (creationBlock === null) {
+      return null;
+    }
+    const rules =
+      await competitionConfigService.getEffectiveConfig(creationBlock);
+    return rules.proposalEditBlocks > 0
+      ? creationBlock + rules.proposalEditBlocks
+      : null;
+  }
+
+  /** Revisions of a proposal, oldest first. */
+  async getHistory(proposalId: number): Promise<ProposalRevision[]> {
+    const rows = await db
+      .select({
+        id: proposalRevisions.id,
+        revision: proposalRevisions.revision,
+        editedBy: users.walletAddress,
+        blockHeight: proposalRevisions.blockHeight,
+        changes: proposalRevisions.changes,
+        previous: proposalRevisions.previous,
+        createdAt: proposalRevisions.createdAt,
+      })
+      .from(proposalRevisions)
+      .innerJoin(users, eq(proposalRevisions.editedBy, users.id))
+      .where(eq(proposalRevisions.proposalId, proposalId))
+      .orderBy(asc(proposalRevisions.revision));
+
+    return rows.map((row) => ({
+      ...row,
+      editedBy: row.editedBy ?? "",
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Applies an edit signed by the Bitcoin address the submitter linked to
+   * the proposal. Only active proposals can be edited, and editing closes at
+   * the first vote or commitment or when the window ends, whichever comes
+   * first.
+   */
+  async edit(
+    proposalId: number,
+    submission: {
+      walletAddress: string;
+      changes: ProposalEdit;
+      nonce: string;
+      signature: string;
+    },
+  ): Promise<ProposalRevision> {
+    const { walletAddress, signature } = submission;
+    const changes = this.normalize(submission.changes);
+
+    const [proposal] = await db
+      .select({
+        status: proposals.status,
+        creationBlock: proposals.creationBlock,
+        submitterId: users.id,
+        editorAddress: proposals.editorAddress,
+      })
+      .from(proposals)
+      .leftJoin(users, eq(proposals.submittedBy, users.id))
+      .where(eq(proposals.id, proposalId))
+      .limit(1);
+
+    if (!proposal) {
+      throw new ProposalEditError("Proposal not found", "not-found");
+    }
+    if (!proposal.submitterId || proposal.editorAddress !== walletAddress) {
+      throw new ProposalEditError(
+        proposal.editorAddress
+          ? "Only the Bitcoin address linked when this proposal was submitted can edit it"
+          : "No Bitcoin address was linked to this proposal, so it cannot be edited",
+        "not-submitter",
+      );
+    }
+    if (proposal.status !== "active") {
+      throw new ProposalEditError(
+        "Only active proposals can be edited",
+        "window-closed",
+      );
+    }
+
+    const editableUntilBlock = await this.getEditableUntilBlock(
+      proposal.creationBlock,
+    );
+    const blockHeight = await getBlockSource().getCurrentBlockHeight();
+    if (editableUntilBlock === null || blockHeight >= editableUntilBlock) {
+      throw new ProposalEditError(
+        editableUntilBlock === null
+          ? "This proposal cannot be edited"
+          : `The editing window closed at block ${editableUntilBlock}`,
+        "window-closed",
+      );
+    }
+    await this.assertNoVotes(db, proposalId);
+
+    await voteAuthService.verifySignedMessage(
+      walletAddress,
+      this.buildMessage(walletAddress, proposalId, changes, submission.nonce),
+      submission.nonce,
+      signature,
+    );
+
+    const revisionId = await db.transaction(async (tx) => {
+      // Votes lock the proposal too, so none can land between the check and the edit
+      const [current] = await tx
+        .select({
+          description: proposals.description,
+          website: proposals.website,
+          twitter: proposals.twitter,
+          telegram: proposals.telegram,
+          bannerUrl: proposals.bannerUrl,
+        })
+        .from(proposals)
+        .where(eq(proposals.id, proposalId))
+        .for("update");
+      await this.assertNoVotes(tx, proposalId);
+
+      const applied: ProposalEdit = {};
+      const previous: ProposalEdit = {};
+      for (const field of PROPOSAL_EDITABLE_FIELDS) {
+        const value = changes[field];
+        if (value === undefined || value === (current![field] ?? "")) continue;
+        applied[field] = value;
+        previous[field] = current![field] ?? "";
+      }
+      if (Object.keys(applied).length === 0) {
+        throw new ProposalEditError(
+          "The edit does not change the proposal",
+          "no-changes",
+        );
+      }
+
+      await tx
+        .update(proposals)
+        .set({ ...applied, updatedAt: new Date() })
+        .where(eq(proposals.id, proposalId));
+
+      const [{ revisions } = { revisions: 0 }] = await tx
+        .select({ revisions: count() })
+        .from(proposalRevisions)
+        .where(eq(proposalRevisions.proposalId, proposalId));
+
+      const [row] = await tx
+        .insert(proposalRevisions)
+        .values({
+          proposalId,
+          revision: revisions + 1,
+          editedBy: proposal.submitterId!,
+          blockHeight,
+          changes: applied,
+          previous,
+          signature,
+        })
+        .returning({ id: proposalRevisions.id });
+      return row!.id;
+    });
+
+    const history = await this.getHistory(proposalId);
+    return history.find((revision) => revision.id === revisionId)!;
+  }
+
+  /** Keeps only editable fields, in signing order, with trimmed values. */
+  private normalize(changes: ProposalEdit): ProposalEdit {
+    const normalized: ProposalEdit = {};
+    for (const field of PROPOSAL_EDITABLE_FIELDS) {
+      const value = changes[field];
+      if (value !== undefined) normalized[field] = value.trim();
+    }
+    return normalized;
+  }
+
+  private async assertNoVotes(
+    executor: typeof db | Transaction,
+    proposalId: number,
+  ) {
+    const [voted] = await executor
+      .select({ id: voteEvents.id })
+      .from(voteEvents)
+      .where(eq(voteEvents.proposalId, proposalId))
+      .limit(1);
+    const [committed] = await executor
+      .select({ id: voteCommitments.id })
+      .from(voteCommitments)
+      .where(eq(voteCommitments.proposalId, proposalId))
+      .limit(1);
+
+    if (voted || committed) {
+      throw new ProposalEditError(
+        "Proposals can no longer be edited once voting on them has started",
+        "window-closed",
+      );
+    }
+  }
+}
+
+export const proposalRevisionService = new ProposalRevisionService();
@@ -0,0 +1,166 @@
+import { asc, desc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { blockTracker, proposals, proposalStatusEvents } from "../db/schema";
+import { tickerService } from "./tickers";
+import type {
+  Proposal,
+  ProposalStatusActor,
+  ProposalStatusEvent,
+} from "~/types";
+
+type ProposalStatus = Proposal["status"];
+type ProposalRow = typeof proposals.$inferSelect;
+
+/** Fields a status change may set alongside the new status. */
+export type ProposalStatusChanges = Partial<
+  Pick<
+    ProposalRow,
+    | "firstTimeAsLeader"
+    | "leaderStartBlock"
+    | "leaderSlot"
+    | "leaderboardMinBlocks"
+    | "expirationBlock"
+  >
+>;
+
+export interface ProposalStatusTransitionOptions {
+  actor: ProposalStatusActor;
+  reason?: string;
+  /** Defaults to the last block processed by the engine */
+  blockHeight?: number;
+  changes?: ProposalStatusChanges;
+}
+
+/**
+ * Legal proposal status transitions. `inscribed` and `rejected` are final;
+ * `expired` proposals only come back through a competition reset.
+ */
+export const PROPOSAL_STATUS_TRANSITIONS: Record<
+  ProposalStatus,
+  readonly ProposalStatus[]
+> = {
+  active: ["leader", "expired", "rejected"],
+  leader: ["inscribing", "active", "expired", "rejected"],
+  inscribing: ["inscribed", "active"],
+  inscribed: [],
+  rejected: [],
+  expired: ["active"],
+};
+
+export class InvalidProposalTransitionError extends Error {
+  constructor(
+    readonly proposalId: number,
+    readonly fromStatus: ProposalStatus,
+    readonly toStatus: ProposalStatus,
+  ) {
+    super(
+      `Proposal ${proposalId} cannot move from "${fromStatus}" to "${toStatus}"`,
+    );
+    this.name = "InvalidProposalTransitionError";
+  }
+}
+
+export class ProposalStatusService {
+  canTransition(fromStatus: ProposalStatus, toStatus: ProposalStatus) {
+    return PROPOSAL_STATUS_TRANSITIONS[fromStatus].includes(toStatus);
+  }
+
+  /**
+   * Moves a proposal to `toStatus` and records the change in the status
+   * event log. The current status is read under a row lock, so concurrent
+   * writers cannot both pass validation. Moving a proposal to the status it
+   * already has is a no-op.
+   */
+  async transition(
+    proposalId: number,
+    toStatus: ProposalStatus,
+    options: ProposalStatusTransitionOptions,
+  ): Promise<ProposalRow> {
+    const blockHeight =
+      options.blockHeight ?? (await this.getCurrentBlockHeight());
+
+    return db.transaction(async (tx) => {
+      const [proposal] = await tx
+        .select()
+        .from(proposals)
+        .where(eq(proposals.id, proposalId))
+        .for("update");
+
+      if (!proposal) {
+        throw new Error(`Proposal ${proposalId} not found`);
+      }
+
+      if (proposal.status === toStatus) {
+        return proposal;
+      }
+
+      if (!this.canTransition(proposal.status, toStatus)) {
+        throw new InvalidProposalTransitionError(
+          proposalId,
+          proposal.status,
+          toStatus,
+        );
+      }
+
+      await tx.insert(proposalStatusEvents).values({
+        proposalId,
+        blockHeight,
+        fromStatus: proposal.status,
+        toStatus,
+        actor: options.actor,
+        reason: options.reason,
+        previousFirstTimeAsLeader: proposal.firstTimeAsLeader,
+        previousLeaderStartBlock: proposal.leaderStartBlock,
+        previousExpirationBlock: proposal.expirationBlock,
+        previousLeaderSlot: proposal.leaderSlot,
+      });
+
+      const [updated] = await tx
+        .update(proposals)
+        .set({ ...options.changes, status: toStatus, updatedAt: new Date() })
+        .where(eq(proposals.id, proposalId))
+        .returning();
+
+      if (toStatus === "inscribed") {
+        await tickerService.reserve(tx, proposal);
+      }
+
+      console.log(
+        `🔀 Proposal ${proposalId}: ${proposal.status} → ${toStatus} by ${options.actor} at block ${blockHeight}${options.reason ? ` (${options.reason})` : ""}`,
+      );
+
+      return updated!;
+    });
+  }
+
+  async getHistory(proposalId: number): Promise<ProposalStatusEvent[]> {
+    const rows = await db
+      .select()
+      .from(proposalStatusEvents)
+      .where(eq(proposalStatusEvents.proposalId, proposalId))
+      .orderBy(asc(proposalStatusEvents.id));
+
+    return rows.map((row) => ({
+      id: row.id,
+      fromStatus: row.fromStatus,
+      toStatus: row.toStatus,
+      actor: row.actor,
+      reason: row.reason ?? undefined,
+      blockHeight: row.blockHeight,
+      revertedAt: row.revertedAt?.toISOString(),
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  private async getCurrentBlockHeight(): Promise<number> {
+    const tracker = await db
+      .select({ lastProcessedBlock: blockTracker.lastProcessedBlock })
+      .from(blockTracker)
+      .orderBy(desc(blockTracker.lastProcessedBlock))
+      .limit(1);
+
+    return tracker[0]?.lastProcessedBlock ?? 0;
+  }
+}
+
+export const proposalStatusService = new ProposalStatusService();
@@ -140,6 +140,7 @@ class PumpFunService {
         `❌ Error creating pump.fun token for proposal ${proposal.id}:`,
         error,
       );
+      throw error;
     }
   }
 }
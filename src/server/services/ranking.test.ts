@@ -0,0 +1,158 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestDb, resetTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { RANKING_STRATEGIES, rankingService } = await import("./ranking");
+const { proposals } = await import("~/server/db/schema");
+
+const context = { blockHeight: 800_100 };
+
+async function insertProposal(
+  ticker: string,
+  values: Partial<typeof proposals.$inferInsert> = {},
+) {
+  const [row] = await testDb
+    .insert(proposals)
+    .values({
+      name: ticker,
+      ticker,
+      tickerSkeleton: ticker,
+      description: `${ticker} proposal`,
+      imageUrl: `https://example.com/${ticker}.png`,
+      ...values,
+    })
+    .returning();
+  return row!;
+}
+
+describe("ranking strategies", () => {
+  it("scores net as upvotes minus downvotes", () => {
+    expect(
+      RANKING_STRATEGIES.net.evaluate(
+        { weightUp: 7, weightDown: 3, creationBlock: null },
+        context,
+      ),
+    ).toBe(4);
+  });
+
+  it("prefers a consistent proposal over a barely voted one under wilson", () => {
+    const wilson = RANKING_STRATEGIES.wilson;
+    const consistent = wilson.evaluate(
+      { weightUp: 90, weightDown: 10, creationBlock: null },
+      context,
+    );
+    const lucky = wilson.evaluate(
+      { weightUp: 2, weightDown: 0, creationBlock: null },
+      context,
+    );
+
+    expect(consistent).toBeGreaterThan(lucky);
+    expect(
+      wilson.evaluate(
+        { weightUp: 0, weightDown: 0, creationBlock: 1 },
+        context,
+      ),
+    ).toBe(0);
+  });
+
+  it("decays trending scores with age", () => {
+    const trending = RANKING_STRATEGIES.trending;
+    const fresh = trending.evaluate(
+      { weightUp: 10, weightDown: 0, creationBlock: 800_099 },
+      context,
+    );
+    const old = trending.evaluate(
+      { weightUp: 10, weightDown: 0, creationBlock: 800_000 },
+      context,
+    );
+
+    expect(fresh).toBeGreaterThan(old);
+  });
+});
+
+describe("rankingService.orderBy", () => {
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  });
+
+  beforeEach(async () => {
+    await resetTestDb(testDb);
+  });
+
+  it.each(Object.values(RANKING_STRATEGIES))(
+    "scores rows in SQL the same as in memory ($name)",
+    async (strategy) => {
+      const rows = [
+        { weightUp: 12, weightDown: 4, creationBlock: 800_010 },
+        { weightUp: 3, weightDown: 0, creationBlock: 800_090 },
+        { weightUp: 0, weightDown: 0, creationBlock: null },
+      ];
+      for (const [index, row] of rows.entries()) {
+        await insertProposal(`T${index}`, row);
+      }
+
+      const scored = await testDb
+        .select({
+          ticker: proposals.ticker,
+          score: rankingService.scoreColumn(strategy, context),
+        })
+        .from(proposals)
+        .orderBy(proposals.ticker);
+
+      scored.forEach(({ score }, index) => {
+        expect(score).toBeCloseTo(strategy.evaluate(rows[index]!, context), 9);
+      });
+    },
+  );
+
+  it("breaks ties by earliest creation block, then lowest id", async () => {
+    const tie = { weightUp: 5, weightDown: 1 };
+    const late = await insertProposal("LATE", {
+      ...tie,
+      creationBlock: 800_050,
+    });
+    const unknown = await insertProposal("UNKNOWN", {
+      ...tie,
+      creationBlock: null,
+    });
+    const earlyFirst = await insertProposal("EARLYA", {
+      ...tie,
+      creationBlock: 800_010,
+    });
+    const earlySecond = await insertProposal("EARLYB", {
+      ...tie,
+      creationBlock: 800_010,
+    });
+    const best = await insertProposal("BEST", {
+      weightUp: 6,
+      weightDown: 1,
+      creationBlock: 800_090,
+    });
+
+    const ranked = await testDb
+      .select({ id: proposals.id })
+      .from(proposals)
+      .orderBy(...rankingService.orderBy(RANKING_STRATEGIES.net, context));
+
+    expect(ranked.map((row) => row.id)).toEqual([
+      best.id,
+      earlyFirst.id,
+      earlySecond.id,
+      late.id,
+      unknown.id,
+    ]);
+    expect(
+      await rankingService.getRank(
+        earlySecond.id,
+        RANKING_STRATEGIES.net,
+        context,
+      ),
+    ).toBe(3);
+  });
+});
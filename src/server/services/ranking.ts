@@ -0,0 +1,165 @@
+import { asc, desc, eq, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import { db } from "../db";
+import { blockTracker, proposals } from "../db/schema";
+import { competitionConfigService } from "./competition-config";
+import type { RankingStrategyName } from "~/types";
+
+export interface RankingContext {
+  /** Height the ranking is evaluated at, used by time-sensitive strategies */
+  blockHeight: number;
+}
+
+/** Vote weights of a proposal held in memory rather than in a row */
+export interface RankingTally {
+  weightUp: number;
+  weightDown: number;
+  creationBlock: number | null;
+}
+
+export interface RankingStrategy {
+  name: RankingStrategyName;
+  description: string;
+  /** SQL expression scoring a proposal row; higher ranks first */
+  score(context: RankingContext): SQL<number>;
+  /** The same score computed in memory, for replays outside the database */
+  evaluate(tally: RankingTally, context: RankingContext): number;
+}
+
+// z for a 95% confidence interval
+const WILSON_Z = 1.96;
+const TRENDING_GRAVITY = 1.5;
+
+// Strategies score summed vote weights, which equal the counts in "count" voting mode
+const netScore = sql<number>`(${proposals.weightUp} - ${proposals.weightDown})`;
+
+export const RANKING_STRATEGIES: Record<RankingStrategyName, RankingStrategy> =
+  {
+    net: {
+      name: "net",
+      description: "Upvotes minus downvotes",
+      score: () => sql<number>`${netScore}::float8`,
+      evaluate: ({ weightUp, weightDown }) => weightUp - weightDown,
+    },
+    wilson: {
+      name: "wilson",
+      description:
+        "Lower bound of the Wilson score interval for the share of upvotes",
+      score: () => {
+        const n = sql`(${proposals.weightUp} + ${proposals.weightDown})::float8`;
+        const p = sql`(${proposals.weightUp}::float8 / ${n})`;
+        const z2 = WILSON_Z * WILSON_Z;
+        return sql<number>`CASE WHEN ${proposals.weightUp} + ${proposals.weightDown} = 0 THEN 0::float8 ELSE (${p} + ${z2}::float8 / (2 * ${n}) - ${WILSON_Z}::float8 * sqrt((${p} * (1 - ${p}) + ${z2}::float8 / (4 * ${n})) / ${n})) / (1 + ${z2}::float8 / ${n}) END`;
+      },
+      evaluate: ({ weightUp, weightDown }) => {
+        const n = weightUp + weightDown;
+        if (n === 0) {
+          return 0;
+        }
+        const p = weightUp / n;
+        const z2 = WILSON_Z * WILSON_Z;
+        return (
+          (p +
+            z2 / (2 * n) -
+            WILSON_Z * Math.sqrt((p * (1 - p) + z2 / (4 * n)) / n)) /
+          (1 + z2 / n)
+        );
+      },
+    },
+    trending: {
+      name: "trending",
+      description: "Net score decayed by the proposal's age in blocks",
+      score: ({ blockHeight }) => {
+        const ageInBlocks = sql`greatest(${blockHeight} - coalesce(${proposals.creationBlock}, ${blockHeight}), 0)`;
+        return sql<number>`${netScore}::float8 / power(${ageInBlocks} + 2, ${TRENDING_GRAVITY}::float8)`;
+      },
+      evaluate: ({ weightUp, weightDown, creationBlock }, { blockHeight }) => {
+        const ageInBlocks = Math.max(
+          blockHeight - (creationBlock ?? blockHeight),
+          0,
+        );
+        return (
+          (weightUp - weightDown) / Math.pow(ageInBlocks + 2, TRENDING_GRAVITY)
+        );
+      },
+    },
+  };
+
+export class RankingService {
+  getStrategy(name: RankingStrategyName): RankingStrategy {
+    return RANKING_STRATEGIES[name] ?? RANKING_STRATEGIES.net;
+  }
+
+  /**
+   * Score column to select alongside proposal rows, so responses report the
+   * same value the ordering was based on.
+   */
+  scoreColumn(strategy: RankingStrategy, context: RankingContext) {
+    return strategy.score(context).mapWith(Number);
+  }
+
+  /**
+   * ORDER BY terms for a strategy. Ties are broken by the earliest creation
+   * block, then the lowest id, so every caller agrees on the same winner.
+   */
+  orderBy(strategy: RankingStrategy, context: RankingContext): SQL[] {
+    return [
+      desc(strategy.score(context)),
+      sql`${proposals.creationBlock} ASC NULLS LAST`,
+      asc(proposals.id),
+    ];
+  }
+
+  /**
+   * 1-based position of a proposal among all proposals under the strategy.
+   */
+  async getRank(
+    proposalId: number,
+    strategy: RankingStrategy,
+    context: RankingContext,
+  ): Promise<number | null> {
+    const ranked = db
+      .select({
+        id: proposals.id,
+        rank: sql<number>`row_number() over (order by ${sql.join(
+          this.orderBy(strategy, context),
+          sql`, `,
+        )})`
+          .mapWith(Number)
+          .as("rank"),
+      })
+      .from(proposals)
+      .as("ranked");
+
+    const rows = await db
+      .select({ rank: ranked.rank })
+      .from(ranked)
+      .where(eq(ranked.id, proposalId));
+
+    return rows[0]?.rank ?? null;
+  }
+
+  /**
+   * Strategy configured for the latest processed block, for read endpoints
+   * that rank outside of the engine.
+   */
+  async getActiveRanking(): Promise<{
+    strategy: RankingStrategy;
+    context: RankingContext;
+  }> {
+    const tracker = await db
+      .select({ lastProcessedBlock: blockTracker.lastProcessedBlock })
+      .from(blockTracker)
+      .limit(1);
+    const blockHeight = tracker[0]?.lastProcessedBlock ?? 0;
+    const rules =
+      await competitionConfigService.getEffectiveConfig(blockHeight);
+
+    return {
+      strategy: this.getStrategy(rules.rankingStrategy),
+      context: { blockHeight },
+    };
+  }
+}
+
+export const rankingService = new RankingService();
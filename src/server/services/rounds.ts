@@ -0,0 +1,242 @@
+import { desc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  competitionRounds,
+  inscriptions,
+  proposals,
+  pumpFunTokens,
+} from "../db/schema";
+import type { CompetitionRound } from "~/types";
+
+type CompetitionRoundRow = typeof competitionRounds.$inferSelect;
+
+export class CompetitionRoundService {
+  toCompetitionRound(row: CompetitionRoundRow): CompetitionRound {
+    return {
+      id: row.id,
+      label: this.getRoundLabel(row.id),
+      status: row.status,
+      startBlock: row.startBlock,
+      endBlock: row.endBlock ?? undefined,
+      participants: row.participants,
+      winnerProposalId: row.winnerProposalId ?? undefined,
+      winnerProposalIds: row.winnerProposalIds,
+      resetReason: row.resetReason ?? undefined,
+      inscriptionId: row.inscriptionId ?? undefined,
+      pumpFunTokenId: row.pumpFunTokenId ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+
+  getRoundLabel(roundId: number): string {
+    return `round-${roundId}`;
+  }
+
+  async getOpenRound(): Promise<CompetitionRoundRow | null> {
+    const rows = await db
+      .select()
+      .from(competitionRounds)
+      .where(eq(competitionRounds.status, "open"))
+      .orderBy(desc(competitionRounds.id))
+      .limit(1);
+
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Returns the round currently being played, opening a new one starting at
+   * `blockHeight` if the previous round has been closed.
+   */
+  async getOrOpenRound(blockHeight: number): Promise<CompetitionRoundRow> {
+    const openRound = await this.getOpenRound();
+    if (openRound) {
+      return openRound;
+    }
+
+    const [round] = await db
+      .insert(competitionRounds)
+      .values({ startBlock: blockHeight })
+      .returning();
+
+    console.log(
+      `🏁 Competition round ${round!.id} opened at block ${blockHeight}`,
+    );
+    return round!;
+  }
+
+  async addParticipants(round: CompetitionRoundRow, proposalIds: number[]) {
+    const participants = [
+      ...new Set([...round.participants, ...proposalIds]),
+    ].sort((a, b) => a - b);
+
+    if (participants.length === round.participants.length) {
+      return;
+    }
+
+    await db
+      .update(competitionRounds)
+      .set({ participants, updatedAt: new Date() })
+      .where(eq(competitionRounds.id, round.id));
+  }
+
+  /** Closes a round won by one proposal per slot, ordered by slot. */
+  async closeWithWinners(
+    roundId: number,
+    blockHeight: number,
+    winnerProposalIds: number[],
+  ) {
+    await db
+      .update(competitionRounds)
+      .set({
+        status: "won",
+        endBlock: blockHeight,
+        winnerProposalId: winnerProposalIds[0],
+        winnerProposalIds,
+        updatedAt: new Date(),
+      })
+      .where(eq(competitionRounds.id, roundId));
+
+    console.log(
+      `🏆 Competition round ${roundId} won by proposal(s) ${winnerProposalIds.join(", ")} at block ${blockHeight}`,
+    );
+  }
+
+  async closeWithReset(roundId: number, blockHeight: number, reason: string) {
+    await db
+      .update(competitionRounds)
+      .set({
+        status: "reset",
+        endBlock: blockHeight,
+        resetReason: reason,
+        updatedAt: new Date(),
+      })
+      .where(eq(competitionRounds.id, roundId));
+
+    console.log(
+      `🔄 Competition round ${roundId} closed without a winner at block ${blockHeight}: ${reason}`,
+    );
+  }
+
+  async linkInscription(roundId: number, inscriptionId: number) {
+    await db
+      .update(competitionRounds)
+      .set({ inscriptionId, updatedAt: new Date() })
+      .where(eq(competitionRounds.id, roundId));
+  }
+
+  async linkPumpFunToken(roundId: number, mintAddress: string) {
+    const token = await db
+      .select({ id: pumpFunTokens.id })
+      .from(pumpFunTokens)
+      .where(eq(pumpFunTokens.mintAddress, mintAddress))
+      .limit(1);
+
+    if (!token[0]) {
+      console.warn(
+        `⚠️ pump.fun token ${mintAddress} not found, cannot link it to round ${roundId}`,
+      );
+      return;
+    }
+
+    await db
+      .update(competitionRounds)
+      .set({ pumpFunTokenId: token[0].id, updatedAt: new Date() })
+      .where(eq(competitionRounds.id, roundId));
+  }
+
+  async listRounds(limit: number, offset: number) {
+    const rows = await db
+      .select({
+        round: competitionRounds,
+        winnerTicker: proposals.ticker,
+        winnerName: proposals.name,
+      })
+      .from(competitionRounds)
+      .leftJoin(proposals, eq(competitionRounds.winnerProposalId, proposals.id))
+      .orderBy(desc(competitionRounds.id))
+      .limit(limit)
+      .offset(offset);
+
+    const totalResult = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(competitionRounds);
+
+    return {
+      rounds: rows.map((row) => ({
+        ...this.toCompetitionRound(row.round),
+        winner:
+          row.winnerTicker && row.winnerName
+            ? { ticker: row.winnerTicker, name: row.winnerName }
+            : undefined,
+      })),
+      total: Number(totalResult[0]?.count ?? 0),
+    };
+  }
+
+  async getRoundDetails(roundId: number) {
+    const rows = await db
+      .select()
+      .from(competitionRounds)
+      .where(eq(competitionRounds.id, roundId))
+      .limit(1);
+
+    const row = rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const participants =
+      row.participants.length > 0
+        ? await db
+            .select({
+              id: proposals.id,
+              name: proposals.name,
+              ticker: proposals.ticker,
+              imageUrl: proposals.imageUrl,
+              votesUp: proposals.votesUp,
+              votesDown: proposals.votesDown,
+              totalVotes: proposals.totalVotes,
+              status: proposals.status,
+            })
+            .from(proposals)
+            .where(inArray(proposals.id, row.participants))
+            .orderBy(desc(proposals.totalVotes))
+        : [];
+
+    const inscription = row.inscriptionId
+      ? await db
+          .select()
+          .from(inscriptions)
+          .where(eq(inscriptions.id, row.inscriptionId))
+          .limit(1)
+      : [];
+
+    const pumpFunToken = row.pumpFunTokenId
+      ? await db
+          .select()
+          .from(pumpFunTokens)
+          .where(eq(pumpFunTokens.id, row.pumpFunTokenId))
+          .limit(1)
+      : [];
+
+    return {
+      ...this.toCompetitionRound(row),
+      participants,
+      winner:
+        participants.find(
+          (participant) => participant.id === row.winnerProposalId,
+        ) ?? null,
+      winners: row.winnerProposalIds.flatMap((proposalId, index) => {
+        const participant = participants.find(
+          (candidate) => candidate.id === proposalId,
+        );
+        return participant ? [{ ...participant, slot: index + 1 }] : [];
+      }),
+      inscription: inscription[0] ?? null,
+      pumpFunToken: pumpFunToken[0] ?? null,
+    };
+  }
+}
+
+export const competitionRoundService = new CompetitionRoundService();
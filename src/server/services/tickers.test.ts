@@ -0,0 +1,123 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestDb, resetTestDb, type TestDb } from "~/test/db";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { TickerConflictError, tickerService } = await import("./tickers");
+const { proposals, reservedTickers } = await import("~/server/db/schema");
+
+describe("tickerService.normalize", () => {
+  it("upper-cases and strips whitespace and invisible characters", () => {
+    expect(tickerService.normalize(" pepe ")).toBe("PEPE");
+    expect(tickerService.normalize("PE​PE")).toBe("PEPE");
+    expect(tickerService.normalize("﻿PEPE‏")).toBe("PEPE");
+  });
+
+  it("folds fullwidth forms", () => {
+    expect(tickerService.normalize("ＰＥＰＥ")).toBe("PEPE");
+  });
+});
+
+describe("tickerService.skeleton", () => {
+  it.each([
+    ["PEPE", "PEPE"],
+    ["pepe ", "PEPE"],
+    ["РЕРЕ", "PEPE"], // Cyrillic
+    ["ΡΕΡΕ", "PEPE"], // Greek
+    ["P‍EPE", "PEPE"], // zero-width joiner
+    ["ＰＥＰＥ", "PEPE"], // fullwidth
+    ["𝐏𝐄𝐏𝐄", "PEPE"], // mathematical bold
+    ["PÉPÈ", "PEPE"], // accents
+    ["D0GE", "DOGE"],
+    ["DOGE", "DOGE"],
+    ["W1F", "WIF"],
+  ])("maps %s to %s", (ticker, skeleton) => {
+    expect(tickerService.skeleton(ticker)).toBe(skeleton);
+  });
+
+  it("keeps genuinely different tickers apart", () => {
+    expect(tickerService.skeleton("PEPE")).not.toBe(
+      tickerService.skeleton("PEPA"),
+    );
+  });
+});
+
+describe("tickerService.assertAvailable", () => {
+  beforeAll(async () => {
+    testDb = await createTestDb();
+  });
+
+  beforeEach(async () => {
+    await resetTestDb(testDb);
+  });
+
+  it("rejects look-alikes of a reserved ticker", async () => {
+    const [winner] = await testDb
+      .insert(proposals)
+      .values({
+        name: "Pepe",
+        ticker: "PEPE",
+        tickerSkeleton: "PEPE",
+        description: "Feels good",
+        imageUrl: "https://example.com/pepe.png",
+        status: "inscribed",
+      })
+      .returning();
+    await testDb
+      .insert(reservedTickers)
+      .values({ ticker: "PEPE", skeleton: "PEPE", proposalId: winner!.id });
+
+    const attempt = tickerService.assertAvailable("РЕРЕ");
+    await expect(attempt).rejects.toThrow(TickerConflictError);
+    await expect(attempt).rejects.toThrow(/permanently reserved/);
+    await expect(
+      tickerService.assertAvailable("PEPA"),
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects look-alikes of another proposal's ticker", async () => {
+    await testDb.insert(proposals).values({
+      name: "Doge",
+      ticker: "DOGE",
+      tickerSkeleton: "DOGE",
+      description: "Such wow",
+      imageUrl: "https://example.com/doge.png",
+    });
+
+    await expect(tickerService.assertAvailable("D0GE")).rejects.toThrow(
+      /looks too similar to existing ticker DOGE/,
+    );
+  });
+
+  it("stores and reserves skeletons longer than the ticker", async () => {
+    // Decomposing splits each Hangul syllable into its jamo
+    const ticker = tickerService.normalize("가나다라마바사아자차");
+    const skeleton = tickerService.skeleton(ticker);
+    expect(ticker).toHaveLength(10);
+    expect(skeleton.length).toBeGreaterThan(10);
+
+    const [winner] = await testDb
+      .insert(proposals)
+      .values({
+        name: "Hangul",
+        ticker,
+        tickerSkeleton: skeleton,
+        description: "Long skeleton",
+        imageUrl: "https://example.com/hangul.png",
+        status: "inscribed",
+      })
+      .returning();
+    await testDb
+      .insert(reservedTickers)
+      .values({ ticker, skeleton, proposalId: winner!.id });
+
+    await expect(tickerService.assertAvailable(ticker)).rejects.toThrow(
+      /permanently reserved/,
+    );
+  });
+});
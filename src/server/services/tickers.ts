@@ -0,0 +1,143 @@
+import { eq } from "drizzle-orm";
+import { db, type Transaction } from "../db";
+import { proposals, reservedTickers } from "../db/schema";
+
+export class TickerConflictError extends Error {
+  constructor(
+    message: string,
+    public readonly conflictingTicker: string,
+  ) {
+    super(message);
+    this.name = "TickerConflictError";
+  }
+}
+
+// Control, format (zero-width joiners, BOM, bidi marks) and separator characters
+const INVISIBLE_CHARACTERS = /[\p{Cc}\p{Cf}\p{Z}]/gu;
+const COMBINING_MARKS = /\p{M}/gu;
+
+/**
+ * Upper-case letters and digits that render like a Latin letter, mapped to
+ * it. Drawn from the Unicode confusables list for the scripts tickers are
+ * realistically spoofed with; NFKC already folds fullwidth and mathematical
+ * forms.
+ */
+const CONFUSABLES: Record<string, string> = {
+  // Digits and symbols
+  "0": "O",
+  "1": "I",
+  "|": "I",
+  // Cyrillic
+  А: "A",
+  В: "B",
+  С: "C",
+  Е: "E",
+  Н: "H",
+  І: "I",
+  Ӏ: "I",
+  Ј: "J",
+  К: "K",
+  М: "M",
+  О: "O",
+  Р: "P",
+  Ѕ: "S",
+  Т: "T",
+  Х: "X",
+  У: "Y",
+  Ү: "Y",
+  Ԛ: "Q",
+  Ԝ: "W",
+  // Greek
+  Α: "A",
+  Β: "B",
+  Ε: "E",
+  Ζ: "Z",
+  Η: "H",
+  Ι: "I",
+  Κ: "K",
+  Μ: "M",
+  Ν: "N",
+  Ο: "O",
+  Ρ: "P",
+  Τ: "T",
+  Υ: "Y",
+  Χ: "X",
+  // Armenian
+  Օ: "O",
+  Ս: "U",
+};
+
+export class TickerService {
+  /**
+   * The ticker as stored: NFKC-normalized, without invisible characters or
+   * whitespace, in upper case.
+   */
+  normalize(ticker: string): string {
+    return ticker
+      .normalize("NFKC")
+      .replace(INVISIBLE_CHARACTERS, "")
+      .toUpperCase();
+  }
+
+  /**
+   * Key two tickers share when they look alike: accents are dropped and
+   * look-alike characters are replaced by the Latin letter they imitate.
+   */
+  skeleton(ticker: string): string {
+    return Array.from(
+      this.normalize(ticker).normalize("NFD").replace(COMBINING_MARKS, ""),
+      (char) => CONFUSABLES[char] ?? char,
+    ).join("");
+  }
+
+  /**
+   * Throws if `ticker` looks like a ticker reserved by an inscribed winner or
+   * one another proposal already uses.
+   */
+  async assertAvailable(ticker: string): Promise<void> {
+    const skeleton = this.skeleton(ticker);
+
+    const [reserved] = await db
+      .select({ ticker: reservedTickers.ticker })
+      .from(reservedTickers)
+      .where(eq(reservedTickers.skeleton, skeleton))
+      .limit(1);
+    if (reserved) {
+      throw new TickerConflictError(
+        `Ticker ${ticker} collides with ${reserved.ticker}, which is permanently reserved by an inscribed winner`,
+        reserved.ticker,
+      );
+    }
+
+    const [existing] = await db
+      .select({ ticker: proposals.ticker, status: proposals.status })
+      .from(proposals)
+      .where(eq(proposals.tickerSkeleton, skeleton))
+      .limit(1);
+    if (existing) {
+      throw new TickerConflictError(
+        existing.ticker === ticker
+          ? `Ticker ${ticker} already exists (${existing.status} proposal)`
+          : `Ticker ${ticker} looks too similar to existing ticker ${existing.ticker} (${existing.status} proposal)`,
+        existing.ticker,
+      );
+    }
+  }
+
+  /** Locks the ticker of a proposal that has just been inscribed for good. */
+  async reserve(
+    tx: Transaction,
+    proposal: { id: number; ticker: string },
+  ): Promise<void> {
+    await tx
+      .insert(reservedTickers)
+      .values({
+        ticker: proposal.ticker,
+        skeleton: this.skeleton(proposal.ticker),
+        proposalId: proposal.id,
+      })
+      .onConflictDoNothing();
+  }
+}
+
+export const tickerService = new TickerService();
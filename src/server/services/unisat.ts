@@ -1,5 +1,5 @@
 import { env } from "~/env";
-import type { Proposal, InscriptionPayload } from "~/types";
+import type { Proposal, InscriptionContext, InscriptionPayload } from "~/types";
 
 interface UnisatInscriptionRequest {
   receiveAddress: string;
@@ -115,6 +115,7 @@ export class UnisatService {
   generateInscriptionPayload(
     proposal: Proposal,
     blockHeight: number,
+    context?: InscriptionContext,
   ): InscriptionPayload {
     // Add unique identifiers to ensure each inscription is unique
     const timestamp = Date.now();
@@ -140,7 +141,9 @@ export class UnisatService {
         proposalId: proposal.id,
         inscriptionBlock: blockHeight,
         inscriptionTime: new Date().toISOString(),
-        competitionRound: uniqueId,
+        competitionRound: context?.competitionRound ?? uniqueId,
+        voteMerkleRoot: context?.voteMerkleRoot,
+        committedVotes: context?.committedVotes,
       },
     };
   }
@@ -149,8 +152,13 @@ export class UnisatService {
     proposal: Proposal,
     blockHeight: number,
     receiveAddress: string,
+    context?: InscriptionContext,
   ): Promise<{ orderId: string; payAddress: string; amount: number }> {
-    const payload = this.generateInscriptionPayload(proposal, blockHeight);
+    const payload = this.generateInscriptionPayload(
+      proposal,
+      blockHeight,
+      context,
+    );
 
     const jsonString = JSON.stringify(payload, null, 2);
     const dataURL = `data:application/json;base64,${Buffer.from(jsonString).toString("base64")}`;
@@ -0,0 +1,133 @@
+import { and, asc, eq, gt, inArray, ne, sql } from "drizzle-orm";
+import { db } from "../db";
+import { users, votes } from "../db/schema";
+import { voteService } from "./votes";
+import type { Vote } from "~/types";
+
+const FRESH_WALLET_MS = 24 * 60 * 60 * 1000; // wallets BitPill first saw this recently are fresh
+const BURST_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+const BURST_MIN_VOTES = 5; // fresh-wallet votes on one proposal within the window
+const SCAN_LOOKBACK_MS = 60 * 60 * 1000; // votes older than this are not rescanned
+
+// A vote is from a fresh wallet if the user row was created shortly before it
+const fromFreshWallet = sql`${users.createdAt} > ${votes.createdAt} - ${FRESH_WALLET_MS} * interval '1 millisecond'`;
+
+export class VoteAnomalyService {
+  private burstReason(voteCount: number) {
+    return `Burst of ${voteCount} votes from new wallets within ${BURST_WINDOW_MS / 60000} minutes`;
+  }
+
+  /**
+   * Reason to hold a new vote for review, or undefined if it can count right
+   * away. A fresh wallet voting on a proposal that is already seeing a burst
+   * of fresh-wallet votes is held instead of counted.
+   */
+  async getHoldReason(
+    userId: number,
+    proposalId: number,
+  ): Promise<string | undefined> {
+    const [user] = await db
+      .select({ createdAt: users.createdAt })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user || Date.now() - user.createdAt.getTime() > FRESH_WALLET_MS) {
+      return undefined;
+    }
+
+    const [recent] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(votes)
+      .innerJoin(users, eq(votes.userId, users.id))
+      .where(
+        and(
+          eq(votes.proposalId, proposalId),
+          ne(votes.status, "rejected"),
+          gt(votes.createdAt, new Date(Date.now() - BURST_WINDOW_MS)),
+          fromFreshWallet,
+        ),
+      );
+
+    const voteCount = (recent?.count ?? 0) + 1;
+    return voteCount >= BURST_MIN_VOTES
+      ? this.burstReason(voteCount)
+      : undefined;
+  }
+
+  /**
+   * Scans recent votes for bursts from fresh wallets on a single proposal and
+   * holds the counted ones for review. Returns the votes it held.
+   */
+  async detectBursts(): Promise<Vote[]> {
+    const rows = await db
+      .select({
+        id: votes.id,
+        proposalId: votes.proposalId,
+        status: votes.status,
+        createdAt: votes.createdAt,
+      })
+      .from(votes)
+      .innerJoin(users, eq(votes.userId, users.id))
+      .where(
+        and(
+          inArray(votes.status, ["counted", "held"]),
+          gt(votes.createdAt, new Date(Date.now() - SCAN_LOOKBACK_MS)),
+          fromFreshWallet,
+        ),
+      )
+      .orderBy(asc(votes.proposalId), asc(votes.createdAt));
+
+    const byProposal = new Map<number, typeof rows>();
+    for (const row of rows) {
+      byProposal.set(row.proposalId, [
+        ...(byProposal.get(row.proposalId) ?? []),
+        row,
+      ]);
+    }
+
+    const held: Vote[] = [];
+    for (const proposalVotes of byProposal.values()) {
+      const flagged = new Set<number>();
+      let largestBurst = 0;
+      let start = 0;
+
+      // Slide a window over the proposal's votes and flag every vote in one
+      // that holds enough of them
+      for (let end = 0; end < proposalVotes.length; end++) {
+        while (
+          proposalVotes[end]!.createdAt.getTime() -
+            proposalVotes[start]!.createdAt.getTime() >
+          BURST_WINDOW_MS
+        ) {
+          start++;
+        }
+        const size = end - start + 1;
+        if (size >= BURST_MIN_VOTES) {
+          largestBurst = Math.max(largestBurst, size);
+          for (let i = start; i <= end; i++) {
+            flagged.add(i);
+          }
+        }
+      }
+
+      const toHold = [...flagged]
+        .map((i) => proposalVotes[i]!)
+        .filter((vote) => vote.status === "counted")
+        .map((vote) => vote.id);
+
+      if (toHold.length > 0) {
+        held.push(
+          ...(await voteService.holdVotes(
+            toHold,
+            this.burstReason(largestBurst),
+          )),
+        );
+      }
+    }
+
+    return held;
+  }
+}
+
+export const voteAnomalyService = new VoteAnomalyService();
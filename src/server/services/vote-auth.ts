@@ -0,0 +1,144 @@
+import { randomBytes } from "crypto";
+import { and, eq, gt, isNull, lt } from "drizzle-orm";
+import { db } from "../db";
+import { voteNonces } from "../db/schema";
+import {
+  InvalidSignatureError,
+  verifyMessageSignature,
+  type VerifiedSignature,
+} from "../btc/message-signature";
+import type { VoteChallenge, VoteSubmission } from "~/types";
+
+/** How long a wallet has to sign and submit a vote after requesting a nonce. */
+export const VOTE_NONCE_TTL_MS = 5 * 60 * 1000;
+
+export class VoteAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoteAuthError";
+  }
+}
+
+export class VoteAuthService {
+  /** The exact text a wallet signs; every field the vote depends on is in it. */
+  buildMessage(
+    walletAddress: string,
+    proposalId: number,
+    voteType: VoteSubmission["voteType"],
+    nonce: string,
+    votes = 1,
+  ): string {
+    return [
+      "BitPill vote",
+      `Address: ${walletAddress}`,
+      `Proposal: ${proposalId}`,
+      `Vote: ${voteType}`,
+      `Votes: ${votes}`,
+      `Nonce: ${nonce}`,
+    ].join("\n");
+  }
+
+  /** Issues a single-use nonce for `walletAddress` to include in a signed message. */
+  async issueNonce(
+    walletAddress: string,
+  ): Promise<{ nonce: string; expiresAt: Date }> {
+    const nonce = randomBytes(16).toString("hex");
+    const expiresAt = new Date(Date.now() + VOTE_NONCE_TTL_MS);
+
+    await db.insert(voteNonces).values({ nonce, walletAddress, expiresAt });
+
+    // Expired nonces are useless, so prune them while we are here
+    await db.delete(voteNonces).where(lt(voteNonces.expiresAt, new Date()));
+
+    return { nonce, expiresAt };
+  }
+
+  async issueChallenge(
+    walletAddress: string,
+    proposalId: number,
+    voteType: VoteSubmission["voteType"],
+    votes?: number,
+  ): Promise<VoteChallenge> {
+    const { nonce, expiresAt } = await this.issueNonce(walletAddress);
+
+    return {
+      nonce,
+      message: this.buildMessage(
+        walletAddress,
+        proposalId,
+        voteType,
+        nonce,
+        votes,
+      ),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Verifies the vote signature and consumes its nonce. The nonce is only
+   * marked used if it is unused, unexpired and issued to this wallet, so a
+   * captured signature cannot be submitted twice.
+   */
+  async verifyVote(vote: {
+    walletAddress: string;
+    proposalId: number;
+    voteType: VoteSubmission["voteType"];
+    votes?: number;
+    nonce: string;
+    signature: string;
+  }): Promise<VerifiedSignature> {
+    return this.verifySignedMessage(
+      vote.walletAddress,
+      this.buildMessage(
+        vote.walletAddress,
+        vote.proposalId,
+        vote.voteType,
+        vote.nonce,
+        vote.votes,
+      ),
+      vote.nonce,
+      vote.signature,
+    );
+  }
+
+  /** Verifies `signature` over `message` and consumes the nonce it carries. */
+  async verifySignedMessage(
+    walletAddress: string,
+    message: string,
+    nonce: string,
+    signature: string,
+  ): Promise<VerifiedSignature> {
+    let verified: VerifiedSignature;
+    try {
+      verified = verifyMessageSignature(walletAddress, message, signature);
+    } catch (error) {
+      if (error instanceof InvalidSignatureError) {
+        throw new VoteAuthError(`Invalid signature: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const consumed = await db
+      .update(voteNonces)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(voteNonces.nonce, nonce),
+          eq(voteNonces.walletAddress, walletAddress),
+          isNull(voteNonces.usedAt),
+          gt(voteNonces.expiresAt, new Date()),
+        ),
+      )
+      .returning({ id: voteNonces.id });
+
+    if (consumed.length === 0) {
+      throw new VoteAuthError(
+        "Nonce is unknown, expired or already used; request a new one",
+      );
+    }
+
+    return verified;
+  }
+}
+
+export const voteAuthService = new VoteAuthService();
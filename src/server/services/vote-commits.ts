@@ -0,0 +1,313 @@
+import { createHash } from "crypto";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { proposals, users, voteCommitments } from "../db/schema";
+import { competitionConfigService } from "./competition-config";
+import { rankingService } from "./ranking";
+import { VoteAuthError, voteAuthService } from "./vote-auth";
+import { voteSubmissionService } from "./vote-submission";
+import { VoteNotAllowedError } from "./votes";
+import type {
+  CompetitionConfig,
+  Vote,
+  VoteChallenge,
+  VoteCommitment,
+  VotingPhase,
+} from "~/types";
+
+export class VoteCommitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoteCommitError";
+  }
+}
+
+type VoteCommitmentRow = typeof voteCommitments.$inferSelect;
+
+export class VoteCommitService {
+  /**
+   * Phase in force at `blockHeight`. Phases cycle from the block the
+   * ruleset took effect: `commitPhaseBlocks` blocks of commits, then
+   * `revealPhaseBlocks` blocks of reveals.
+   */
+  phaseAt(config: CompetitionConfig, blockHeight: number): VotingPhase {
+    if (config.commitPhaseBlocks === 0) {
+      return { phase: "open", blockHeight };
+    }
+
+    const cycle = config.commitPhaseBlocks + config.revealPhaseBlocks;
+    const offset = Math.max(blockHeight - config.effectiveFromBlock, 0) % cycle;
+    const commitOpensAtBlock = blockHeight - offset;
+    const revealOpensAtBlock = commitOpensAtBlock + config.commitPhaseBlocks;
+
+    return {
+      phase: offset < config.commitPhaseBlocks ? "commit" : "reveal",
+      blockHeight,
+      commitOpensAtBlock,
+      revealOpensAtBlock,
+      revealClosesAtBlock: revealOpensAtBlock + config.revealPhaseBlocks,
+    };
+  }
+
+  /** The ruleset and phase at the last processed block, which votes follow. */
+  async getVotingState(): Promise<{
+    rules: CompetitionConfig;
+    phase: VotingPhase;
+  }> {
+    const { context } = await rankingService.getActiveRanking();
+    const rules = await competitionConfigService.getEffectiveConfig(
+      context.blockHeight,
+    );
+    return { rules, phase: this.phaseAt(rules, context.blockHeight) };
+  }
+
+  async getPhase(): Promise<VotingPhase> {
+    return (await this.getVotingState()).phase;
+  }
+
+  /**
+   * The hash a wallet commits to: sha256 in hex over its address, the
+   * proposal, the vote, the number of votes and a secret salt, one per line.
+   */
+  computeCommitment(vote: {
+    walletAddress: string;
+    proposalId: number;
+    voteType: "up" | "down";
+    votes?: number;
+    salt: string;
+  }): string {
+    return createHash("sha256")
+      .update(
+        [
+          vote.walletAddress,
+          vote.proposalId,
+          vote.voteType,
+          vote.votes ?? 1,
+          vote.salt,
+        ].join("\n"),
+        "utf8",
+      )
+      .digest("hex");
+  }
+
+  /** The exact text a wallet signs to commit to a hidden vote. */
+  buildMessage(
+    walletAddress: string,
+    proposalId: number,
+    commitment: string,
+    nonce: string,
+  ): string {
+    return [
+      "BitPill vote commitment",
+      `Address: ${walletAddress}`,
+      `Proposal: ${proposalId}`,
+      `Commitment: ${commitment}`,
+      `Nonce: ${nonce}`,
+    ].join("\n");
+  }
+
+  async issueChallenge(
+    walletAddress: string,
+    proposalId: number,
+    commitment: string,
+  ): Promise<VoteChallenge> {
+    const { nonce, expiresAt } =
+      await voteAuthService.issueNonce(walletAddress);
+
+    return {
+      nonce,
+      message: this.buildMessage(walletAddress, proposalId, commitment, nonce),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  private toCommitment(row: VoteCommitmentRow): VoteCommitment {
+    return {
+      id: row.id,
+      proposalId: row.proposalId,
+      commitment: row.commitment,
+      revealOpensAtBlock: row.revealOpensAtBlock,
+      revealClosesAtBlock: row.revealClosesAtBlock,
+      revealedAt: row.revealedAt?.toISOString(),
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+
+  async listCommitments(userId: number): Promise<VoteCommitment[]> {
+    const rows = await db
+      .select()
+      .from(voteCommitments)
+      .where(eq(voteCommitments.userId, userId))
+      .orderBy(desc(voteCommitments.createdAt));
+
+    return rows.map((row) => this.toCommitment(row));
+  }
+
+  /**
+   * Records a signed commitment during the commit phase. Committing again
+   * to the same proposal before the phase ends replaces the commitment.
+   */
+  async commit(submission: {
+    walletAddress: string;
+    proposalId: number;
+    commitment: string;
+    nonce: string;
+    signature: string;
+  }): Promise<VoteCommitment> {
+    const { walletAddress, proposalId, commitment, signature } = submission;
+    const { rules, phase } = await this.getVotingState();
+    if (phase.phase !== "commit") {
+      throw new VoteCommitError(this.describeWrongPhase(phase, "commit"));
+    }
+
+    await voteAuthService.verifySignedMessage(
+      walletAddress,
+      this.buildMessage(
+        walletAddress,
+        proposalId,
+        commitment,
+        submission.nonce,
+      ),
+      submission.nonce,
+      signature,
+    );
+
+    const [proposal] = await db
+      .select({ status: proposals.status })
+      .from(proposals)
+      .where(eq(proposals.id, proposalId))
+      .limit(1);
+    if (!proposal) {
+      throw new VoteNotAllowedError("Proposal not found");
+    }
+    if (proposal.status !== "active") {
+      throw new VoteNotAllowedError(
+        proposal.status === "leader"
+          ? "Votes on the current leader can no longer be cast or changed"
+          : "Proposal is not active for voting",
+      );
+    }
+
+    const userId = await voteSubmissionService.getVoter(walletAddress, rules);
+
+    const [row] = await db
+      .insert(voteCommitments)
+      .values({
+        userId,
+        proposalId,
+        commitment,
+        signature,
+        revealOpensAtBlock: phase.revealOpensAtBlock!,
+        revealClosesAtBlock: phase.revealClosesAtBlock!,
+      })
+      .onConflictDoUpdate({
+        target: [
+          voteCommitments.userId,
+          voteCommitments.proposalId,
+          voteCommitments.revealClosesAtBlock,
+        ],
+        set: { commitment, signature, updatedAt: new Date() },
+      })
+      .returning();
+
+    return this.toCommitment(row!);
+  }
+
+  /**
+   * Opens a commitment made in the current cycle and casts the vote it hid,
+   * signed by the commitment's signature. Commitments not revealed before
+   * the reveal phase closes lapse without a vote.
+   */
+  async reveal(submission: {
+    walletAddress: string;
+    proposalId: number;
+    voteType: "up" | "down";
+    votes?: number;
+    salt: string;
+  }): Promise<{ vote: Vote; action: "cast" | "change" }> {
+    const { rules, phase } = await this.getVotingState();
+    if (phase.phase !== "reveal") {
+      throw new VoteCommitError(this.describeWrongPhase(phase, "reveal"));
+    }
+
+    const [pending] = await db
+      .select({
+        id: voteCommitments.id,
+        commitment: voteCommitments.commitment,
+        signature: voteCommitments.signature,
+      })
+      .from(voteCommitments)
+      .innerJoin(users, eq(voteCommitments.userId, users.id))
+      .where(
+        and(
+          eq(users.walletAddress, submission.walletAddress),
+          eq(voteCommitments.proposalId, submission.proposalId),
+          eq(voteCommitments.revealClosesAtBlock, phase.revealClosesAtBlock!),
+          isNull(voteCommitments.revealedAt),
+        ),
+      )
+      .limit(1);
+
+    if (!pending) {
+      throw new VoteCommitError(
+        "This wallet has no unrevealed commitment on the proposal in the current phase",
+      );
+    }
+    if (this.computeCommitment(submission) !== pending.commitment) {
+      throw new VoteAuthError(
+        "The revealed vote and salt do not match the commitment",
+      );
+    }
+
+    // Claim the commitment first so concurrent reveals cannot both vote
+    const claimed = await db
+      .update(voteCommitments)
+      .set({ revealedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(voteCommitments.id, pending.id),
+          isNull(voteCommitments.revealedAt),
+        ),
+      )
+      .returning({ id: voteCommitments.id });
+    if (claimed.length === 0) {
+      throw new VoteCommitError("This commitment has already been revealed");
+    }
+
+    try {
+      const result = await voteSubmissionService.submit(
+        { ...submission, signature: pending.signature, revealed: true },
+        rules,
+      );
+
+      await db
+        .update(voteCommitments)
+        .set({ voteId: result.vote.id })
+        .where(eq(voteCommitments.id, pending.id));
+
+      return result;
+    } catch (error) {
+      // The vote was refused, so the commitment can be revealed again
+      await db
+        .update(voteCommitments)
+        .set({ revealedAt: null, updatedAt: new Date() })
+        .where(eq(voteCommitments.id, pending.id));
+      throw error;
+    }
+  }
+
+  /** Explains when `wanted` opens, for requests made in the other phase. */
+  private describeWrongPhase(
+    phase: VotingPhase,
+    wanted: "commit" | "reveal",
+  ): string {
+    if (phase.phase === "open") {
+      return "Commit-reveal voting is off; cast votes directly";
+    }
+    return wanted === "commit"
+      ? `Commits are closed; the next commit phase opens at block ${phase.revealClosesAtBlock}`
+      : `Reveals are closed; the reveal phase opens at block ${phase.revealOpensAtBlock}`;
+  }
+}
+
+export const voteCommitService = new VoteCommitService();
@@ -0,0 +1,136 @@
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { db, type Transaction } from "../db";
+import { users, voteCreditLedger } from "../db/schema";
+import { competitionRoundService } from "./rounds";
+import { VoteNotAllowedError } from "./votes";
+import type { CompetitionRuleset, VoteCredits } from "~/types";
+
+/** The round a quadratic vote is paid from and that round's budget. */
+export interface CreditRound {
+  roundId: number;
+  budget: number;
+}
+
+export class VoteCreditService {
+  /** Credits needed to hold `votes` votes on one proposal. */
+  cost(votes: number): number {
+    return votes * votes;
+  }
+
+  async getCreditRound(rules: CompetitionRuleset): Promise<CreditRound> {
+    const round = await competitionRoundService.getOpenRound();
+    if (!round) {
+      throw new VoteNotAllowedError(
+        "No competition round is open, so there are no vote credits to spend",
+      );
+    }
+    return { roundId: round.id, budget: rules.quadraticCreditsPerRound };
+  }
+
+  /**
+   * Moves a wallet's holding on a proposal to `votes` votes inside the vote
+   * transaction. Credits spent on the proposal earlier in the same round are
+   * refunded first; credits spent in an earlier round stay spent there.
+   */
+  async reallocate(
+    tx: Transaction,
+    round: CreditRound,
+    userId: number,
+    proposalId: number,
+    votes: number,
+  ): Promise<void> {
+    // Serialises concurrent votes by the same wallet so the budget check holds
+    await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+
+    const [previous] = await tx
+      .select()
+      .from(voteCreditLedger)
+      .where(
+        and(
+          eq(voteCreditLedger.userId, userId),
+          eq(voteCreditLedger.proposalId, proposalId),
+        ),
+      )
+      .orderBy(desc(voteCreditLedger.id))
+      .limit(1);
+
+    const refund =
+      previous?.roundId === round.roundId ? this.cost(previous.votes) : 0;
+    const credits = this.cost(votes) - refund;
+
+    const [{ spent } = { spent: 0 }] = await tx
+      .select({
+        spent:
+          sql<number>`coalesce(sum(${voteCreditLedger.credits}), 0)`.mapWith(
+            Number,
+          ),
+      })
+      .from(voteCreditLedger)
+      .where(
+        and(
+          eq(voteCreditLedger.userId, userId),
+          eq(voteCreditLedger.roundId, round.roundId),
+        ),
+      );
+
+    if (spent + credits > round.budget) {
+      throw new VoteNotAllowedError(
+        `${votes} vote(s) cost ${this.cost(votes)} credits but only ${round.budget - spent + refund} of ${round.budget} are left this round`,
+      );
+    }
+
+    await tx.insert(voteCreditLedger).values({
+      userId,
+      roundId: round.roundId,
+      proposalId,
+      votes,
+      credits,
+    });
+  }
+
+  async getCredits(userId: number, round: CreditRound): Promise<VoteCredits> {
+    const entries = await db
+      .select()
+      .from(voteCreditLedger)
+      .where(
+        and(
+          eq(voteCreditLedger.userId, userId),
+          eq(voteCreditLedger.roundId, round.roundId),
+        ),
+      )
+      .orderBy(asc(voteCreditLedger.id));
+
+    const allocations = new Map<
+      number,
+      { proposalId: number; votes: number; credits: number }
+    >();
+    let spent = 0;
+    for (const entry of entries) {
+      const allocation = allocations.get(entry.proposalId) ?? {
+        proposalId: entry.proposalId,
+        votes: 0,
+        credits: 0,
+      };
+      allocation.votes = entry.votes;
+      allocation.credits += entry.credits;
+      allocations.set(entry.proposalId, allocation);
+      spent += entry.credits;
+    }
+
+    return {
+      roundId: round.roundId,
+      budget: round.budget,
+      spent,
+      remaining: round.budget - spent,
+      allocations: [...allocations.values()].filter(
+        (allocation) => allocation.votes > 0,
+      ),
+    };
+  }
+}
+
+export const voteCreditService = new VoteCreditService();
@@ -0,0 +1,134 @@
+import { and, eq, sql } from "drizzle-orm";
+import { db, type Transaction } from "../db";
+import { proposals, votes } from "../db/schema";
+import type { VoteCounterDrift, VoteCounters } from "~/types";
+
+// Weights are sums of doubles, so allow for rounding when comparing them
+const WEIGHT_TOLERANCE = 1e-6;
+
+const countedTotals = {
+  votesUp: sql<number>`count(*) filter (where ${votes.voteType} = 'up')::int`,
+  votesDown: sql<number>`count(*) filter (where ${votes.voteType} = 'down')::int`,
+  totalVotes: sql<number>`count(*)::int`,
+  weightUp: sql<number>`coalesce(sum(${votes.weight}) filter (where ${votes.voteType} = 'up'), 0)`,
+  weightDown: sql<number>`coalesce(sum(${votes.weight}) filter (where ${votes.voteType} = 'down'), 0)`,
+};
+
+function hasDrift(stored: VoteCounters, recomputed: VoteCounters): boolean {
+  return (
+    stored.votesUp !== recomputed.votesUp ||
+    stored.votesDown !== recomputed.votesDown ||
+    stored.totalVotes !== recomputed.totalVotes ||
+    Math.abs(stored.weightUp - recomputed.weightUp) > WEIGHT_TOLERANCE ||
+    Math.abs(stored.weightDown - recomputed.weightDown) > WEIGHT_TOLERANCE
+  );
+}
+
+export class VoteIntegrityService {
+  private async countVotes(
+    tx: Transaction,
+    proposalId: number,
+  ): Promise<VoteCounters> {
+    // An aggregate without GROUP BY always returns one row
+    const [totals] = await tx
+      .select(countedTotals)
+      .from(votes)
+      .where(
+        and(eq(votes.proposalId, proposalId), eq(votes.status, "counted")),
+      );
+
+    return {
+      ...totals!,
+      weightUp: Number(totals!.weightUp),
+      weightDown: Number(totals!.weightDown),
+    };
+  }
+
+  /**
+   * Recomputes every proposal's counters from its counted votes and
+   * overwrites the ones that drifted. Each correction is rechecked under the
+   * proposal's row lock, so a vote landing mid-scan is not mistaken for
+   * drift. Returns the drift that was corrected.
+   */
+  async reconcile(): Promise<VoteCounterDrift[]> {
+    const counted = db
+      .select({ proposalId: votes.proposalId, ...countedTotals })
+      .from(votes)
+      .where(eq(votes.status, "counted"))
+      .groupBy(votes.proposalId)
+      .as("counted");
+
+    const rows = await db
+      .select({
+        id: proposals.id,
+        votesUp: proposals.votesUp,
+        votesDown: proposals.votesDown,
+        totalVotes: proposals.totalVotes,
+        weightUp: proposals.weightUp,
+        weightDown: proposals.weightDown,
+        countedUp: counted.votesUp,
+        countedDown: counted.votesDown,
+        countedTotal: counted.totalVotes,
+        countedWeightUp: counted.weightUp,
+        countedWeightDown: counted.weightDown,
+      })
+      .from(proposals)
+      .leftJoin(counted, eq(counted.proposalId, proposals.id));
+
+    const suspects = rows.filter((row) =>
+      hasDrift(row, {
+        votesUp: row.countedUp ?? 0,
+        votesDown: row.countedDown ?? 0,
+        totalVotes: row.countedTotal ?? 0,
+        weightUp: Number(row.countedWeightUp ?? 0),
+        weightDown: Number(row.countedWeightDown ?? 0),
+      }),
+    );
+
+    const corrected: VoteCounterDrift[] = [];
+    for (const suspect of suspects) {
+      const drift = await db.transaction(async (tx) => {
+        const [proposal] = await tx
+          .select({
+            ticker: proposals.ticker,
+            votesUp: proposals.votesUp,
+            votesDown: proposals.votesDown,
+            totalVotes: proposals.totalVotes,
+            weightUp: proposals.weightUp,
+            weightDown: proposals.weightDown,
+          })
+          .from(proposals)
+          .where(eq(proposals.id, suspect.id))
+          .for("update");
+
+        if (!proposal) {
+          return null;
+        }
+
+        const { ticker, ...stored } = proposal;
+        const recomputed = await this.countVotes(tx, suspect.id);
+        if (!hasDrift(stored, recomputed)) {
+          return null;
+        }
+
+        await tx
+          .update(proposals)
+          .set({ ...recomputed, updatedAt: new Date() })
+          .where(eq(proposals.id, suspect.id));
+
+        return { proposalId: suspect.id, ticker, stored, recomputed };
+      });
+
+      if (drift) {
+        console.warn(
+          `⚠️ Corrected vote counters of proposal ${drift.proposalId} (${drift.ticker}): ${drift.stored.votesUp}/${drift.stored.votesDown}/${drift.stored.totalVotes} -> ${drift.recomputed.votesUp}/${drift.recomputed.votesDown}/${drift.recomputed.totalVotes} (up/down/total)`,
+        );
+        corrected.push(drift);
+      }
+    }
+
+    return corrected;
+  }
+}
+
+export const voteIntegrityService = new VoteIntegrityService();
@@ -0,0 +1,167 @@
+import { createHash } from "crypto";
+import { eq } from "drizzle-orm";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createTestDb, type TestDb } from "~/test/db";
+import type { VoteMerkleProof } from "~/types";
+
+let testDb: TestDb;
+vi.mock("~/server/db", () => ({
+  get db() {
+    return testDb;
+  },
+}));
+
+const { voteMerkleService } = await import("./vote-merkle");
+const { delegations, proposals, users, votes } = await import(
+  "~/server/db/schema"
+);
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = createHash("sha256");
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+}
+
+/** Folds a proof up to its root the way the README tells voters to. */
+function foldProof(proof: VoteMerkleProof): string {
+  const { leaf } = proof;
+  let hash = sha256(
+    Buffer.from([0]),
+    Buffer.from(
+      [
+        leaf.walletAddress,
+        leaf.proposalId,
+        leaf.voteType,
+        leaf.weight,
+        leaf.source,
+        leaf.proof,
+      ].join("\n"),
+    ),
+  );
+  for (const { side, hash: sibling } of proof.path) {
+    const siblingHash = Buffer.from(sibling, "hex");
+    hash =
+      side === "left"
+        ? sha256(Buffer.from([1]), siblingHash, hash)
+        : sha256(Buffer.from([1]), hash, siblingHash);
+  }
+  return hash.toString("hex");
+}
+
+describe("voteMerkleService", () => {
+  let proposalId: number;
+  let delegationId: number;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+
+    const [proposal] = await testDb
+      .insert(proposals)
+      .values({
+        name: "Pepe",
+        ticker: "PEPE",
+        tickerSkeleton: "PEPE",
+        description: "Pepe proposal",
+        imageUrl: "https://example.com/pepe.png",
+      })
+      .returning();
+    proposalId = proposal!.id;
+
+    const [signer, holder, delegator, delegate] = await testDb
+      .insert(users)
+      .values([
+        { walletAddress: "tb1signer" },
+        { walletAddress: "tb1holder" },
+        { walletAddress: "tb1delegator" },
+        { walletAddress: "tb1delegate" },
+      ])
+      .returning();
+
+    const [delegation] = await testDb
+      .insert(delegations)
+      .values({
+        delegatorId: delegator!.id,
+        delegateId: delegate!.id,
+        signature: "delegation-signature",
+      })
+      .returning();
+    delegationId = delegation!.id;
+
+    await testDb.insert(votes).values([
+      {
+        userId: signer!.id,
+        proposalId,
+        voteType: "up",
+        weight: 1.5,
+        signature: "api-signature",
+      },
+      {
+        userId: holder!.id,
+        proposalId,
+        voteType: "down",
+        weight: 2,
+        source: "onchain",
+        txid: "ab".repeat(32),
+      },
+      {
+        userId: delegator!.id,
+        proposalId,
+        voteType: "up",
+        weight: 1 / 3,
+        source: "delegation",
+        delegateId: delegate!.id,
+      },
+    ]);
+  });
+
+  it("commits api, on-chain and delegated votes with their own proof", async () => {
+    const { leaves } = await voteMerkleService.commit(proposalId);
+    const byWallet = Object.fromEntries(
+      leaves.map((leaf) => [leaf.walletAddress, leaf]),
+    );
+
+    expect(leaves).toHaveLength(3);
+    expect(byWallet.tb1signer).toMatchObject({
+      source: "api",
+      weight: "1.50000000",
+      proof: "api-signature",
+    });
+    expect(byWallet.tb1holder).toMatchObject({
+      source: "onchain",
+      weight: "2.00000000",
+      proof: "ab".repeat(32),
+    });
+    expect(byWallet.tb1delegator).toMatchObject({
+      source: "delegation",
+      weight: "0.33333333",
+      proof: String(delegationId),
+    });
+  });
+
+  it("proves every vote against the committed root", async () => {
+    const { root, leaves } = await voteMerkleService.commit(proposalId);
+
+    for (const { walletAddress } of leaves) {
+      const proof = voteMerkleService.getProof(leaves, walletAddress)!;
+      expect(proof.root).toBe(root);
+      expect(foldProof(proof)).toBe(root);
+    }
+    expect(voteMerkleService.getProof(leaves, "tb1stranger")).toBeNull();
+  });
+
+  it("keeps proving stored leaves after the live votes change", async () => {
+    const { root, leaves } = await voteMerkleService.commit(proposalId);
+
+    await testDb
+      .update(votes)
+      .set({ status: "held" })
+      .where(eq(votes.source, "onchain"));
+
+    const live = await voteMerkleService.commit(proposalId);
+    expect(live.root).not.toBe(root);
+
+    const proof = voteMerkleService.getProof(leaves, "tb1holder")!;
+    expect(voteMerkleService.getRoot(leaves)).toBe(root);
+    expect(foldProof(proof)).toBe(root);
+  });
+});
@@ -0,0 +1,170 @@
+import { createHash } from "crypto";
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { delegations, users, votes } from "../db/schema";
+import type { VoteMerkleLeaf, VoteMerkleProof } from "~/types";
+
+// Leaves and inner nodes are hashed with different prefixes so a leaf can
+// never be passed off as an inner node
+const LEAF_PREFIX = Buffer.from([0]);
+const NODE_PREFIX = Buffer.from([1]);
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = createHash("sha256");
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+}
+
+const WEIGHT_DECIMALS = 8;
+
+/** The exact bytes a voter hashes to get their leaf. */
+function encodeVoteLeaf(leaf: VoteMerkleLeaf): string {
+  return [
+    leaf.walletAddress,
+    leaf.proposalId,
+    leaf.voteType,
+    leaf.weight,
+    leaf.source,
+    leaf.proof,
+  ].join("\n");
+}
+
+function hashVoteLeaf(leaf: VoteMerkleLeaf): Buffer {
+  return sha256(LEAF_PREFIX, Buffer.from(encodeVoteLeaf(leaf), "utf8"));
+}
+
+interface VoteMerkleTree {
+  root: string;
+  leaves: Array<{ leaf: VoteMerkleLeaf; hash: Buffer }>;
+  /** Hashes per level, starting with the sorted leaf hashes */
+  levels: Buffer[][];
+}
+
+/**
+ * Leaves are sorted by hash so the root does not depend on row order, and an
+ * odd node at the end of a level is carried up unchanged.
+ */
+function buildTree(leaves: VoteMerkleLeaf[]): VoteMerkleTree {
+  const hashed = leaves
+    .map((leaf) => ({ leaf, hash: hashVoteLeaf(leaf) }))
+    .sort((a, b) => Buffer.compare(a.hash, b.hash));
+
+  const levels: Buffer[][] = [hashed.map(({ hash }) => hash)];
+  while (levels[levels.length - 1]!.length > 1) {
+    const level = levels[levels.length - 1]!;
+    const parents: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const right = level[i + 1];
+      parents.push(right ? sha256(NODE_PREFIX, level[i]!, right) : level[i]!);
+    }
+    levels.push(parents);
+  }
+
+  // An empty tree commits to the hash of nothing
+  const root = levels[levels.length - 1]![0] ?? sha256();
+  return { root: root.toString("hex"), leaves: hashed, levels };
+}
+
+export class VoteMerkleService {
+  /**
+   * Leaves for every counted vote on a proposal. Each names what authorized
+   * the vote, so delegated and on-chain votes are committed too.
+   */
+  async getLeaves(proposalId: number): Promise<VoteMerkleLeaf[]> {
+    const rows = await db
+      .select({
+        walletAddress: users.walletAddress,
+        voteType: votes.voteType,
+        weight: votes.weight,
+        source: votes.source,
+        signature: votes.signature,
+        txid: votes.txid,
+        delegationId: sql<number | null>`(
+          SELECT ${delegations.id} FROM ${delegations}
+          WHERE ${delegations.delegatorId} = ${votes.userId}
+            AND ${delegations.delegateId} = ${votes.delegateId}
+          ORDER BY ${delegations.id} DESC
+          LIMIT 1
+        )`,
+      })
+      .from(votes)
+      .innerJoin(users, eq(votes.userId, users.id))
+      .where(
+        and(eq(votes.proposalId, proposalId), eq(votes.status, "counted")),
+      );
+
+    return rows.map((row) => ({
+      walletAddress: row.walletAddress ?? "",
+      proposalId,
+      voteType: row.voteType,
+      weight: row.weight.toFixed(WEIGHT_DECIMALS),
+      source: row.source,
+      // Votes cast before signing existed have no proof
+      proof:
+        row.source === "onchain"
+          ? (row.txid ?? "")
+          : row.source === "delegation"
+            ? String(row.delegationId ?? "")
+            : (row.signature ?? ""),
+    }));
+  }
+
+  /**
+   * Root over a proposal's counted votes, with the leaves it was built from
+   * so proofs can be served after the votes change.
+   */
+  async commit(
+    proposalId: number,
+  ): Promise<{ root: string; leaves: VoteMerkleLeaf[] }> {
+    const leaves = await this.getLeaves(proposalId);
+    return { root: buildTree(leaves).root, leaves };
+  }
+
+  getRoot(leaves: VoteMerkleLeaf[]): string {
+    return buildTree(leaves).root;
+  }
+
+  /**
+   * Inclusion proof for a wallet's vote among committed leaves, or null if
+   * there is no vote from it. Hash the leaf, then fold in each sibling on its
+   * side to get the root.
+   */
+  getProof(
+    leaves: VoteMerkleLeaf[],
+    walletAddress: string,
+  ): VoteMerkleProof | null {
+    const tree = buildTree(leaves);
+    const leafIndex = tree.leaves.findIndex(
+      ({ leaf }) => leaf.walletAddress === walletAddress,
+    );
+    if (leafIndex === -1) {
+      return null;
+    }
+
+    const path: VoteMerkleProof["path"] = [];
+    let index = leafIndex;
+    for (const level of tree.levels.slice(0, -1)) {
+      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+      const sibling = level[siblingIndex];
+      if (sibling) {
+        path.push({
+          side: index % 2 === 0 ? "right" : "left",
+          hash: sibling.toString("hex"),
+        });
+      }
+      index = Math.floor(index / 2);
+    }
+
+    const { leaf, hash } = tree.leaves[leafIndex]!;
+    return {
+      root: tree.root,
+      voteCount: tree.leaves.length,
+      leafIndex,
+      leaf,
+      leafHash: hash.toString("hex"),
+      path,
+    };
+  }
+}
+
+export const voteMerkleService = new VoteMerkleService();
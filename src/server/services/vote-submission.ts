@@ -0,0 +1,95 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { users } from "../db/schema";
+import { delegationService } from "./delegations";
+import { voteAnomalyService } from "./vote-anomaly";
+import { voteCreditService } from "./vote-credits";
+import { voteWeightService } from "./vote-weight";
+import { VoteNotAllowedError, voteService, type VoteCharge } from "./votes";
+import { walletEligibilityService } from "./wallet-eligibility";
+import type { CompetitionRuleset, Vote } from "~/types";
+
+export class VoteSubmissionService {
+  /**
+   * User id of a wallet whose signature has been checked, creating the user
+   * on its first vote. Wallets without enough on-chain history cannot vote;
+   * once one passes it is not checked again.
+   */
+  async getVoter(
+    walletAddress: string,
+    rules: CompetitionRuleset,
+  ): Promise<number> {
+    const [user] = await db
+      .select({ walletVerifiedAt: users.walletVerifiedAt })
+      .from(users)
+      .where(eq(users.walletAddress, walletAddress))
+      .limit(1);
+
+    if (!user?.walletVerifiedAt) {
+      await walletEligibilityService.assertEligible(walletAddress, rules);
+    }
+
+    return voteService.getOrCreateVoter(walletAddress);
+  }
+
+  /**
+   * Casts or switches the vote of a wallet whose signature has already been
+   * checked: weighs it under `rules`, holds it if it looks like part of a
+   * burst and carries it to the wallet's delegators.
+   */
+  async submit(
+    submission: {
+      walletAddress: string;
+      proposalId: number;
+      voteType: "up" | "down";
+      votes?: number;
+      signature?: string;
+      /** Transaction of a vote read from the chain rather than the API */
+      txid?: string;
+      /** Set for votes whose signature covers a commitment, not the vote */
+      revealed?: boolean;
+    },
+    rules: CompetitionRuleset,
+  ): Promise<{ vote: Vote; action: "cast" | "change" }> {
+    const { walletAddress, proposalId, voteType, signature, txid } = submission;
+
+    const userId = await this.getVoter(walletAddress, rules);
+    const existingVote = await voteService.getVote(userId, proposalId);
+    let weight: number | undefined;
+    let charge: VoteCharge | undefined;
+
+    if (rules.votingMode === "quadratic") {
+      // In quadratic mode the weight is the number of votes bought
+      weight = submission.votes ?? 1;
+      const round = await voteCreditService.getCreditRound(rules);
+      charge = (tx, votes) =>
+        voteCreditService.reallocate(tx, round, userId, proposalId, votes);
+    } else if ((submission.votes ?? 1) !== 1) {
+      throw new VoteNotAllowedError(
+        "Several votes per proposal are only allowed in quadratic mode",
+      );
+    } else if (!existingVote) {
+      // Only new votes are weighed; a changed vote keeps its original weight
+      weight = await voteWeightService.getWeight(walletAddress, rules);
+    }
+
+    const holdReason = existingVote
+      ? undefined
+      : await voteAnomalyService.getHoldReason(userId, proposalId);
+
+    return voteService.castVote(userId, proposalId, voteType, {
+      weight,
+      signature,
+      source: txid ? "onchain" : submission.revealed ? "reveal" : "api",
+      txid,
+      charge,
+      holdReason,
+      // Wallets that delegated to this voter follow the vote
+      delegators: holdReason
+        ? undefined
+        : await delegationService.getDelegatorWeights(userId, rules),
+    });
+  }
+}
+
+export const voteSubmissionService = new VoteSubmissionService();
@@ -0,0 +1,58 @@
+import { esploraService } from "../btc/esplora";
+import { competitionConfigService } from "./competition-config";
+import { competitionRoundService } from "./rounds";
+import { rankingService } from "./ranking";
+import { VoteNotAllowedError } from "./votes";
+import type { CompetitionRuleset } from "~/types";
+
+const SATS_PER_BTC = 100000000;
+
+export class VoteWeightService {
+  /** The ruleset in force at the last processed block, which votes follow. */
+  async getVotingRules(): Promise<CompetitionRuleset> {
+    const { context } = await rankingService.getActiveRanking();
+    return competitionConfigService.getEffectiveConfig(context.blockHeight);
+  }
+
+  /** Weight of a balance under the ruleset's cap and curve, in BTC units. */
+  weightForBalance(balanceSats: number, rules: CompetitionRuleset): number {
+    const btc =
+      Math.min(Math.max(balanceSats, 0), rules.balanceWeightCapSats) /
+      SATS_PER_BTC;
+    return rules.balanceWeightCurve === "sqrt" ? Math.sqrt(btc) : btc;
+  }
+
+  /**
+   * Weight a new vote from `walletAddress` carries under `rules`.
+   * In balance mode it is the wallet's confirmed balance at the height the
+   * current round opened, so coins moved in after the round started add
+   * nothing.
+   */
+  async getWeight(
+    walletAddress: string,
+    rules: CompetitionRuleset,
+  ): Promise<number> {
+    if (rules.votingMode !== "balance") {
+      return 1;
+    }
+
+    const round = await competitionRoundService.getOpenRound();
+    const snapshotHeight = round
+      ? round.startBlock
+      : (await rankingService.getActiveRanking()).context.blockHeight;
+    const { confirmed } = await esploraService.getAddressBalance(
+      walletAddress,
+      snapshotHeight,
+    );
+
+    const weight = this.weightForBalance(confirmed, rules);
+    if (weight <= 0) {
+      throw new VoteNotAllowedError(
+        `Voting is weighted by balance and ${walletAddress} held no confirmed BTC at block ${snapshotHeight}, when this round opened`,
+      );
+    }
+    return weight;
+  }
+}
+
+export const voteWeightService = new VoteWeightService();
@@ -0,0 +1,764 @@
+import { and, asc, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { db, type Transaction } from "../db";
+import { proposals, users, voteEvents, votes } from "../db/schema";
+import type {
+  LeaderboardEntry,
+  Vote,
+  VoteEvent,
+  VoteSource,
+  VoteTally,
+} from "~/types";
+
+type VoteType = "up" | "down";
+type VoteRow = typeof votes.$inferSelect;
+
+export class VoteNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoteNotAllowedError";
+  }
+}
+
+interface WeightedVote {
+  type: VoteType;
+  weight: number;
+}
+
+/**
+ * Counter and weight deltas for replacing vote `from` with vote `to` (null
+ * means no vote, or one that is not counted).
+ */
+function counterChanges(from: WeightedVote | null, to: WeightedVote | null) {
+  const count = (vote: WeightedVote | null, type: VoteType) =>
+    vote?.type === type ? 1 : 0;
+  const weigh = (vote: WeightedVote | null, type: VoteType) =>
+    vote?.type === type ? vote.weight : 0;
+
+  return {
+    votesUp: sql`${proposals.votesUp} + ${count(to, "up") - count(from, "up")}`,
+    votesDown: sql`${proposals.votesDown} + ${count(to, "down") - count(from, "down")}`,
+    totalVotes: sql`${proposals.totalVotes} + ${(to ? 1 : 0) - (from ? 1 : 0)}`,
+    weightUp: sql`${proposals.weightUp} + ${weigh(to, "up") - weigh(from, "up")}`,
+    weightDown: sql`${proposals.weightDown} + ${weigh(to, "down") - weigh(from, "down")}`,
+    updatedAt: sql`CURRENT_TIMESTAMP`,
+  };
+}
+
+/** Runs inside the vote transaction to pay for the weight a vote ends up with. */
+export type VoteCharge = (tx: Transaction, weight: number) => Promise<void>;
+
+export class VoteService {
+  toVote(row: VoteRow): Vote {
+    return {
+      id: row.id,
+      userId: row.userId,
+      proposalId: row.proposalId,
+      voteType: row.voteType,
+      weight: row.weight,
+      status: row.status,
+      holdReason: row.holdReason ?? undefined,
+      delegateId: row.delegateId ?? undefined,
+      source: row.source,
+      txid: row.txid ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+
+  /** Rejects changes to a vote that is waiting for, or failed, admin review. */
+  private assertReviewed(vote: VoteRow) {
+    if (vote.status === "held") {
+      throw new VoteNotAllowedError(
+        "Your vote on this proposal is held for admin review and cannot be changed yet",
+      );
+    }
+    if (vote.status === "rejected") {
+      throw new VoteNotAllowedError(
+        "Your vote on this proposal was rejected in review",
+      );
+    }
+  }
+
+  /**
+   * Locks the proposal for the rest of the transaction so concurrent votes on
+   * it apply their counter changes one at a time. Votes can only move while
+   * the proposal is active; once it leads, its tally is what the engine is
+   * defending.
+   */
+  private async lockActiveProposal(tx: Transaction, proposalId: number) {
+    const [proposal] = await tx
+      .select({ status: proposals.status })
+      .from(proposals)
+      .where(eq(proposals.id, proposalId))
+      .for("update");
+
+    if (!proposal) {
+      throw new VoteNotAllowedError("Proposal not found");
+    }
+    if (proposal.status !== "active") {
+      throw new VoteNotAllowedError(
+        proposal.status === "leader"
+          ? "Votes on the current leader can no longer be cast or changed"
+          : "Proposal is not active for voting",
+      );
+    }
+  }
+
+  /**
+   * Returns the user id for a wallet that has proven it can vote, creating
+   * the user if needed. Concurrent first votes from one wallet wait on an
+   * advisory lock, so they cannot create two users and vote twice.
+   */
+  async getOrCreateVoter(walletAddress: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      await tx.execute(
+        sql`SELECT pg_advisory_xact_lock(hashtext(${walletAddress}))`,
+      );
+
+      const [existing] = await tx
+        .select({ id: users.id, walletVerifiedAt: users.walletVerifiedAt })
+        .from(users)
+        .where(eq(users.walletAddress, walletAddress))
+        .limit(1);
+
+      if (existing) {
+        if (!existing.walletVerifiedAt) {
+          await tx
+            .update(users)
+            .set({ walletVerifiedAt: new Date() })
+            .where(eq(users.id, existing.id));
+        }
+        return existing.id;
+      }
+
+      const [created] = await tx
+        .insert(users)
+        .values({ walletAddress, walletVerifiedAt: new Date() })
+        .returning({ id: users.id });
+      return created!.id;
+    });
+  }
+
+  async getVote(userId: number, proposalId: number): Promise<Vote | null> {
+    const [row] = await db
+      .select()
+      .from(votes)
+      .where(and(eq(votes.userId, userId), eq(votes.proposalId, proposalId)))
+      .limit(1);
+
+    return row ? this.toVote(row) : null;
+  }
+
+  /** Moves a delegated vote between `from` and `to` and records the event. */
+  private async applyDelegatedChange(
+    tx: Transaction,
+    vote: { userId: number; proposalId: number; delegateId: number },
+    action: "cast" | "change" | "retract",
+    from: WeightedVote | null,
+    to: WeightedVote | null,
+  ) {
+    await tx
+      .update(proposals)
+      .set(counterChanges(from, to))
+      .where(eq(proposals.id, vote.proposalId));
+
+    await tx.insert(voteEvents).values({
+      ...vote,
+      action,
+      fromType: from?.type,
+      toType: to?.type,
+      weight: (to ?? from)!.weight,
+    });
+  }
+
+  /**
+   * Brings the votes that follow curator `delegateId` on a proposal in line
+   * with the curator's own vote: they switch or go with it, and delegators
+   * in `delegators` (user id to weight) without a vote of their own gain one.
+   */
+  private async syncDelegatedVotes(
+    tx: Transaction,
+    delegateId: number,
+    proposalId: number,
+    voteType: VoteType | null,
+    delegators: Map<number, number>,
+  ) {
+    const following = await tx
+      .select()
+      .from(votes)
+      .where(
+        and(eq(votes.proposalId, proposalId), eq(votes.delegateId, delegateId)),
+      );
+
+    for (const row of following) {
+      const from = { type: row.voteType, weight: row.weight };
+      const vote = { userId: row.userId, proposalId, delegateId };
+      if (!voteType) {
+        await tx.delete(votes).where(eq(votes.id, row.id));
+        await this.applyDelegatedChange(tx, vote, "retract", from, null);
+      } else if (row.voteType !== voteType) {
+        await tx
+          .update(votes)
+          .set({ voteType, updatedAt: new Date() })
+          .where(eq(votes.id, row.id));
+        await this.applyDelegatedChange(tx, vote, "change", from, {
+          type: voteType,
+          weight: row.weight,
+        });
+      }
+    }
+
+    const candidates = [...delegators.keys()];
+    if (!voteType || candidates.length === 0) {
+      return;
+    }
+
+    // A delegator who voted on the proposal themselves keeps that vote
+    const voted = await tx
+      .select({ userId: votes.userId })
+      .from(votes)
+      .where(
+        and(
+          eq(votes.proposalId, proposalId),
+          inArray(votes.userId, candidates),
+        ),
+      );
+    const hasVote = new Set(voted.map((row) => row.userId));
+
+    for (const delegatorId of candidates) {
+      if (hasVote.has(delegatorId)) continue;
+      const weight = delegators.get(delegatorId)!;
+      await tx.insert(votes).values({
+        userId: delegatorId,
+        proposalId,
+        voteType,
+        weight,
+        delegateId,
+        source: "delegation",
+      });
+      await this.applyDelegatedChange(
+        tx,
+        { userId: delegatorId, proposalId, delegateId },
+        "cast",
+        null,
+        { type: voteType, weight },
+      );
+    }
+  }
+
+  /**
+   * Casts a vote, or changes an existing vote's type or weight. Without a
+   * `weight`, a changed vote keeps the weight it was cast with. A new vote
+   * with a `holdReason` is recorded but held off the counters for review.
+   * A vote the user makes themselves replaces one a curator cast for them,
+   * and votes of the user's own `delegators` follow theirs.
+   */
+  async castVote(
+    userId: number,
+    proposalId: number,
+    voteType: VoteType,
+    options: {
+      weight?: number;
+      signature?: string;
+      charge?: VoteCharge;
+      holdReason?: string;
+      delegators?: Map<number, number>;
+      source?: Exclude<VoteSource, "delegation">;
+      txid?: string;
+    } = {},
+  ): Promise<{ vote: Vote; action: "cast" | "change" }> {
+    return db.transaction(async (tx) => {
+      await this.lockActiveProposal(tx, proposalId);
+
+      const [existing] = await tx
+        .select()
+        .from(votes)
+        .where(and(eq(votes.userId, userId), eq(votes.proposalId, proposalId)))
+        .limit(1);
+
+      if (existing) {
+        this.assertReviewed(existing);
+      }
+
+      const weight = options.weight ?? existing?.weight ?? 1;
+      if (
+        existing &&
+        existing.delegateId === null &&
+        existing.voteType === voteType &&
+        existing.weight === weight
+      ) {
+        throw new VoteNotAllowedError(
+          `You have already voted ${voteType} on this proposal`,
+        );
+      }
+
+      await options.charge?.(tx, weight);
+
+      const [row] = existing
+        ? await tx
+            .update(votes)
+            .set({
+              voteType,
+              weight,
+              signature: options.signature,
+              delegateId: null,
+              source: options.source ?? "api",
+              txid: options.txid ?? null,
+              updatedAt: new Date(),
+            })
+            .where(eq(votes.id, existing.id))
+            .returning()
+        : await tx
+            .insert(votes)
+            .values({
+              userId,
+              proposalId,
+              voteType,
+              weight,
+              status: options.holdReason ? "held" : "counted",
+              holdReason: options.holdReason,
+              signature: options.signature,
+              source: options.source,
+              txid: options.txid,
+            })
+            .returning();
+
+      const from = existing
+        ? { type: existing.voteType, weight: existing.weight }
+        : null;
+      const held = row!.status === "held";
+      await tx
+        .update(proposals)
+        .set(counterChanges(from, held ? null : { type: voteType, weight }))
+        .where(eq(proposals.id, proposalId));
+
+      const action = existing ? "change" : "cast";
+      await tx.insert(voteEvents).values({
+        userId,
+        proposalId,
+        action,
+        fromType: from?.type,
+        toType: voteType,
+        weight,
+      });
+      if (held) {
+        await tx.insert(voteEvents).values({
+          userId,
+          proposalId,
+          action: "hold",
+          fromType: voteType,
+          weight,
+        });
+      } else {
+        await this.syncDelegatedVotes(
+          tx,
+          userId,
+          proposalId,
+          voteType,
+          options.delegators ?? new Map(),
+        );
+      }
+
+      return { vote: this.toVote(row!), action };
+    });
+  }
+
+  /** Withdraws a user's vote and takes it off the proposal's counters. */
+  async retractVote(
+    userId: number,
+    proposalId: number,
+    options: { charge?: VoteCharge } = {},
+  ): Promise<Vote> {
+    return db.transaction(async (tx) => {
+      await this.lockActiveProposal(tx, proposalId);
+
+      const [existing] = await tx
+        .select()
+        .from(votes)
+        .where(and(eq(votes.userId, userId), eq(votes.proposalId, proposalId)))
+        .limit(1);
+
+      if (!existing) {
+        throw new VoteNotAllowedError("You have not voted on this proposal");
+      }
+      this.assertReviewed(existing);
+
+      const [removed] = await tx
+        .delete(votes)
+        .where(eq(votes.id, existing.id))
+        .returning();
+
+      await options.charge?.(tx, 0);
+
+      await tx
+        .update(proposals)
+        .set(
+          counterChanges(
+            { type: removed!.voteType, weight: removed!.weight },
+            null,
+          ),
+        )
+        .where(eq(proposals.id, proposalId));
+
+      await tx.insert(voteEvents).values({
+        userId,
+        proposalId,
+        action: "retract",
+        fromType: removed!.voteType,
+        weight: removed!.weight,
+        delegateId: removed!.delegateId,
+      });
+
+      // Votes that followed the user's vote go with it
+      await this.syncDelegatedVotes(tx, userId, proposalId, null, new Map());
+
+      return this.toVote(removed!);
+    });
+  }
+
+  /**
+   * Gives a new delegator a vote following each of the curator's own votes
+   * on active proposals, except where the delegator has voted already.
+   */
+  async applyDelegation(
+    delegatorId: number,
+    delegateId: number,
+    weight: number,
+  ): Promise<number> {
+    const curatorVotes = await db
+      .select({ proposalId: votes.proposalId, voteType: votes.voteType })
+      .from(votes)
+      .innerJoin(proposals, eq(votes.proposalId, proposals.id))
+      .where(
+        and(
+          eq(votes.userId, delegateId),
+          isNull(votes.delegateId),
+          eq(votes.status, "counted"),
+          eq(proposals.status, "active"),
+        ),
+      );
+
+    let applied = 0;
+    for (const { proposalId, voteType } of curatorVotes) {
+      const cast = await db.transaction(async (tx) => {
+        try {
+          await this.lockActiveProposal(tx, proposalId);
+        } catch (error) {
+          if (error instanceof VoteNotAllowedError) return false;
+          throw error;
+        }
+
+        const [existing] = await tx
+          .select({ id: votes.id })
+          .from(votes)
+          .where(
+            and(
+              eq(votes.userId, delegatorId),
+              eq(votes.proposalId, proposalId),
+            ),
+          )
+          .limit(1);
+        if (existing) return false;
+
+        await tx.insert(votes).values({
+          userId: delegatorId,
+          proposalId,
+          voteType,
+          weight,
+          delegateId,
+          source: "delegation",
+        });
+        await this.applyDelegatedChange(
+          tx,
+          { userId: delegatorId, proposalId, delegateId },
+          "cast",
+          null,
+          { type: voteType, weight },
+        );
+        return true;
+      });
+      if (cast) applied++;
+    }
+
+    return applied;
+  }
+
+  /**
+   * Withdraws the votes curators cast for a delegator on proposals that are
+   * still active. Votes on a leader stay, like any other vote on it.
+   */
+  async removeDelegatedVotes(delegatorId: number): Promise<number> {
+    const delegated = await db
+      .select({ id: votes.id, proposalId: votes.proposalId })
+      .from(votes)
+      .innerJoin(proposals, eq(votes.proposalId, proposals.id))
+      .where(
+        and(
+          eq(votes.userId, delegatorId),
+          isNotNull(votes.delegateId),
+          eq(proposals.status, "active"),
+        ),
+      );
+
+    let removed = 0;
+    for (const { id, proposalId } of delegated) {
+      const done = await db.transaction(async (tx) => {
+        try {
+          await this.lockActiveProposal(tx, proposalId);
+        } catch (error) {
+          if (error instanceof VoteNotAllowedError) return false;
+          throw error;
+        }
+
+        const [row] = await tx
+          .delete(votes)
+          .where(and(eq(votes.id, id), isNotNull(votes.delegateId)))
+          .returning();
+        if (!row) return false;
+
+        await this.applyDelegatedChange(
+          tx,
+          { userId: delegatorId, proposalId, delegateId: row.delegateId! },
+          "retract",
+          { type: row.voteType, weight: row.weight },
+          null,
+        );
+        return true;
+      });
+      if (done) removed++;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Takes counted votes off their proposals' counters and holds them for
+   * review. Votes on proposals that have left the competition are skipped.
+   * Returns the votes that were held.
+   */
+  async holdVotes(voteIds: number[], reason: string): Promise<Vote[]> {
+    const held: Vote[] = [];
+
+    for (const voteId of voteIds) {
+      const vote = await db.transaction(async (tx) => {
+        const [candidate] = await tx
+          .select({ proposalId: votes.proposalId })
+          .from(votes)
+          .where(eq(votes.id, voteId))
+          .limit(1);
+        if (!candidate) {
+          return null;
+        }
+
+        const [proposal] = await tx
+          .select({ status: proposals.status })
+          .from(proposals)
+          .where(eq(proposals.id, candidate.proposalId))
+          .for("update");
+        if (proposal?.status !== "active" && proposal?.status !== "leader") {
+          return null;
+        }
+
+        const [row] = await tx
+          .update(votes)
+          .set({ status: "held", holdReason: reason, updatedAt: new Date() })
+          .where(and(eq(votes.id, voteId), eq(votes.status, "counted")))
+          .returning();
+        if (!row) {
+          return null;
+        }
+
+        await tx
+          .update(proposals)
+          .set(counterChanges({ type: row.voteType, weight: row.weight }, null))
+          .where(eq(proposals.id, row.proposalId));
+
+        await tx.insert(voteEvents).values({
+          userId: row.userId,
+          proposalId: row.proposalId,
+          action: "hold",
+          fromType: row.voteType,
+          weight: row.weight,
+        });
+
+        return this.toVote(row);
+      });
+
+      if (vote) {
+        held.push(vote);
+      }
+    }
+
+    return held;
+  }
+
+  /**
+   * Settles a held vote. An approved vote is added to the counters, which is
+   * only possible while its proposal is still competing; a rejected vote
+   * stays on record and blocks the wallet from voting on that proposal again.
+   */
+  async reviewVote(voteId: number, decision: "approve" | "reject") {
+    return db.transaction(async (tx) => {
+      const [held] = await tx
+        .select()
+        .from(votes)
+        .where(eq(votes.id, voteId))
+        .limit(1);
+
+      if (!held) {
+        throw new VoteNotAllowedError(`Vote ${voteId} not found`);
+      }
+      if (held.status !== "held") {
+        throw new VoteNotAllowedError(`Vote ${voteId} is not held for review`);
+      }
+
+      const [proposal] = await tx
+        .select({ status: proposals.status })
+        .from(proposals)
+        .where(eq(proposals.id, held.proposalId))
+        .for("update");
+
+      if (decision === "approve") {
+        if (proposal?.status !== "active" && proposal?.status !== "leader") {
+          throw new VoteNotAllowedError(
+            "The proposal has left the competition, so this vote can only be rejected",
+          );
+        }
+        await tx
+          .update(proposals)
+          .set(
+            counterChanges(null, { type: held.voteType, weight: held.weight }),
+          )
+          .where(eq(proposals.id, held.proposalId));
+      }
+
+      const [row] = await tx
+        .update(votes)
+        .set({
+          status: decision === "approve" ? "counted" : "rejected",
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(votes.id, voteId))
+        .returning();
+
+      await tx.insert(voteEvents).values({
+        userId: held.userId,
+        proposalId: held.proposalId,
+        action: decision === "approve" ? "release" : "reject",
+        toType: decision === "approve" ? held.voteType : undefined,
+        weight: held.weight,
+      });
+
+      return this.toVote(row!);
+    });
+  }
+
+  async listHeldVotes(proposalId?: number): Promise<Vote[]> {
+    const rows = await db
+      .select()
+      .from(votes)
+      .where(
+        proposalId
+          ? and(eq(votes.status, "held"), eq(votes.proposalId, proposalId))
+          : eq(votes.status, "held"),
+      )
+      .orderBy(asc(votes.createdAt));
+
+    return rows.map((row) => this.toVote(row));
+  }
+
+  /**
+   * Splits the counted votes of each proposal into wallets' own votes and
+   * those curators cast for their delegators.
+   */
+  async getBreakdowns(
+    proposalIds: number[],
+  ): Promise<Map<number, NonNullable<LeaderboardEntry["breakdown"]>>> {
+    const breakdowns = new Map<
+      number,
+      NonNullable<LeaderboardEntry["breakdown"]>
+    >();
+    if (proposalIds.length === 0) {
+      return breakdowns;
+    }
+
+    const isDelegated = sql<boolean>`${votes.delegateId} IS NOT NULL`;
+    const rows = await db
+      .select({
+        proposalId: votes.proposalId,
+        delegated: isDelegated,
+        votesUp: sql<number>`count(*) filter (where ${votes.voteType} = 'up')::int`,
+        votesDown: sql<number>`count(*) filter (where ${votes.voteType} = 'down')::int`,
+        weightUp: sql<number>`coalesce(sum(${votes.weight}) filter (where ${votes.voteType} = 'up'), 0)`,
+        weightDown: sql<number>`coalesce(sum(${votes.weight}) filter (where ${votes.voteType} = 'down'), 0)`,
+        curators: sql<number>`count(distinct ${votes.delegateId})::int`,
+      })
+      .from(votes)
+      .where(
+        and(
+          inArray(votes.proposalId, proposalIds),
+          eq(votes.status, "counted"),
+        ),
+      )
+      .groupBy(votes.proposalId, isDelegated);
+
+    const empty = (): VoteTally => ({
+      votesUp: 0,
+      votesDown: 0,
+      weightUp: 0,
+      weightDown: 0,
+    });
+    for (const proposalId of proposalIds) {
+      breakdowns.set(proposalId, {
+        direct: empty(),
+        delegated: { ...empty(), curators: 0 },
+      });
+    }
+
+    for (const row of rows) {
+      const breakdown = breakdowns.get(row.proposalId)!;
+      const tally = {
+        votesUp: row.votesUp,
+        votesDown: row.votesDown,
+        weightUp: Number(row.weightUp),
+        weightDown: Number(row.weightDown),
+      };
+      if (row.delegated) {
+        breakdown.delegated = { ...tally, curators: row.curators };
+      } else {
+        breakdown.direct = tally;
+      }
+    }
+
+    return breakdowns;
+  }
+
+  async getHistory(userId: number, proposalId?: number): Promise<VoteEvent[]> {
+    const rows = await db
+      .select()
+      .from(voteEvents)
+      .where(
+        proposalId
+          ? and(
+              eq(voteEvents.userId, userId),
+              eq(voteEvents.proposalId, proposalId),
+            )
+          : eq(voteEvents.userId, userId),
+      )
+      .orderBy(asc(voteEvents.createdAt), asc(voteEvents.id));
+
+    return rows.map((row) => ({
+      id: row.id,
+      proposalId: row.proposalId,
+      action: row.action,
+      fromType: row.fromType ?? undefined,
+      toType: row.toType ?? undefined,
+      weight: row.weight,
+      delegateId: row.delegateId ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+}
+
+export const voteService = new VoteService();
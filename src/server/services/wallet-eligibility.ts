@@ -0,0 +1,41 @@
+import { esploraService } from "../btc/esplora";
+import type { CompetitionRuleset } from "~/types";
+
+export class WalletNotEligibleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WalletNotEligibleError";
+  }
+}
+
+export class WalletEligibilityService {
+  /**
+   * Throws unless the wallet has the on-chain history `rules` ask of voters:
+   * enough confirmed transactions, or a first transaction old enough. The
+   * transaction count is checked first since it takes a single request.
+   */
+  async assertEligible(
+    walletAddress: string,
+    rules: CompetitionRuleset,
+  ): Promise<void> {
+    const txCount = await esploraService.getAddressTxCount(walletAddress);
+    if (txCount >= rules.minWalletTxCount || rules.minWalletAgeBlocks === 0) {
+      return;
+    }
+
+    const firstSeenHeight =
+      await esploraService.getFirstSeenHeight(walletAddress);
+    if (firstSeenHeight !== null) {
+      const tipHeight = await esploraService.getCurrentBlockHeight();
+      if (tipHeight - firstSeenHeight + 1 >= rules.minWalletAgeBlocks) {
+        return;
+      }
+    }
+
+    throw new WalletNotEligibleError(
+      `${walletAddress} is too new to vote: it needs ${rules.minWalletTxCount} confirmed transactions or a first transaction at least ${rules.minWalletAgeBlocks} blocks deep`,
+    );
+  }
+}
+
+export const walletEligibilityService = new WalletEligibilityService();
@@ -0,0 +1,38 @@
+import { createHash } from "crypto";
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "tiny-secp256k1";
+
+const sha256 = (data: Buffer) => createHash("sha256").update(data).digest();
+
+/**
+ * A testnet P2WPKH wallet derived from a fixed byte, signing like Bitcoin
+ * Core's signmessage with a BIP-137 segwit header.
+ */
+export function createTestWallet(seed: number) {
+  const privateKey = Buffer.alloc(32, seed);
+  const { address } = bitcoin.payments.p2wpkh({
+    pubkey: Buffer.from(ecc.pointFromScalar(privateKey, true)!),
+    network: bitcoin.networks.testnet,
+  });
+
+  return {
+    address: address!,
+    sign(message: string): string {
+      const body = Buffer.from(message, "utf8");
+      const hash = sha256(
+        sha256(
+          Buffer.concat([
+            Buffer.from("\x18Bitcoin Signed Message:\n", "utf8"),
+            Buffer.from([body.length]),
+            body,
+          ]),
+        ),
+      );
+      const { signature, recoveryId } = ecc.signRecoverable(hash, privateKey);
+      return Buffer.concat([
+        Buffer.from([39 + recoveryId]),
+        Buffer.from(signature),
+      ]).toString("base64");
+    },
+  };
+}
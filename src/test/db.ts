@@ -0,0 +1,41 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/pglite";
+import type * as DrizzleKitApi from "drizzle-kit/api";
+import * as schema from "~/server/db/schema";
+
+// drizzle-kit's API bundle only loads through require
+const { pushSchema } = createRequire(import.meta.url)(
+  "drizzle-kit/api",
+) as typeof DrizzleKitApi;
+
+/**
+ * An in-memory Postgres with the current schema pushed into it. Tests swap it
+ * in for the app database with `vi.mock("~/server/db", ...)`.
+ */
+export async function createTestDb() {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+
+  const { apply } = await pushSchema(
+    schema,
+    db as unknown as Parameters<typeof pushSchema>[1],
+  );
+  await apply();
+
+  return db;
+}
+
+export type TestDb = Awaited<ReturnType<typeof createTestDb>>;
+
+/** Empties every table so each test starts from a blank database. */
+export async function resetTestDb(db: TestDb) {
+  const tables = await db.execute<{ tablename: string }>(
+    sql`select tablename from pg_tables where schemaname = 'public'`,
+  );
+  const names = tables.rows.map((row) => `"${row.tablename}"`).join(", ");
+  if (names) {
+    await db.execute(sql.raw(`truncate ${names} restart identity cascade`));
+  }
+}
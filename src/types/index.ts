@@ -25,6 +25,9 @@ export interface Proposal {
   votesUp: number;
   votesDown: number;
   totalVotes: number;
+  /** Summed vote weights; equal to the counts when every vote weighs 1 */
+  weightUp?: number;
+  weightDown?: number;
   status:
     | "active"
     | "leader"
@@ -34,11 +37,59 @@ export interface Proposal {
     | "expired";
   firstTimeAsLeader?: string;
   leaderStartBlock?: number;
+  /** Winner slot held while leading, and kept once the proposal wins */
+  leaderSlot?: number;
   leaderboardMinBlocks: number;
   expirationBlock?: number;
   createdAt: string;
   updatedAt: string;
   submitter?: User;
+  /** Bitcoin address whose signature the submitter's edits need */
+  editorAddress?: string;
+  /** Edits the submitter made, oldest first; only on the detail endpoint */
+  revisions?: ProposalRevision[];
+  /** The proposal can be edited until the chain reaches this block */
+  editableUntilBlock?: number;
+}
+
+/** Fields a submitter may correct; the name, ticker and image are fixed */
+export type ProposalEditableField =
+  | "description"
+  | "website"
+  | "twitter"
+  | "telegram"
+  | "bannerUrl";
+
+/** New values by field; an empty string clears an optional field */
+export type ProposalEdit = Partial<Record<ProposalEditableField, string>>;
+
+export interface ProposalRevision {
+  id: number;
+  revision: number;
+  editedBy: string;
+  blockHeight: number;
+  changes: ProposalEdit;
+  previous: ProposalEdit;
+  createdAt: string;
+}
+
+export type ProposalStatusActor =
+  | "engine"
+  | "unisat-monitor"
+  | "job-worker"
+  | "admin"
+  | "api"
+  | "test";
+
+export interface ProposalStatusEvent {
+  id: number;
+  fromStatus: Proposal["status"];
+  toStatus: Proposal["status"];
+  actor: ProposalStatusActor;
+  reason?: string;
+  blockHeight: number;
+  revertedAt?: string;
+  createdAt: string;
 }
 
 export interface Vote {
@@ -46,7 +97,90 @@ export interface Vote {
   userId: number;
   proposalId: number;
   voteType: "up" | "down";
+  weight: number;
+  status: VoteStatus;
+  holdReason?: string;
+  /** Set when the vote was cast on the user's behalf by this curator */
+  delegateId?: number;
+  source: VoteSource;
+  /** Transaction that carried an on-chain vote */
+  txid?: string;
   createdAt: string;
+  updatedAt: string;
+}
+
+/** "reveal" votes were cast by opening a commitment and carry its signature */
+export type VoteSource = "api" | "onchain" | "delegation" | "reveal";
+
+/** An OP_RETURN vote found in a processed block */
+export interface OnchainVote {
+  id: number;
+  txid: string;
+  blockHeight: number;
+  blockHash: string;
+  walletAddress?: string;
+  proposalId: number;
+  voteType: "up" | "down";
+  status: "applied" | "ignored" | "orphaned";
+  /** Why the vote was ignored */
+  reason?: string;
+  voteId?: number;
+  createdAt: string;
+}
+
+/** Held votes are left off the proposal counters until an admin reviews them */
+export type VoteStatus = "counted" | "held" | "rejected";
+
+export type VoteAction =
+  | "cast"
+  | "change"
+  | "retract"
+  | "hold"
+  | "release"
+  | "reject";
+
+export interface VoteEvent {
+  id: number;
+  proposalId: number;
+  action: VoteAction;
+  fromType?: "up" | "down";
+  toType?: "up" | "down";
+  weight: number;
+  delegateId?: number;
+  createdAt: string;
+}
+
+export interface Delegation {
+  id: number;
+  delegatorAddress: string;
+  delegateAddress: string;
+  /** Round the delegation is limited to; open-ended when absent */
+  roundId?: number;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+export interface VoteTally {
+  votesUp: number;
+  votesDown: number;
+  weightUp: number;
+  weightDown: number;
+}
+
+export interface VoteCounters {
+  votesUp: number;
+  votesDown: number;
+  totalVotes: number;
+  weightUp: number;
+  weightDown: number;
+}
+
+/** A proposal whose stored counters did not match its counted votes */
+export interface VoteCounterDrift {
+  proposalId: number;
+  ticker: string;
+  stored: VoteCounters;
+  recomputed: VoteCounters;
 }
 
 export interface Inscription {
@@ -64,6 +198,7 @@ export interface Inscription {
   orderStatus?: string;
   paymentAddress?: string;
   paymentAmount?: number;
+  slot: number;
   createdAt: string;
   proposal?: Proposal;
 }
@@ -83,6 +218,8 @@ export interface InscriptionRecord {
   orderStatus: string | null;
   paymentAddress: string | null;
   paymentAmount: number | null;
+  paymentTxid: string | null;
+  slot: number;
   createdAt: Date;
 }
 
@@ -137,9 +274,201 @@ export interface InscriptionPayload {
     inscriptionBlock: number;
     inscriptionTime: string;
     competitionRound: string;
+    /** Merkle root over the winner's counted votes */
+    voteMerkleRoot?: string;
+    committedVotes?: number;
   };
 }
 
+export type RankingStrategyName = "net" | "wilson" | "trending";
+
+/**
+ * "count" gives every wallet one vote, "balance" weighs it by BTC held and
+ * "quadratic" lets a wallet buy n votes per proposal for n² round credits
+ */
+export type VotingMode = "count" | "balance" | "quadratic";
+export type BalanceWeightCurve = "linear" | "sqrt";
+
+export interface CompetitionRuleset {
+  proposalLifetimeBlocks: number;
+  defenseBlocks: number;
+  resetAfterBlocksWithoutLaunch: number;
+  /** Upvotes a slot holder needs before it can become leader */
+  minVotes: number;
+  leaderExpirationBlocks: number;
+  rankingStrategy: RankingStrategyName;
+  /** Top proposals that can each defend their position and win in one block */
+  winnerSlots: number;
+  votingMode: VotingMode;
+  /** Balance above this many sats adds no further weight */
+  balanceWeightCapSats: number;
+  balanceWeightCurve: BalanceWeightCurve;
+  quadraticCreditsPerRound: number;
+  /**
+   * A wallet may vote once it has this many confirmed transactions or its
+   * first one is `minWalletAgeBlocks` deep; either is enough
+   */
+  minWalletTxCount: number;
+  minWalletAgeBlocks: number;
+  /**
+   * Blocks votes are committed as hashes before `revealPhaseBlocks` blocks
+   * to reveal them; 0 lets votes count as soon as they are cast
+   */
+  commitPhaseBlocks: number;
+  revealPhaseBlocks: number;
+  /** Blocks after creation the submitter may edit a proposal nobody voted on */
+  proposalEditBlocks: number;
+}
+
+export interface CompetitionConfig extends CompetitionRuleset {
+  id: number | null;
+  effectiveFromBlock: number;
+  reason?: string;
+  createdAt?: string;
+}
+
+export interface CompetitionRound {
+  id: number;
+  label: string;
+  status: "open" | "won" | "reset";
+  startBlock: number;
+  endBlock?: number;
+  participants: number[];
+  winnerProposalId?: number;
+  winnerProposalIds: number[];
+  resetReason?: string;
+  inscriptionId?: number;
+  pumpFunTokenId?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type InscriptionProvider = "unisat" | "ordinalsbot" | "ord" | "mock";
+
+export interface InscriptionContext {
+  competitionRound?: string;
+  voteMerkleRoot?: string;
+  committedVotes?: number;
+}
+
+/**
+ * A counted vote as committed in a winner's vote Merkle tree. `proof` is
+ * what authorized the vote: the wallet's signature for "api" votes, the
+ * transaction id for "onchain" votes, the delegation id for "delegation"
+ * votes and the commitment's signature for "reveal" votes.
+ */
+export interface VoteMerkleLeaf {
+  walletAddress: string;
+  proposalId: number;
+  voteType: "up" | "down";
+  /** Vote weight with exactly eight decimals, e.g. "1.00000000" */
+  weight: string;
+  source: VoteSource;
+  proof: string;
+}
+
+/**
+ * Voting phase at the last processed block. Outside "open" the phases
+ * alternate: each switches when the chain reaches the block that opens the
+ * next one.
+ */
+export interface VotingPhase {
+  phase: "open" | "commit" | "reveal";
+  blockHeight: number;
+  commitOpensAtBlock?: number;
+  revealOpensAtBlock?: number;
+  revealClosesAtBlock?: number;
+}
+
+export interface VoteCommitment {
+  id: number;
+  proposalId: number;
+  commitment: string;
+  revealOpensAtBlock: number;
+  revealClosesAtBlock: number;
+  revealedAt?: string;
+  createdAt: string;
+}
+
+export interface VoteMerkleProof {
+  root: string;
+  voteCount: number;
+  leafIndex: number;
+  leaf: VoteMerkleLeaf;
+  leafHash: string;
+  /** Sibling hashes from the leaf up, with the side each sits on */
+  path: Array<{ side: "left" | "right"; hash: string }>;
+}
+
+export interface LeaderboardSnapshotEntry {
+  proposalId: number;
+  ticker: string;
+  rank: number;
+  votesUp: number;
+  votesDown: number;
+  totalVotes: number;
+  score: number;
+  status: Proposal["status"];
+  leaderSlot?: number;
+}
+
+export interface LeaderboardSnapshot {
+  blockHeight: number;
+  blockHash: string;
+  rankingStrategy: RankingStrategyName;
+  entries: LeaderboardSnapshotEntry[];
+  createdAt: string;
+}
+
+export type EngineMode = "running" | "paused" | "maintenance";
+
+export interface EngineState {
+  mode: EngineMode;
+  reason?: string;
+  /** Block height at which the engine resumes on its own */
+  resumeAtBlock?: number;
+  updatedAt: string;
+}
+
+export interface ServiceLease {
+  name: string;
+  holderId: string;
+  acquiredAt: string;
+  renewedAt: string;
+  expiresAt: string;
+  isHeldByThisNode: boolean;
+}
+
+export type JobType =
+  | "inscription.create"
+  | "inscription.pay"
+  | "pumpfun.launch";
+
+export type JobStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "dead"
+  | "cancelled";
+
+export interface Job {
+  id: number;
+  type: JobType;
+  idempotencyKey: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  blockHeight?: number;
+  runAt: string;
+  lockedBy?: string;
+  lastError?: string;
+  result?: Record<string, unknown>;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -167,18 +496,47 @@ export interface ProposalSubmission {
   imageUrl: string;
   bannerUrl?: string;
   walletAddress?: string;
+  /** Bitcoin address that will sign edits; without one the proposal is final */
+  editorAddress?: string;
 }
 
 export interface VoteSubmission {
   proposalId: number;
-  voteType: "up" | "down";
+  /** "retract" is only valid when withdrawing a vote */
+  voteType: "up" | "down" | "retract";
   walletAddress?: string;
+  /** Votes to hold on the proposal; above 1 only in quadratic mode */
+  votes?: number;
+  nonce: string;
+  /** Base64 BIP-322 or legacy signature over the challenge message */
+  signature: string;
+}
+
+export interface VoteCredits {
+  roundId: number;
+  budget: number;
+  spent: number;
+  remaining: number;
+  /** Votes held and credits spent per proposal in this round */
+  allocations: Array<{ proposalId: number; votes: number; credits: number }>;
+}
+
+export interface VoteChallenge {
+  nonce: string;
+  /** Exact message the wallet must sign */
+  message: string;
+  expiresAt: string;
 }
 
 export interface LeaderboardEntry extends Proposal {
   rank: number;
   score: number;
   isWinner?: boolean;
+  /** Counted votes split into wallets' own votes and those cast by curators */
+  breakdown?: {
+    direct: VoteTally;
+    delegated: VoteTally & { curators: number };
+  };
 }
 
 export interface BitcoinTransaction {
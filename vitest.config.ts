@@ -0,0 +1,32 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "~": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    // Each test file pushes the schema into its own in-memory database
+    pool: "forks",
+    poolOptions: { forks: { singleFork: true } },
+    // The engine logs every step; only show the logs of failing tests
+    silent: "passed-only",
+    testTimeout: 30000,
+    hookTimeout: 60000,
+    env: {
+      NODE_ENV: "test",
+      DATABASE_URL: "postgres://test@localhost:5432/test",
+      HELIUS_RPC_URL: "https://rpc.invalid",
+      // Throwaway keypair derived from a fixed seed; never funded
+      SOLANA_PLATFORM_WALLET_PRIVATE_KEY:
+        "99eUso3aSbE9tqGSTXzo3TLfKb9RkMTURrHKQ1K7Zh3StnzFNUx8FKCPPPPpR479qsw5zv2WNBKmgiz7WqgAJfM",
+      BITCOIN_NETWORK: "testnet",
+      BLOCK_SOURCE: "simulated",
+      SIMULATION_START_HEIGHT: "800000",
+      SIMULATION_SEED: "test",
+      UNISAT_API: "test",
+      CRON_SECRET: "test-secret",
+    },
+  },
+});